@@ -1,12 +1,92 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { ProfileProvider } from './contexts/ProfileContext';
+import { JobsProvider } from './contexts/JobsContext';
+import { ApplicationsProvider } from './contexts/ApplicationsContext';
+import { DraftsProvider } from './contexts/DraftsContext';
+import { CoverLetterTemplatesProvider } from './contexts/CoverLetterTemplatesContext';
 import { AuthPage } from './components/AuthPage';
 import { Dashboard } from './components/Dashboard';
 import { JobApplicationForm } from './components/JobApplicationForm';
+import { SessionExpiryNotice } from './components/SessionExpiryNotice';
+import { OAuthCallback } from './components/OAuthCallback';
+import { ResetPasswordPage } from './components/ResetPasswordPage';
+import { VerifyEmailPage } from './components/VerifyEmailPage';
+import { ForbiddenPage } from './components/ForbiddenPage';
+import { SettingsPage } from './components/SettingsPage';
+import { ProfilePage } from './components/ProfilePage';
+import { JobsPage } from './components/JobsPage';
+import { ApplicationReviewPage } from './components/ApplicationReviewPage';
+import { UserRole } from './types/auth';
+import { AuthService } from './services/authService';
+import { createHttpAuthService } from './services/httpAuthService';
+import { createMockAuthService } from './services/mockAuthService';
+import { CALLBACK_PATH } from './services/oauth';
+import { createInMemoryMailOutbox } from './services/mailOutbox';
+import { ProfileService } from './services/profileService';
+import { createHttpProfileService } from './services/httpProfileService';
+import { createMockProfileService } from './services/mockProfileService';
+import { JobService } from './services/jobService';
+import { createHttpJobService } from './services/httpJobService';
+import { createMockJobService } from './services/mockJobService';
+import { ApplicationService } from './services/applicationService';
+import { createHttpApplicationService } from './services/httpApplicationService';
+import { createMockApplicationService } from './services/mockApplicationService';
+import { ResumeService } from './services/resumeService';
+import { createHttpResumeService } from './services/httpResumeService';
+import { createMockResumeService } from './services/mockResumeService';
+import { DraftService } from './services/draftService';
+import { createHttpDraftService } from './services/httpDraftService';
+import { createMockDraftService } from './services/mockDraftService';
+import { createIndexedDbDraftStore } from './services/draftStore';
+import { CoverLetterTemplateService } from './services/coverLetterTemplateService';
+import { createHttpCoverLetterTemplateService } from './services/httpCoverLetterTemplateService';
+import { createMockCoverLetterTemplateService } from './services/mockCoverLetterTemplateService';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+// Talk to the real backend when one is configured, otherwise stay fully offline
+const authService: AuthService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpAuthService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : createMockAuthService({ outbox: createInMemoryMailOutbox() });
+
+const profileService: ProfileService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpProfileService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : createMockProfileService();
+
+// The offline applications service screens answers against this catalog's questions, as the real backend does its own
+const mockJobService = createMockJobService();
+
+const jobService: JobService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpJobService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : mockJobService;
+
+const applicationService: ApplicationService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpApplicationService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : createMockApplicationService({ jobs: mockJobService });
+
+const resumeService: ResumeService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpResumeService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : createMockResumeService();
+
+const draftService: DraftService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpDraftService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : createMockDraftService();
+
+// Drafts are always kept in this browser as well, so a reload or lost connection doesn't lose them
+const draftStore = createIndexedDbDraftStore();
+
+const coverLetterTemplateService: CoverLetterTemplateService = import.meta.env.VITE_API_BASE_URL
+  ? createHttpCoverLetterTemplateService({ baseUrl: import.meta.env.VITE_API_BASE_URL })
+  : createMockCoverLetterTemplateService();
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  /** Roles allowed through; any authenticated user when omitted */
+  roles?: UserRole[];
+}
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+  const { isAuthenticated, isLoading, user } = useAuth();
 
   if (isLoading) {
     return (
@@ -19,7 +99,15 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     );
   }
 
-  return isAuthenticated ? <>{children}</> : <Navigate to="/auth" replace />;
+  if (!isAuthenticated) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (roles && (!user || !roles.includes(user.role))) {
+    return <ForbiddenPage />;
+  }
+
+  return <>{children}</>;
 };
 
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -51,6 +139,9 @@ function AppContent() {
             </PublicRoute>
           }
         />
+        <Route path={CALLBACK_PATH} element={<OAuthCallback />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
         <Route
           path="/dashboard"
           element={
@@ -60,23 +151,76 @@ function AppContent() {
           }
         />
         <Route
-          path="/application"
+          path="/jobs"
           element={
             <ProtectedRoute>
+              <JobsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/jobs/:jobId/apply"
+          element={
+            <ProtectedRoute roles={['candidate']}>
               <JobApplicationForm />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/applications/:applicationId/edit"
+          element={
+            <ProtectedRoute roles={['candidate']}>
+              <JobApplicationForm />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/review"
+          element={
+            <ProtectedRoute roles={['recruiter', 'admin']}>
+              <ApplicationReviewPage />
+            </ProtectedRoute>
+          }
+        />
+        {/* Applications used to be generic; old links land in the catalog instead */}
+        <Route path="/application" element={<Navigate to="/jobs" replace />} />
+        <Route
+          path="/profile"
+          element={
+            <ProtectedRoute roles={['candidate']}>
+              <ProfilePage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/settings"
+          element={
+            <ProtectedRoute>
+              <SettingsPage />
+            </ProtectedRoute>
+          }
+        />
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
       </Routes>
+      <SessionExpiryNotice />
     </Router>
   );
 }
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
+    <AuthProvider service={authService}>
+      <ProfileProvider service={profileService}>
+        <JobsProvider service={jobService}>
+          <ApplicationsProvider service={applicationService} resumeService={resumeService}>
+            <DraftsProvider service={draftService} store={draftStore}>
+              <CoverLetterTemplatesProvider service={coverLetterTemplateService}>
+                <AppContent />
+              </CoverLetterTemplatesProvider>
+            </DraftsProvider>
+          </ApplicationsProvider>
+        </JobsProvider>
+      </ProfileProvider>
     </AuthProvider>
   );
 }
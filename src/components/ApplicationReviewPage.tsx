@@ -0,0 +1,426 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Download, FileText, Flag, XCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useApplications } from '../contexts/ApplicationsContext';
+import { isApiError } from '../services/http';
+import { CoreApplicationAnswers, JobApplication } from '../types/application';
+import { ScreeningOutcome, ScreeningResult } from '../types/screening';
+import {
+  SKILL_CATEGORIES,
+  SKILL_CATEGORY_LABELS,
+  SKILL_PROFICIENCIES,
+  SKILL_PROFICIENCY_LABELS,
+  SKILL_TAXONOMY,
+  SkillProficiency,
+} from '../types/skill';
+import {
+  APPLICATION_ANSWER_LABELS,
+  changedAnswerFields,
+  changedCustomAnswers,
+  formatAnswer,
+  previousRevision,
+} from '../utils/applications';
+import { downloadApplicationReceipt } from '../utils/applicationReceipt';
+import { downloadBlob } from '../utils/download';
+import { formatScreeningRule } from '../utils/screening';
+import { hasSkillAtLeast } from '../utils/skills';
+import { ApplicationStatusBadge } from './ApplicationStatusBadge';
+import { ApplicationTimeline } from './ApplicationTimeline';
+import { RichTextView } from './RichTextEditor';
+
+const ANSWER_KEYS = Object.keys(APPLICATION_ANSWER_LABELS) as (keyof CoreApplicationAnswers)[];
+
+interface AnswerRowProps {
+  label: string;
+  value: string;
+  /** Set when the answer changed in the latest revision */
+  previousValue?: string;
+}
+
+const AnswerRow: React.FC<AnswerRowProps> = ({ label, value, previousValue }) => {
+  const isChanged = previousValue !== undefined;
+  return (
+    <div className={`py-3 px-2 grid grid-cols-3 gap-4 rounded ${isChanged ? 'bg-yellow-50' : ''}`}>
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-900 col-span-2 whitespace-pre-line">
+        {isChanged && <span className="block text-gray-500 line-through">{previousValue}</span>}
+        <span className={isChanged ? 'font-medium' : undefined}>{value}</span>
+      </dd>
+    </div>
+  );
+};
+
+interface ScreeningBadgesProps {
+  screening: ScreeningResult;
+  /** Adds the score as a badge of its own, when there is one */
+  showScore?: boolean;
+}
+
+/** Knock-out and flag badges, for applications whose screening found either. */
+const ScreeningBadges: React.FC<ScreeningBadgesProps> = ({ screening, showScore = false }) => (
+  <>
+    {screening.knockedOut && (
+      <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+        Knocked Out
+      </span>
+    )}
+    {screening.flagged && (
+      <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+        Flagged
+      </span>
+    )}
+    {showScore && screening.score !== null && (
+      <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+        Score {screening.score}%
+      </span>
+    )}
+  </>
+);
+
+// A missed knock-out disqualifies and a missed flag needs a look; a missed scored question only costs points
+const OutcomeIcon: React.FC<{ outcome: ScreeningOutcome }> = ({ outcome }) => {
+  const className = 'w-4 h-4 mr-2 mt-0.5 flex-shrink-0';
+  if (outcome.passed) return <CheckCircle className={`${className} text-green-600`} aria-label="Met" />;
+  if (outcome.rule.type === 'flag') return <Flag className={`${className} text-yellow-600`} aria-label="Flagged" />;
+  return (
+    <XCircle
+      className={`${className} ${outcome.rule.type === 'knockout' ? 'text-red-600' : 'text-gray-400'}`}
+      aria-label="Not met"
+    />
+  );
+};
+
+/** How the answers fared against the job's screening questions, one row per question. */
+const ScreeningPanel: React.FC<{ screening: ScreeningResult }> = ({ screening }) => (
+  <section className="rounded-lg border border-gray-200 p-4">
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+      <h3 className="text-sm font-medium text-gray-900">Screening</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <ScreeningBadges screening={screening} />
+        {screening.score !== null && (
+          <span className="text-sm font-semibold text-gray-900">Score {screening.score}%</span>
+        )}
+      </div>
+    </div>
+    <ul className="divide-y divide-gray-100">
+      {screening.outcomes.map(outcome => (
+        <li key={outcome.name} className="py-2 flex items-start">
+          <OutcomeIcon outcome={outcome} />
+          <div className="min-w-0">
+            <p className="text-sm text-gray-900">{outcome.label}</p>
+            <p className="text-xs text-gray-500">
+              Answered {outcome.answer} · Expected {outcome.expectedAnswer} · {formatScreeningRule(outcome.rule)}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  </section>
+);
+
+interface ApplicationDetailProps {
+  application: JobApplication;
+}
+
+/** One application's latest answers, with anything changed since the previous revision highlighted. */
+const ApplicationDetail: React.FC<ApplicationDetailProps> = ({ application }) => {
+  const { downloadResume } = useApplications();
+  const [isDownloadingResume, setIsDownloadingResume] = useState(false);
+  const [resumeError, setResumeError] = useState<string | null>(null);
+  const previous = previousRevision(application.revisions);
+  const changed = previous ? changedAnswerFields(previous.answers, application.answers) : [];
+  const changedCustom = previous ? changedCustomAnswers(previous.answers, application.answers) : [];
+  const coverLetterChanged = previous !== null && previous.answers.coverLetter !== application.answers.coverLetter;
+  const changeCount = changed.length + changedCustom.length + (coverLetterChanged ? 1 : 0);
+  const latest = application.revisions[application.revisions.length - 1];
+
+  // Resumes are fetched only when asked for, so the review list stays small
+  const handleDownloadResume = async () => {
+    if (!application.resume) return;
+    setIsDownloadingResume(true);
+    setResumeError(null);
+    try {
+      downloadBlob(await downloadResume(application.resume), application.resume.fileName);
+    } catch (error) {
+      console.error('Resume download failed:', error);
+      setResumeError(isApiError(error) ? error.message : 'Unable to download the resume. Please try again.');
+    } finally {
+      setIsDownloadingResume(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white">
+        <div className="flex items-start justify-between">
+          <h2 className="text-2xl font-bold mb-1">{application.answers.fullName}</h2>
+          <button
+            onClick={() => downloadApplicationReceipt(application)}
+            className="flex items-center ml-4 px-3 py-1.5 text-sm font-medium text-white border border-white/40 rounded-lg hover:bg-white/10 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Receipt
+          </button>
+        </div>
+        <p className="text-blue-100">
+          {application.jobTitle} · {application.company} · Ref. {application.referenceNumber}
+        </p>
+        <p className="mt-2 text-sm text-blue-100">
+          Submitted {new Date(application.submittedAt).toLocaleString()}
+          {previous && latest && ` · Revision ${latest.revision}, saved ${new Date(latest.savedAt).toLocaleString()}`}
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {changeCount > 0 && (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            The candidate changed {changeCount} answer{changeCount === 1 ? '' : 's'} since revision{' '}
+            {previous?.revision}. Highlighted fields show the earlier value struck through.
+          </p>
+        )}
+
+        {application.screening && <ScreeningPanel screening={application.screening} />}
+
+        {application.resume && (
+          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+            <p className="text-sm font-medium text-gray-900 flex items-center min-w-0">
+              <FileText className="w-5 h-5 mr-2 text-blue-600 flex-shrink-0" />
+              <span className="truncate">{application.resume.fileName}</span>
+            </p>
+            <button
+              onClick={handleDownloadResume}
+              disabled={isDownloadingResume}
+              className="flex items-center ml-4 text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              {isDownloadingResume ? 'Downloading...' : 'Download Resume'}
+            </button>
+          </div>
+        )}
+        {resumeError && (
+          <p className="text-sm text-red-600 flex items-center">
+            <AlertCircle className="w-4 h-4 mr-1" />
+            {resumeError}
+          </p>
+        )}
+
+        <dl className="divide-y divide-gray-200">
+          {ANSWER_KEYS.map(key => (
+            <AnswerRow
+              key={key}
+              label={APPLICATION_ANSWER_LABELS[key]}
+              value={formatAnswer(application.answers, key)}
+              previousValue={previous && changed.includes(key) ? formatAnswer(previous.answers, key) : undefined}
+            />
+          ))}
+          {application.answers.customAnswers.map(answer => (
+            <AnswerRow
+              key={answer.name}
+              label={answer.label}
+              value={answer.displayValue || '—'}
+              previousValue={
+                previous && changedCustom.includes(answer.name)
+                  ? previous.answers.customAnswers.find(p => p.name === answer.name)?.displayValue || '—'
+                  : undefined
+              }
+            />
+          ))}
+        </dl>
+
+        {(application.answers.coverLetter || coverLetterChanged) && (
+          <section className={`rounded-lg border p-4 ${coverLetterChanged ? 'bg-yellow-50 border-yellow-200' : 'border-gray-200'}`}>
+            <h3 className="text-sm font-medium text-gray-500 mb-2">
+              Cover Letter{coverLetterChanged && ` · changed since revision ${previous?.revision}`}
+            </h3>
+            {application.answers.coverLetter ? (
+              <RichTextView html={application.answers.coverLetter} />
+            ) : (
+              <p className="text-sm text-gray-900">Removed</p>
+            )}
+          </section>
+        )}
+
+        {application.withdrawalReason && (
+          <p className="text-sm text-gray-600">
+            <span className="font-medium">Reason for withdrawing:</span> {application.withdrawalReason}
+          </p>
+        )}
+
+        <div className="border-t pt-6">
+          <h3 className="text-sm font-medium text-gray-900 mb-4">Status History</h3>
+          <ApplicationTimeline history={application.statusHistory} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const ApplicationReviewPage: React.FC = () => {
+  const { listApplicationsForReview } = useApplications();
+  const navigate = useNavigate();
+
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [skillFilter, setSkillFilter] = useState('');
+  const [minimumProficiency, setMinimumProficiency] = useState<SkillProficiency | ''>('');
+  const [hideKnockedOut, setHideKnockedOut] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    listApplicationsForReview()
+      .then(loaded => {
+        if (!isCurrent) return;
+        setApplications(loaded);
+        setSelectedId(prev => prev ?? loaded[0]?.id ?? null);
+      })
+      .catch(err => {
+        console.error('Review list failed:', err);
+        if (isCurrent) setError(isApiError(err) ? err.message : 'Unable to load applications. Please try again.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [listApplicationsForReview]);
+
+  // Filter on taxonomy ids rather than names, so "JS" and "JavaScript" are the same skill
+  const visibleApplications = applications.filter(
+    a =>
+      (!skillFilter || hasSkillAtLeast(a.answers.skills, skillFilter, minimumProficiency || null)) &&
+      !(hideKnockedOut && a.screening?.knockedOut)
+  );
+  const selected = visibleApplications.find(a => a.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center text-blue-600 hover:text-blue-700 transition-colors mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Review Applications</h1>
+        </div>
+
+        {error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : isLoading ? (
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading applications...</p>
+          </div>
+        ) : applications.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+            No applications have been submitted yet.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+            <div className="md:col-span-2 space-y-4 self-start">
+              <div className="bg-white rounded-lg shadow-sm border p-4 grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="skillFilter" className="block text-xs font-medium text-gray-500 mb-1">
+                    Skill
+                  </label>
+                  <select
+                    id="skillFilter"
+                    value={skillFilter}
+                    onChange={e => setSkillFilter(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Any skill</option>
+                    {SKILL_CATEGORIES.map(category => (
+                      <optgroup key={category} label={SKILL_CATEGORY_LABELS[category]}>
+                        {SKILL_TAXONOMY.filter(skill => skill.category === category).map(skill => (
+                          <option key={skill.id} value={skill.id}>
+                            {skill.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="minimumProficiency" className="block text-xs font-medium text-gray-500 mb-1">
+                    At least
+                  </label>
+                  <select
+                    id="minimumProficiency"
+                    value={minimumProficiency}
+                    onChange={e => setMinimumProficiency(e.target.value as SkillProficiency | '')}
+                    disabled={!skillFilter}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                  >
+                    <option value="">Any level</option>
+                    {SKILL_PROFICIENCIES.map(level => (
+                      <option key={level} value={level}>
+                        {SKILL_PROFICIENCY_LABELS[level]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="col-span-2 flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={hideKnockedOut}
+                    onChange={e => setHideKnockedOut(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>Hide knocked-out applicants</span>
+                </label>
+              </div>
+
+              {visibleApplications.length === 0 ? (
+                <p className="bg-white rounded-lg shadow-sm border p-6 text-sm text-gray-600 text-center">
+                  No applications match these filters.
+                </p>
+              ) : (
+                <ul className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200 overflow-hidden">
+                  {visibleApplications.map(application => (
+                    <li key={application.id}>
+                      <button
+                        onClick={() => setSelectedId(application.id)}
+                        aria-current={application.id === selectedId}
+                        className={`w-full px-4 py-3 text-left transition-colors ${
+                          application.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium text-gray-900">{application.answers.fullName}</p>
+                          <ApplicationStatusBadge status={application.status} />
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {application.jobTitle} · {new Date(application.submittedAt).toLocaleDateString()}
+                        </p>
+                        <div className="mt-1 flex flex-wrap items-center gap-1">
+                          {application.revisions.length > 1 && (
+                            <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                              Amended
+                            </span>
+                          )}
+                          {application.screening && <ScreeningBadges screening={application.screening} showScore />}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="md:col-span-3">{selected && <ApplicationDetail key={selected.id} application={selected} />}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { APPLICATION_STATUS_LABELS, ApplicationStatus } from '../types/application';
+
+const statusStyles: Record<ApplicationStatus, string> = {
+  submitted: 'bg-blue-100 text-blue-700',
+  under_review: 'bg-yellow-100 text-yellow-800',
+  interview: 'bg-purple-100 text-purple-700',
+  offer: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  withdrawn: 'bg-gray-100 text-gray-600',
+};
+
+export const ApplicationStatusBadge: React.FC<{ status: ApplicationStatus }> = ({ status }) => (
+  <span className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${statusStyles[status]}`}>
+    {APPLICATION_STATUS_LABELS[status]}
+  </span>
+);
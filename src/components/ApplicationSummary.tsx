@@ -0,0 +1,80 @@
+import React from 'react';
+import { FileText, Pencil } from 'lucide-react';
+import { ResumeFile } from '../types/application';
+import { FormSchema, FormValues } from '../types/formSchema';
+import { emptyFormValue, formatFormValue, isFieldVisible } from '../utils/formSchema';
+import { RichTextView } from './RichTextEditor';
+
+interface ApplicationSummaryProps {
+  schema: FormSchema;
+  values: FormValues;
+  /** Shown above the answers when given; `null` means no resume was attached */
+  resume?: ResumeFile | null;
+  /** Called with a section id when the candidate wants to change its answers */
+  onEdit: (sectionId: string) => void;
+}
+
+/** A read-only run through every visible answer, section by section. */
+export const ApplicationSummary: React.FC<ApplicationSummaryProps> = ({ schema, values, resume, onEdit }) => (
+  <div className="space-y-6">
+    {resume !== undefined && (
+      <section className="border rounded-lg overflow-hidden">
+        <div className="px-4 py-3 bg-gray-50 border-b flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">Resume</h3>
+          <button
+            type="button"
+            onClick={() => onEdit(schema.sections[0].id)}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <Pencil className="w-4 h-4 mr-1" />
+            Edit
+          </button>
+        </div>
+        <p className="px-4 py-3 text-sm text-gray-900 flex items-center">
+          {resume ? (
+            <>
+              <FileText className="w-4 h-4 mr-2 text-blue-600" />
+              {resume.fileName}
+            </>
+          ) : (
+            'No resume attached'
+          )}
+        </p>
+      </section>
+    )}
+    {schema.sections.map(section => (
+      <section key={section.id} className="border rounded-lg overflow-hidden">
+        <div className="px-4 py-3 bg-gray-50 border-b flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">{section.title}</h3>
+          <button
+            type="button"
+            onClick={() => onEdit(section.id)}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <Pencil className="w-4 h-4 mr-1" />
+            Edit
+          </button>
+        </div>
+        <dl className="divide-y divide-gray-200">
+          {section.fields
+            .filter(field => isFieldVisible(field, values))
+            .map(field => {
+              const value = values[field.name] ?? emptyFormValue(field);
+              return (
+                <div key={field.name} className="px-4 py-3 grid grid-cols-3 gap-4">
+                  <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                  {field.type === 'cover-letter' && typeof value === 'string' && value ? (
+                    <dd className="col-span-2">
+                      <RichTextView html={value} />
+                    </dd>
+                  ) : (
+                    <dd className="text-sm text-gray-900 col-span-2 whitespace-pre-line">{formatFormValue(field, value)}</dd>
+                  )}
+                </div>
+              );
+            })}
+        </dl>
+      </section>
+    ))}
+  </div>
+);
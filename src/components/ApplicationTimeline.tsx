@@ -0,0 +1,28 @@
+import React from 'react';
+import { APPLICATION_STATUS_LABELS, ApplicationStatusChange } from '../types/application';
+
+interface ApplicationTimelineProps {
+  history: ApplicationStatusChange[];
+}
+
+export const ApplicationTimeline: React.FC<ApplicationTimelineProps> = ({ history }) => (
+  <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+    {history.map((change, index) => {
+      const isCurrent = index === history.length - 1;
+      return (
+        <li key={`${change.status}-${change.changedAt}`} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+              isCurrent ? 'bg-blue-600' : 'bg-gray-300'
+            }`}
+          />
+          <p className={`text-sm font-medium ${isCurrent ? 'text-gray-900' : 'text-gray-600'}`}>
+            {APPLICATION_STATUS_LABELS[change.status]}
+          </p>
+          <time className="text-xs text-gray-500">{new Date(change.changedAt).toLocaleString()}</time>
+          {change.note && <p className="mt-1 text-sm text-gray-600">{change.note}</p>}
+        </li>
+      );
+    })}
+  </ol>
+);
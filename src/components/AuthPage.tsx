@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
 import { LoginForm } from './LoginForm';
 import { SignupForm } from './SignupForm';
+import { ForgotPasswordForm } from './ForgotPasswordForm';
+import { MfaChallengeForm } from './MfaChallengeForm';
+import { useAuth } from '../contexts/AuthContext';
+
+type AuthView = 'login' | 'signup' | 'forgot-password';
 
 export const AuthPage: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
+  const { mfaChallenge } = useAuth();
+  const [view, setView] = useState<AuthView>('login');
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
@@ -15,10 +21,16 @@ export const AuthPage: React.FC = () => {
           </div>
           
           <div className="p-8">
-            {isLogin ? (
-              <LoginForm onSwitchToSignup={() => setIsLogin(false)} />
-            ) : (
-              <SignupForm onSwitchToLogin={() => setIsLogin(true)} />
+            {mfaChallenge && <MfaChallengeForm />}
+            {!mfaChallenge && view === 'login' && (
+              <LoginForm
+                onSwitchToSignup={() => setView('signup')}
+                onForgotPassword={() => setView('forgot-password')}
+              />
+            )}
+            {!mfaChallenge && view === 'signup' && <SignupForm onSwitchToLogin={() => setView('login')} />}
+            {!mfaChallenge && view === 'forgot-password' && (
+              <ForgotPasswordForm onBackToLogin={() => setView('login')} />
             )}
           </div>
         </div>
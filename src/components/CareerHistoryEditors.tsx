@@ -0,0 +1,294 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { EducationEntry, WorkHistoryEntry } from '../types/career';
+import { monthOf, newEducationEntry, newWorkHistoryEntry, yearsOfExperience } from '../utils/career';
+
+const fieldClassName = (hasError: boolean) =>
+  `w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:bg-gray-100 ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`;
+
+const labelClassName = 'block text-xs font-medium text-gray-600 mb-1';
+
+/** Moves the entry at `index` one place up or down, keeping the rest in order. */
+const moveEntry = <T,>(entries: T[], index: number, step: -1 | 1): T[] => {
+  const target = index + step;
+  if (target < 0 || target >= entries.length) return entries;
+  const moved = [...entries];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+interface EntryHeaderProps {
+  title: string;
+  index: number;
+  count: number;
+  onMove: (step: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+const EntryHeader: React.FC<EntryHeaderProps> = ({ title, index, count, onMove, onRemove }) => (
+  <div className="flex items-center justify-between mb-3">
+    <p className="text-sm font-medium text-gray-900 truncate">{title}</p>
+    <div className="flex items-center space-x-1 ml-4">
+      <button
+        type="button"
+        onClick={() => onMove(-1)}
+        disabled={index === 0}
+        aria-label={`Move ${title} up`}
+        className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+      >
+        <ArrowUp className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => onMove(1)}
+        disabled={index === count - 1}
+        aria-label={`Move ${title} down`}
+        className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+      >
+        <ArrowDown className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={`Remove ${title}`}
+        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  </div>
+);
+
+const AddEntryButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="w-full flex items-center justify-center p-3 border-2 border-dashed border-gray-300 rounded-lg text-sm font-medium text-gray-600 hover:border-blue-400 hover:text-blue-600 transition-colors"
+  >
+    <Plus className="w-4 h-4 mr-1" />
+    {label}
+  </button>
+);
+
+interface WorkHistoryEditorProps {
+  id: string;
+  value: WorkHistoryEntry[];
+  onChange: (entries: WorkHistoryEntry[]) => void;
+  hasError?: boolean;
+}
+
+/** Repeatable roles with their dates; at most one is current, and the total years worked are shown below. */
+export const WorkHistoryEditor: React.FC<WorkHistoryEditorProps> = ({ id, value, onChange, hasError = false }) => {
+  const thisMonth = monthOf(new Date());
+  const years = yearsOfExperience(value);
+
+  const update = (index: number, changes: Partial<WorkHistoryEntry>) =>
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  // Only one role can be current, so flagging one clears the flag on the others
+  const setCurrent = (index: number, isCurrent: boolean) =>
+    onChange(
+      value.map((entry, i) =>
+        i === index
+          ? { ...entry, isCurrent, endDate: isCurrent ? null : entry.endDate }
+          : isCurrent
+            ? { ...entry, isCurrent: false }
+            : entry
+      )
+    );
+
+  return (
+    <div className="space-y-3">
+      {value.map((entry, index) => {
+        const rowId = `${id}-${entry.id}`;
+        const title = entry.title.trim() && entry.employer.trim() ? `${entry.title} at ${entry.employer}` : `Role ${index + 1}`;
+        return (
+          <div key={entry.id} className="border rounded-lg p-4">
+            <EntryHeader
+              title={title}
+              index={index}
+              count={value.length}
+              onMove={step => onChange(moveEntry(value, index, step))}
+              onRemove={() => onChange(value.filter((_, i) => i !== index))}
+            />
+            <div className="grid md:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor={`${rowId}-employer`} className={labelClassName}>
+                  Employer
+                </label>
+                <input
+                  id={`${rowId}-employer`}
+                  type="text"
+                  value={entry.employer}
+                  onChange={e => update(index, { employer: e.target.value })}
+                  className={fieldClassName(hasError && !entry.employer.trim())}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${rowId}-title`} className={labelClassName}>
+                  Job Title
+                </label>
+                <input
+                  id={`${rowId}-title`}
+                  type="text"
+                  value={entry.title}
+                  onChange={e => update(index, { title: e.target.value })}
+                  className={fieldClassName(hasError && !entry.title.trim())}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${rowId}-start`} className={labelClassName}>
+                  Start Date
+                </label>
+                <input
+                  id={`${rowId}-start`}
+                  type="month"
+                  max={thisMonth}
+                  value={entry.startDate}
+                  onChange={e => update(index, { startDate: e.target.value })}
+                  placeholder="YYYY-MM"
+                  className={fieldClassName(hasError && !entry.startDate)}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${rowId}-end`} className={labelClassName}>
+                  End Date
+                </label>
+                <input
+                  id={`${rowId}-end`}
+                  type="month"
+                  min={entry.startDate || undefined}
+                  max={thisMonth}
+                  value={entry.endDate ?? ''}
+                  onChange={e => update(index, { endDate: e.target.value || null })}
+                  disabled={entry.isCurrent}
+                  placeholder={entry.isCurrent ? 'Present' : 'YYYY-MM'}
+                  className={fieldClassName(hasError && !entry.isCurrent && !entry.endDate)}
+                />
+              </div>
+              <label className="md:col-span-2 flex items-center">
+                <input
+                  type="checkbox"
+                  checked={entry.isCurrent}
+                  onChange={e => setCurrent(index, e.target.checked)}
+                  className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">This is my current role</span>
+              </label>
+              <div className="md:col-span-2">
+                <label htmlFor={`${rowId}-description`} className={labelClassName}>
+                  Description <span className="text-gray-400">(optional)</span>
+                </label>
+                <textarea
+                  id={`${rowId}-description`}
+                  rows={3}
+                  value={entry.description}
+                  onChange={e => update(index, { description: e.target.value })}
+                  placeholder="What you worked on and what you achieved"
+                  className={`${fieldClassName(false)} resize-none`}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <AddEntryButton label="Add a role" onClick={() => onChange([...value, newWorkHistoryEntry()])} />
+      <div className="text-xs text-gray-500">
+        Experience: {years} year{years === 1 ? '' : 's'}, from the dates above
+      </div>
+    </div>
+  );
+};
+
+interface EducationEditorProps {
+  id: string;
+  value: EducationEntry[];
+  onChange: (entries: EducationEntry[]) => void;
+  hasError?: boolean;
+}
+
+/** Repeatable qualifications, in the order the candidate arranges them. */
+export const EducationEditor: React.FC<EducationEditorProps> = ({ id, value, onChange, hasError = false }) => {
+  const update = (index: number, changes: Partial<EducationEntry>) =>
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  return (
+    <div className="space-y-3">
+      {value.map((entry, index) => {
+        const rowId = `${id}-${entry.id}`;
+        const title = entry.institution.trim() || `Qualification ${index + 1}`;
+        return (
+          <div key={entry.id} className="border rounded-lg p-4">
+            <EntryHeader
+              title={title}
+              index={index}
+              count={value.length}
+              onMove={step => onChange(moveEntry(value, index, step))}
+              onRemove={() => onChange(value.filter((_, i) => i !== index))}
+            />
+            <div className="grid md:grid-cols-2 gap-3">
+              <div className="md:col-span-2">
+                <label htmlFor={`${rowId}-institution`} className={labelClassName}>
+                  Institution
+                </label>
+                <input
+                  id={`${rowId}-institution`}
+                  type="text"
+                  value={entry.institution}
+                  onChange={e => update(index, { institution: e.target.value })}
+                  className={fieldClassName(hasError && !entry.institution.trim())}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${rowId}-degree`} className={labelClassName}>
+                  Degree
+                </label>
+                <input
+                  id={`${rowId}-degree`}
+                  type="text"
+                  value={entry.degree}
+                  onChange={e => update(index, { degree: e.target.value })}
+                  placeholder="e.g., BSc"
+                  className={fieldClassName(hasError && !entry.degree.trim())}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${rowId}-field`} className={labelClassName}>
+                  Field of Study <span className="text-gray-400">(optional)</span>
+                </label>
+                <input
+                  id={`${rowId}-field`}
+                  type="text"
+                  value={entry.fieldOfStudy}
+                  onChange={e => update(index, { fieldOfStudy: e.target.value })}
+                  placeholder="e.g., Computer Science"
+                  className={fieldClassName(false)}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${rowId}-year`} className={labelClassName}>
+                  Graduation Year
+                </label>
+                <input
+                  id={`${rowId}-year`}
+                  type="text"
+                  inputMode="numeric"
+                  value={entry.graduationYear === null ? '' : String(entry.graduationYear)}
+                  onChange={e => {
+                    const digits = e.target.value.replace(/\D/g, '').slice(0, 4);
+                    update(index, { graduationYear: digits ? parseInt(digits, 10) : null });
+                  }}
+                  placeholder="e.g., 2019"
+                  className={fieldClassName(hasError && entry.graduationYear === null)}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <AddEntryButton label="Add a qualification" onClick={() => onChange([...value, newEducationEntry()])} />
+    </div>
+  );
+};
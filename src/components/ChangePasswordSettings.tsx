@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Lock, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+import { validatePasswordConfirmation, validatePasswordStrength } from '../utils/validation';
+
+interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+type ChangePasswordErrors = Partial<Record<keyof ChangePasswordData | 'form', string>>;
+
+const emptyForm: ChangePasswordData = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+const fields: { name: keyof ChangePasswordData; label: string; autoComplete: string }[] = [
+  { name: 'currentPassword', label: 'Current Password', autoComplete: 'current-password' },
+  { name: 'newPassword', label: 'New Password', autoComplete: 'new-password' },
+  { name: 'confirmPassword', label: 'Confirm New Password', autoComplete: 'new-password' },
+];
+
+export const ChangePasswordSettings: React.FC = () => {
+  const { changePassword } = useAuth();
+  const [formData, setFormData] = useState<ChangePasswordData>(emptyForm);
+  const [errors, setErrors] = useState<ChangePasswordErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isChanged, setIsChanged] = useState(false);
+
+  const validateForm = (): boolean => {
+    const newErrors: ChangePasswordErrors = {};
+
+    if (!formData.currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
+    const passwordError = validatePasswordStrength(formData.newPassword);
+    if (passwordError) {
+      newErrors.newPassword = passwordError;
+    } else if (formData.newPassword === formData.currentPassword) {
+      newErrors.newPassword = 'New password must be different from your current password';
+    }
+
+    const confirmPasswordError = validatePasswordConfirmation(formData.newPassword, formData.confirmPassword);
+    if (confirmPasswordError) {
+      newErrors.confirmPassword = confirmPasswordError;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setIsChanged(false);
+
+    // Clear error when user starts typing
+    if (errors[name as keyof ChangePasswordData] || errors.form) {
+      setErrors(prev => ({ ...prev, [name]: undefined, form: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    try {
+      await changePassword(formData.currentPassword, formData.newPassword);
+      setFormData(emptyForm);
+      setIsChanged(true);
+    } catch (error) {
+      if (isApiError(error) && error.code === 'invalid_credentials') {
+        setErrors({ currentPassword: 'Current password is incorrect' });
+      } else {
+        setErrors({ form: isApiError(error) ? error.message : 'Unable to change your password. Please try again.' });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {fields.map(field => (
+        <div key={field.name}>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-2">
+            {field.label}
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="password"
+              id={field.name}
+              name={field.name}
+              value={formData[field.name]}
+              onChange={handleInputChange}
+              autoComplete={field.autoComplete}
+              className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+                errors[field.name] ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+          </div>
+          {errors[field.name] && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              {errors[field.name]}
+            </p>
+          )}
+        </div>
+      ))}
+
+      {errors.form && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {errors.form}
+        </p>
+      )}
+      {isChanged && (
+        <p className="text-sm text-green-600 flex items-center">
+          <CheckCircle className="w-4 h-4 mr-1" />
+          Your password has been changed.
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+      >
+        {isSubmitting ? 'Changing Password...' : 'Change Password'}
+      </button>
+    </form>
+  );
+};
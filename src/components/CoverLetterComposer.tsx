@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { AlertCircle, Save, Trash2, Wand2 } from 'lucide-react';
+import { useCoverLetterTemplates } from '../contexts/CoverLetterTemplatesContext';
+import { isApiError } from '../services/http';
+import { COVER_LETTER_PLACEHOLDERS } from '../types/coverLetter';
+import { fillPlaceholders, findPlaceholders, PlaceholderValues } from '../utils/coverLetter';
+import { countWords, richTextToPlainText } from '../utils/richText';
+import { RichTextEditor } from './RichTextEditor';
+
+interface CoverLetterComposerProps {
+  id: string;
+  /** Sanitized HTML; empty when there is no letter */
+  value: string;
+  onChange: (html: string) => void;
+  /** Most words allowed, when the job sets a limit */
+  wordLimit?: number;
+  /** What the placeholders stand for in this application; they are left as typed when absent */
+  placeholders?: PlaceholderValues;
+  hasError?: boolean;
+}
+
+/** A cover letter editor with the candidate's saved templates, placeholders and a word count. */
+export const CoverLetterComposer: React.FC<CoverLetterComposerProps> = ({
+  id,
+  value,
+  onChange,
+  wordLimit,
+  placeholders,
+  hasError = false,
+}) => {
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = useCoverLetterTemplates();
+  const [selectedId, setSelectedId] = useState('');
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const selected = templates.find(t => t.id === selectedId);
+  const words = countWords(richTextToPlainText(value));
+  const isOverLimit = wordLimit !== undefined && words > wordLimit;
+  // Only offer to fill in what this application has values for
+  const fillable = placeholders
+    ? findPlaceholders(value).filter(placeholder => fillPlaceholders(placeholder, placeholders) !== placeholder)
+    : [];
+  // Saving under an existing name replaces that template
+  const replacing =
+    templateName === null
+      ? undefined
+      : templates.find(t => t.name.toLowerCase() === templateName.trim().toLowerCase());
+
+  const fill = (html: string) => (placeholders ? fillPlaceholders(html, placeholders) : html);
+
+  const applyTemplate = () => {
+    if (!selected) return;
+    if (value && !window.confirm(`Replace your cover letter with "${selected.name}"?`)) return;
+    onChange(fill(selected.body));
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selected || !window.confirm(`Delete the template "${selected.name}"?`)) return;
+    try {
+      await deleteTemplate(selected.id);
+      setSelectedId('');
+    } catch (error) {
+      setTemplateError(isApiError(error) ? error.message : 'Unable to delete this template. Please try again.');
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (templateName === null) return;
+    setIsSavingTemplate(true);
+    setTemplateError(null);
+    try {
+      const input = { name: templateName, body: value };
+      const saved = replacing ? await updateTemplate(replacing.id, input) : await createTemplate(input);
+      setTemplateName(null);
+      setSavedMessage(`Saved as "${saved.name}"`);
+    } catch (error) {
+      setTemplateError(isApiError(error) ? error.message : 'Unable to save this template. Please try again.');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {templates.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor={`${id}-template`} className="sr-only">
+            Template
+          </label>
+          <select
+            id={`${id}-template`}
+            value={selectedId}
+            onChange={e => setSelectedId(e.target.value)}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Start from one of your templates...</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={applyTemplate}
+            disabled={!selected}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Use Template
+          </button>
+          <button
+            type="button"
+            onClick={handleDeleteTemplate}
+            disabled={!selected}
+            aria-label="Delete template"
+            className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <RichTextEditor
+        id={id}
+        value={value}
+        onChange={html => {
+          onChange(html);
+          setSavedMessage(null);
+        }}
+        placeholder="Dear hiring team, ..."
+        hasError={hasError || isOverLimit}
+      />
+
+      <div className="flex flex-wrap items-start justify-between gap-2 text-xs text-gray-500">
+        <p>
+          Placeholders:{' '}
+          {Object.entries(COVER_LETTER_PLACEHOLDERS).map(([key, description], index) => (
+            <span key={key} title={description}>
+              {index > 0 && ', '}
+              <code>{`{{${key}}}`}</code>
+            </span>
+          ))}
+        </p>
+        <p className={isOverLimit ? 'text-red-600 font-medium' : undefined} aria-live="polite">
+          {wordLimit === undefined ? `${words} word${words === 1 ? '' : 's'}` : `${words}/${wordLimit} words`}
+        </p>
+      </div>
+
+      {fillable.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange(fill(value))}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          <Wand2 className="w-4 h-4 mr-1" />
+          Fill in {fillable.join(', ')}
+        </button>
+      )}
+
+      {templateName === null ? (
+        <button
+          type="button"
+          onClick={() => {
+            setTemplateName('');
+            setTemplateError(null);
+            setSavedMessage(null);
+          }}
+          disabled={!value}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          Save as template
+        </button>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor={`${id}-template-name`} className="sr-only">
+            Template name
+          </label>
+          <input
+            id={`${id}-template-name`}
+            type="text"
+            value={templateName}
+            onChange={e => setTemplateName(e.target.value)}
+            onKeyDown={e => {
+              // Enter saves the template rather than moving the wizard on
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleSaveTemplate();
+              }
+            }}
+            placeholder="Template name"
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="button"
+            onClick={handleSaveTemplate}
+            disabled={isSavingTemplate || !templateName.trim()}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSavingTemplate ? 'Saving...' : replacing ? `Replace "${replacing.name}"` : 'Save Template'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setTemplateName(null)}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {templateError && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {templateError}
+        </p>
+      )}
+      {savedMessage && <p className="text-sm text-green-600">{savedMessage}</p>}
+    </div>
+  );
+};
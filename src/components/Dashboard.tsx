@@ -1,18 +1,31 @@
 import React from 'react';
-import { LogOut, User, FileText, Settings, ArrowRight } from 'lucide-react';
+import { LogOut, User, FileText, Settings, ArrowRight, Clock, Award, ClipboardList } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useApplications } from '../contexts/ApplicationsContext';
 import { useNavigate } from 'react-router-dom';
+import { EmailVerificationBanner } from './EmailVerificationBanner';
+import { MyApplications } from './MyApplications';
+import { MyDrafts } from './MyDrafts';
+import { useAuthorization } from '../hooks/useAuthorization';
+import { ACTIVE_APPLICATION_STATUSES } from '../types/application';
 
 export const Dashboard: React.FC = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
+  const { can } = useAuthorization();
+  const canApply = can('application:create');
+  const canEditProfile = can('profile:edit');
+  const canReview = can('application:review');
+  const { applications, isLoading: isLoadingApplications } = useApplications();
+  const activeCount = applications.filter(a => ACTIVE_APPLICATION_STATUSES.includes(a.status)).length;
+  const offerCount = applications.filter(a => a.status === 'offer').length;
 
   const handleLogout = () => {
     logout();
   };
 
   const handleNewApplication = () => {
-    navigate('/application');
+    navigate('/jobs');
   };
 
   return (
@@ -67,69 +80,89 @@ export const Dashboard: React.FC = () => {
           </p>
         </div>
 
+        <EmailVerificationBanner />
+
         {/* Call to Action Card */}
-        <div className="mb-8">
-          <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-xl shadow-lg p-8 text-white">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-2xl font-bold mb-2">Ready to Apply?</h3>
-                <p className="text-blue-100 mb-4">
-                  Complete your job application form with all required information including personal details, professional experience, and skills.
-                </p>
-                <button
-                  onClick={handleNewApplication}
-                  className="bg-white text-blue-600 px-6 py-3 rounded-lg font-semibold hover:bg-blue-50 transition-colors flex items-center space-x-2"
-                >
-                  <FileText className="w-5 h-5" />
-                  <span>Start Application</span>
-                  <ArrowRight className="w-4 h-4" />
-                </button>
-              </div>
-              <div className="hidden md:block">
-                <FileText className="w-24 h-24 text-blue-200" />
+        {canApply && (
+          <div className="mb-8">
+            <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-xl shadow-lg p-8 text-white">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-2xl font-bold mb-2">Ready to Apply?</h3>
+                  <p className="text-blue-100 mb-4">
+                    Browse open positions and apply with your personal details, professional experience, and skills.
+                  </p>
+                  <button
+                    onClick={handleNewApplication}
+                    className="bg-white text-blue-600 px-6 py-3 rounded-lg font-semibold hover:bg-blue-50 transition-colors flex items-center space-x-2"
+                  >
+                    <FileText className="w-5 h-5" />
+                    <span>Start Application</span>
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="hidden md:block">
+                  <FileText className="w-24 h-24 text-blue-200" />
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          <div className="bg-white rounded-lg shadow-sm p-6 border">
-            <div className="flex items-center">
-              <div className="p-2 bg-blue-100 rounded-lg">
-                <FileText className="w-6 h-6 text-blue-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Applications</p>
-                <p className="text-2xl font-bold text-gray-900">0</p>
+        {canApply && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="bg-white rounded-lg shadow-sm p-6 border">
+              <div className="flex items-center">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <FileText className="w-6 h-6 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Applications</p>
+                  <p className="text-2xl font-bold text-gray-900">{isLoadingApplications ? '–' : applications.length}</p>
+                </div>
               </div>
             </div>
-          </div>
 
-          <div className="bg-white rounded-lg shadow-sm p-6 border">
-            <div className="flex items-center">
-              <div className="p-2 bg-green-100 rounded-lg">
-                <User className="w-6 h-6 text-green-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Profile Status</p>
-                <p className="text-2xl font-bold text-gray-900">Active</p>
+            <div className="bg-white rounded-lg shadow-sm p-6 border">
+              <div className="flex items-center">
+                <div className="p-2 bg-yellow-100 rounded-lg">
+                  <Clock className="w-6 h-6 text-yellow-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">In Progress</p>
+                  <p className="text-2xl font-bold text-gray-900">{isLoadingApplications ? '–' : activeCount}</p>
+                </div>
               </div>
             </div>
-          </div>
 
-          <div className="bg-white rounded-lg shadow-sm p-6 border">
-            <div className="flex items-center">
-              <div className="p-2 bg-purple-100 rounded-lg">
-                <Settings className="w-6 h-6 text-purple-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Account Type</p>
-                <p className="text-2xl font-bold text-gray-900 capitalize">{user?.provider}</p>
+            <div className="bg-white rounded-lg shadow-sm p-6 border">
+              <div className="flex items-center">
+                <div className="p-2 bg-green-100 rounded-lg">
+                  <Award className="w-6 h-6 text-green-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Offers</p>
+                  <p className="text-2xl font-bold text-gray-900">{isLoadingApplications ? '–' : offerCount}</p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
+
+        {/* Unsubmitted Applications */}
+        {canApply && (
+          <div className="mb-8">
+            <MyDrafts />
+          </div>
+        )}
+
+        {/* Application History */}
+        {canApply && (
+          <div className="mb-8">
+            <MyApplications />
+          </div>
+        )}
 
         {/* User Information Card */}
         <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
@@ -150,6 +183,10 @@ export const Dashboard: React.FC = () => {
                 <dt className="text-sm font-medium text-gray-500">Authentication Provider</dt>
                 <dd className="mt-1 text-sm text-gray-900 capitalize">{user?.provider}</dd>
               </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Role</dt>
+                <dd className="mt-1 text-sm text-gray-900 capitalize">{user?.role}</dd>
+              </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">Account Created</dt>
                 <dd className="mt-1 text-sm text-gray-900">
@@ -164,22 +201,43 @@ export const Dashboard: React.FC = () => {
         <div className="mt-8">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Quick Actions</h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            <button 
-              onClick={handleNewApplication}
-              className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group"
-            >
-              <FileText className="w-8 h-8 text-blue-600 mb-2 group-hover:scale-110 transition-transform" />
-              <h4 className="font-medium text-gray-900">New Application</h4>
-              <p className="text-sm text-gray-500">Submit a new job application</p>
-            </button>
+            {canApply && (
+              <button
+                onClick={handleNewApplication}
+                className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group"
+              >
+                <FileText className="w-8 h-8 text-blue-600 mb-2 group-hover:scale-110 transition-transform" />
+                <h4 className="font-medium text-gray-900">New Application</h4>
+                <p className="text-sm text-gray-500">Pick a job and submit an application</p>
+              </button>
+            )}
             
-            <button className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group">
-              <User className="w-8 h-8 text-green-600 mb-2 group-hover:scale-110 transition-transform" />
-              <h4 className="font-medium text-gray-900">Update Profile</h4>
-              <p className="text-sm text-gray-500">Edit your personal information</p>
-            </button>
+            {canEditProfile && (
+              <button
+                onClick={() => navigate('/profile')}
+                className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group"
+              >
+                <User className="w-8 h-8 text-green-600 mb-2 group-hover:scale-110 transition-transform" />
+                <h4 className="font-medium text-gray-900">Update Profile</h4>
+                <p className="text-sm text-gray-500">Edit your personal information</p>
+              </button>
+            )}
             
-            <button className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group">
+            {canReview && (
+              <button
+                onClick={() => navigate('/review')}
+                className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group"
+              >
+                <ClipboardList className="w-8 h-8 text-indigo-600 mb-2 group-hover:scale-110 transition-transform" />
+                <h4 className="font-medium text-gray-900">Review Applications</h4>
+                <p className="text-sm text-gray-500">See candidates' answers and what they changed</p>
+              </button>
+            )}
+
+            <button
+              onClick={() => navigate('/settings')}
+              className="p-4 bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow text-left group"
+            >
               <Settings className="w-8 h-8 text-purple-600 mb-2 group-hover:scale-110 transition-transform" />
               <h4 className="font-medium text-gray-900">Account Settings</h4>
               <p className="text-sm text-gray-500">Manage your account preferences</p>
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+import { takeReauthentication } from '../services/oauth';
+import { OAUTH_PROVIDER_LABELS, ReauthCredentials } from '../types/auth';
+
+export const DeleteAccountSettings: React.FC = () => {
+  const { user, deleteAccount, reauthenticateWithOAuth } = useAuth();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [reauthentication, setReauthentication] = useState<ReauthCredentials | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const [isWorking, setIsWorking] = useState(false);
+  // The proof is single-use, so StrictMode's double effect must not consume it twice
+  const hasCheckedReauth = useRef(false);
+
+  useEffect(() => {
+    if (hasCheckedReauth.current) return;
+    hasCheckedReauth.current = true;
+
+    // Returning from the provider's re-authentication redirect resumes the confirmation step
+    const credentials = takeReauthentication();
+    if (credentials) {
+      setReauthentication(credentials);
+      setIsConfirming(true);
+    }
+  }, []);
+
+  if (!user) return null;
+
+  // Accounts created with an identity provider have no password, so they confirm with the provider instead
+  const oauthProvider = user.provider === 'email' ? null : user.provider;
+  const usesPassword = oauthProvider === null;
+  const providerLabel = oauthProvider ? OAUTH_PROVIDER_LABELS[oauthProvider] : '';
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(undefined);
+    try {
+      await action();
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Something went wrong. Please try again.');
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = (e: React.FormEvent) => {
+    e.preventDefault();
+    let credentials = reauthentication;
+    if (usesPassword) {
+      if (!password) {
+        setError('Enter your password to confirm');
+        return;
+      }
+      credentials = { password };
+    }
+    if (!credentials) return;
+
+    // On success the session ends and the app routes back to sign-in
+    run(() => deleteAccount(credentials));
+  };
+
+  const handleReauthenticate = () => {
+    if (oauthProvider) run(() => reauthenticateWithOAuth(oauthProvider));
+  };
+
+  const reset = () => {
+    setIsConfirming(false);
+    setPassword('');
+    setReauthentication(null);
+    setError(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          <Trash2 className="w-6 h-6 text-red-500 mt-0.5" />
+          <div>
+            <h4 className="font-medium text-gray-900">Delete Account</h4>
+            <p className="text-sm text-gray-500">
+              Permanently remove your account and sign out everywhere. This cannot be undone.
+            </p>
+          </div>
+        </div>
+        {!isConfirming && (
+          <button
+            onClick={() => setIsConfirming(true)}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap bg-red-50 text-red-700 hover:bg-red-100"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {isConfirming && (
+        <form onSubmit={handleDelete} className="border border-red-200 rounded-lg p-4 space-y-4">
+          {usesPassword ? (
+            <>
+              <p className="text-sm text-gray-700">Enter your password to confirm that you want to delete your account.</p>
+              <input
+                type="password"
+                value={password}
+                onChange={e => {
+                  setPassword(e.target.value);
+                  setError(undefined);
+                }}
+                autoComplete="current-password"
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+                  error ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="Your password"
+              />
+            </>
+          ) : reauthentication ? (
+            <p className="text-sm text-green-700 flex items-center">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Identity confirmed with {providerLabel}. You can now delete your account.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-700">
+                For your security, sign in with {providerLabel} again to confirm that you want to delete your account.
+              </p>
+              <button
+                type="button"
+                onClick={handleReauthenticate}
+                disabled={isWorking}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Confirm with {providerLabel}
+              </button>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={isWorking || (!usesPassword && !reauthentication)}
+              className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isWorking ? 'Deleting...' : 'Delete My Account'}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
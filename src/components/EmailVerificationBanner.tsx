@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+
+export const EmailVerificationBanner: React.FC = () => {
+  const { user, resendVerificationEmail } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (!user || user.emailVerified) return null;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    try {
+      await resendVerificationEmail();
+      setMessage(`We've sent a new verification link to ${user.email}.`);
+    } catch (error) {
+      setMessage(isApiError(error) ? error.message : 'Unable to resend the email. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start space-x-3">
+      <MailWarning className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="text-sm font-medium text-yellow-800">Please verify your email address</p>
+        <p className="text-sm text-yellow-700">
+          Check your inbox for a verification link. You need a verified email before you can submit applications.
+        </p>
+        {message && <p className="mt-1 text-sm text-yellow-700">{message}</p>}
+      </div>
+      <button
+        onClick={handleResend}
+        disabled={isSending}
+        className="text-sm font-medium text-yellow-800 hover:text-yellow-900 underline disabled:opacity-50 whitespace-nowrap"
+      >
+        {isSending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  );
+};
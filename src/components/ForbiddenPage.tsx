@@ -0,0 +1,24 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+
+export const ForbiddenPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+        <ShieldAlert className="w-16 h-16 text-red-500 mx-auto mb-4" />
+        <p className="text-sm font-semibold text-red-600 mb-1">Error 403</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600 mb-6">Your account doesn't have permission to view this page.</p>
+        <button
+          onClick={() => navigate('/dashboard', { replace: true })}
+          className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
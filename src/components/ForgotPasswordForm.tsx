@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Mail, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+import { EMAIL_PATTERN } from '../utils/validation';
+
+interface ForgotPasswordFormProps {
+  onBackToLogin: () => void;
+}
+
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBackToLogin }) => {
+  const { requestPasswordReset } = useAuth();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim()) {
+      setError('Email is required');
+      return;
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(email);
+      setIsSent(true);
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Unable to send reset link. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSent) {
+    return (
+      <div className="w-full max-w-md mx-auto text-center">
+        <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Check Your Email</h2>
+        <p className="text-gray-600 mb-6">
+          If an account exists for <span className="font-medium">{email}</span>, we've sent a link to reset your password.
+        </p>
+        <button
+          onClick={onBackToLogin}
+          className="font-medium text-blue-600 hover:text-blue-500 transition-colors"
+        >
+          Back to sign in
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Reset Password</h2>
+        <p className="text-gray-600">Enter your email and we'll send you a reset link</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label htmlFor="reset-email" className="block text-sm font-medium text-gray-700 mb-2">
+            Email Address
+          </label>
+          <div className="relative">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="email"
+              id="reset-email"
+              name="email"
+              value={email}
+              onChange={e => {
+                setEmail(e.target.value);
+                setError(undefined);
+              }}
+              className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+                error ? 'border-red-500' : 'border-gray-300'
+              }`}
+              placeholder="Enter your email"
+            />
+          </div>
+          {error && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              {error}
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {isSubmitting ? (
+            <span className="flex items-center justify-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              Sending Link...
+            </span>
+          ) : (
+            'Send Reset Link'
+          )}
+        </button>
+      </form>
+
+      <div className="mt-6 text-center">
+        <button
+          onClick={onBackToLogin}
+          className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
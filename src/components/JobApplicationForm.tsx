@@ -1,212 +1,341 @@
-import React, { useState } from 'react';
-import { CheckCircle, AlertCircle, User, Briefcase, Code, FileText, ArrowLeft } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle, AlertCircle, ArrowLeft, ChevronLeft, ChevronRight, Cloud, Download } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
-
-interface FormData {
-  fullName: string;
-  email: string;
-  phone: string;
-  experience: string;
-  employmentStatus: string;
-  currentCompany: string;
-  skills: string[];
-  declaration: boolean;
-}
-
-interface FormErrors {
-  fullName?: string;
-  email?: string;
-  phone?: string;
-  experience?: string;
-  currentCompany?: string;
-  skills?: string;
-  declaration?: string;
+import { useApplications } from '../contexts/ApplicationsContext';
+import { useDrafts } from '../contexts/DraftsContext';
+import { useJobs } from '../contexts/JobsContext';
+import { useProfile } from '../contexts/ProfileContext';
+import { useForm } from '../hooks/useForm';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { isApiError } from '../services/http';
+import { AMENDABLE_APPLICATION_STATUSES, JobApplication, ResumeFile } from '../types/application';
+import { FormValue, FormValues } from '../types/formSchema';
+import { Job } from '../types/job';
+import { answersToFormValues, applicationFormFor, declarationText, formValuesToAnswers } from '../utils/applicationForm';
+import { downloadApplicationReceipt } from '../utils/applicationReceipt';
+import { placeholderValuesFor } from '../utils/coverLetter';
+import { initialFormValues, schemaFields, validateFormValues } from '../utils/formSchema';
+import { differsFromProfile, formFieldsToProfile, profileToFormFields } from '../utils/profile';
+import { ApplicationSummary } from './ApplicationSummary';
+import { SchemaFormSection } from './SchemaForm';
+import { ProgressStep, StepProgress } from './StepProgress';
+import { ResumeUpload } from './ResumeUpload';
+
+/** The final step, after one step per form section */
+const REVIEW_STEP = 'review';
+
+/** How long typing has to pause before the draft is saved */
+const AUTOSAVE_DELAY_MS = 1000;
+
+/** `pending` means there are changes no save has picked up yet */
+type DraftSaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'failed';
+
+interface WizardLocationState {
+  /** The step "Next" came from, so "Back" can return through history instead of adding to it */
+  previousStep?: string;
+  /** Set by the review's edit links so finishing the step goes straight back to the review */
+  returnToReview?: boolean;
 }
 
 export const JobApplicationForm: React.FC = () => {
   const { user } = useAuth();
+  const { profile, isLoading: isProfileLoading, saveProfile } = useProfile();
+  const { getJob } = useJobs();
+  const {
+    applications,
+    isLoading: isApplicationsLoading,
+    submitApplication,
+    amendApplication,
+  } = useApplications();
+  const { drafts, isLoading: isDraftsLoading, saveDraft, deleteDraft } = useDrafts();
+  // New applications come from /jobs/:jobId/apply, amendments from /applications/:applicationId/edit
+  const { jobId: jobIdParam, applicationId } = useParams<{ jobId: string; applicationId: string }>();
   const navigate = useNavigate();
-  
-  const [formData, setFormData] = useState<FormData>({
-    fullName: '',
-    email: user?.email || '',
-    phone: '',
-    experience: '',
-    employmentStatus: '',
-    currentCompany: '',
-    skills: [],
-    declaration: false,
+  const location = useLocation();
+  const locationState = location.state as WizardLocationState | null;
+  // The current step lives in the URL so browser back/forward move between steps
+  const [searchParams, setSearchParams] = useSearchParams();
+  const stepParam = searchParams.get('step');
+
+  const isAmending = applicationId !== undefined;
+  const amending = isAmending ? (applications.find(a => a.id === applicationId) ?? null) : null;
+  const jobId = amending?.jobId ?? jobIdParam ?? '';
+
+  const [job, setJob] = useState<Job | null>(null);
+  const [jobError, setJobError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setJob(null);
+    setJobError(null);
+    if (!jobId) return;
+    getJob(jobId)
+      .then(loaded => {
+        if (isCurrent) setJob(loaded);
+      })
+      .catch(err => {
+        console.error('Job lookup failed:', err);
+        if (isCurrent) setJobError(isApiError(err) ? err.message : 'Unable to load this job. Please try again.');
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [getJob, jobId]);
+
+  // Each job may bring its own questions; the rest use the standard form
+  const schema = useMemo(() => (job ? applicationFormFor(job) : null), [job]);
+  const [resume, setResume] = useState<ResumeFile | null>(null);
+
+  const {
+    values,
+    errors,
+    isDirty,
+    isSubmitting,
+    setValue,
+    blurField,
+    validateFields,
+    reset,
+    handleSubmit: submitForm,
+  } = useForm<FormValues>({
+    initialValues: {},
+    validate: formValues => (schema ? validateFormValues(schemaFields(schema), formValues) : {}),
+    onSubmit: formValues => submitAnswers(formValues),
+    // Steps are checked as the candidate goes, but answers seeded for an amendment may not be
+    onInvalid: invalid => {
+      const invalidIndex = sections.findIndex(section => section.fields.some(field => invalid[field.name]));
+      if (invalidIndex !== -1) goToStep(invalidIndex, { returnToReview: true });
+    },
   });
-
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [isSubmitted, setIsSubmitted] = useState(false);
-
-  const skillOptions = ['React', 'Python', 'Java', 'SQL', 'AWS'];
-
-  const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
-
-  const validatePhone = (phone: string): boolean => {
-    const phoneRegex = /^\d{10}$/;
-    return phoneRegex.test(phone);
+  // What the service returned for the submission, for its receipt
+  const [submitted, setSubmitted] = useState<JobApplication | null>(null);
+  const [saveToProfile, setSaveToProfile] = useState(true);
+  const [profileSaveFailed, setProfileSaveFailed] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  // Seed the form once the job and the answers' source have loaded: the application being amended,
+  // else a saved draft, else the candidate's profile
+  const [isSeeded, setIsSeeded] = useState(false);
+  useEffect(() => {
+    if (isSeeded || !job) return;
+    let seed: FormValues;
+    if (isAmending) {
+      if (!amending) return;
+      seed = answersToFormValues(amending.answers);
+    } else {
+      if (isProfileLoading || isDraftsLoading) return;
+      const draft = drafts.find(d => d.jobId === job.id);
+      seed = draft ? draft.values : { ...profileToFormFields(profile), email: user?.email ?? '' };
+      setResume(draft?.resume ?? null);
+      setLastSavedAt(draft?.savedAt ?? null);
+    }
+    setIsSeeded(true);
+    reset(initialFormValues(applicationFormFor(job), seed));
+  }, [isSeeded, job, isAmending, amending, isProfileLoading, isDraftsLoading, drafts, profile, user?.email, reset]);
+
+  // One step per section, then the review
+  const sections = schema?.sections ?? [];
+  const steps: ProgressStep[] = [
+    ...sections.map(section => ({ id: section.id, title: section.title })),
+    { id: REVIEW_STEP, title: 'Review' },
+  ];
+  const reviewIndex = sections.length;
+  const sectionErrors = (index: number) => validateFormValues(sections[index].fields, values);
+  const hasSectionErrors = (index: number) => Object.keys(sectionErrors(index)).length > 0;
+
+  // A step can only be shown once every step before it is complete, whatever the URL asks for
+  const firstIncompleteIndex = sections.findIndex((_, index) => hasSectionErrors(index));
+  const requestedIndex = Math.max(steps.findIndex(step => step.id === stepParam), 0);
+  const currentIndex = Math.min(requestedIndex, firstIncompleteIndex === -1 ? reviewIndex : firstIncompleteIndex);
+  const currentStep = steps[currentIndex];
+  const isReviewStep = currentIndex === reviewIndex;
+
+  useEffect(() => {
+    if (!isSeeded || !schema || stepParam === currentStep.id) return;
+    setSearchParams({ step: currentStep.id }, { replace: true, state: location.state });
+  }, [isSeeded, schema, stepParam, currentStep.id, setSearchParams, location.state]);
+
+  const goToStep = (index: number, state: WizardLocationState = {}) => {
+    setSearchParams({ step: steps[index].id }, { state });
+    window.scrollTo({ top: 0 });
   };
 
-  const validateFullName = (name: string): boolean => {
-    // Only allow letters, spaces, hyphens, and apostrophes
-    const nameRegex = /^[a-zA-Z\s\-']+$/;
-    return nameRegex.test(name.trim()) && name.trim().length >= 2;
+  // Amendments are short and already on file, so only new applications keep drafts
+  const keepsDraft = !isAmending && !submitted;
+  // An amendment is unsaved whenever its answers differ from the ones on file
+  const hasUnsavedChanges = keepsDraft
+    ? saveStatus === 'pending' || saveStatus === 'saving' || saveStatus === 'failed'
+    : isAmending && !submitted && isDirty;
+
+  // The save in flight, so submitting can wait for it before deleting the draft
+  const draftSaveRef = useRef<Promise<unknown> | null>(null);
+
+  // Nothing is saved while submitting, so a late save can't bring back the draft the submission deletes
+  useEffect(() => {
+    if (!keepsDraft || isSubmitting || !job || saveStatus !== 'pending') return;
+    const timer = setTimeout(() => {
+      setSaveStatus('saving');
+      draftSaveRef.current = saveDraft({
+        jobId: job.id,
+        jobTitle: job.title,
+        company: job.company,
+        values,
+        step: currentStep.id,
+        resume,
+      })
+        .then(saved => {
+          setLastSavedAt(saved.savedAt);
+          // Edits made while saving leave the status pending for the next save
+          setSaveStatus(status => (status === 'saving' ? 'saved' : status));
+        })
+        .catch(error => {
+          console.error('Draft save failed:', error);
+          setSaveStatus(status => (status === 'saving' ? 'failed' : status));
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [keepsDraft, isSubmitting, job, saveStatus, saveDraft, values, currentStep.id, resume]);
+
+  // Closing the tab or reloading also warns while changes are unsaved
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  const handleBackToDashboard = () => {
+    const message = isAmending
+      ? 'You have changes that have not been saved. Leave without saving them?'
+      : 'Your latest changes have not been saved to your draft yet. Leave anyway?';
+    if (hasUnsavedChanges && !window.confirm(message)) return;
+    navigate('/dashboard');
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
-
-    // Personal Information Validation
-    if (!formData.fullName.trim()) {
-      newErrors.fullName = 'Full name is required';
-    } else if (!validateFullName(formData.fullName)) {
-      newErrors.fullName = 'Full name must contain only letters, spaces, hyphens, and apostrophes';
-    }
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!validateEmail(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-
-    if (!formData.phone.trim()) {
-      newErrors.phone = 'Phone number is required';
-    } else if (!validatePhone(formData.phone)) {
-      newErrors.phone = 'Phone number must be exactly 10 digits';
-    }
+  const answers = schema ? formValuesToAnswers(schema, values) : null;
+  const hasProfileChanges = !isProfileLoading && answers !== null && differsFromProfile(profile, answers);
 
-    // Professional Information Validation
-    if (!formData.experience.trim()) {
-      newErrors.experience = 'Experience is required';
-    } else if (parseInt(formData.experience) < 0 || isNaN(parseInt(formData.experience))) {
-      newErrors.experience = 'Experience must be 0 or greater';
-    }
-
-    if (!formData.employmentStatus) {
-      newErrors.experience = 'Please select your employment status';
-    }
+  const handleFieldChange = (name: string, value: FormValue) => {
+    setValue(name, value);
+    setSaveStatus('pending');
+  };
 
-    if (formData.employmentStatus === 'yes' && !formData.currentCompany.trim()) {
-      newErrors.currentCompany = 'Current company name is required';
-    }
+  const handleResumeChange = (file: ResumeFile | null) => {
+    setResume(file);
+    setSaveStatus('pending');
+  };
 
-    // Skills Validation
-    if (formData.skills.length === 0) {
-      newErrors.skills = 'Please select at least one skill';
-    }
+  const handleNext = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateFields(sections[currentIndex].fields.map(field => field.name))) return;
+    // Resuming the draft should pick up from the step reached
+    if (keepsDraft) setSaveStatus('pending');
 
-    // Declaration Validation
-    if (!formData.declaration) {
-      newErrors.declaration = 'You must confirm the information is true';
+    if (locationState?.returnToReview) {
+      goToStep(reviewIndex);
+    } else {
+      goToStep(currentIndex + 1, { previousStep: currentStep.id });
     }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type, checked } = e.target;
-    
-    if (type === 'checkbox' && name === 'skills') {
-      const skill = value;
-      setFormData(prev => ({
-        ...prev,
-        skills: prev.skills.includes(skill)
-          ? prev.skills.filter(s => s !== skill)
-          : [...prev.skills, skill]
-      }));
-    } else if (type === 'checkbox') {
-      setFormData(prev => ({
-        ...prev,
-        [name]: checked
-      }));
-    } else if (name === 'fullName') {
-      // Only allow letters, spaces, hyphens, and apostrophes for full name
-      const filteredValue = value.replace(/[^a-zA-Z\s\-']/g, '');
-      setFormData(prev => ({
-        ...prev,
-        [name]: filteredValue
-      }));
-    } else if (name === 'phone') {
-      // Only allow digits and limit to 10 characters
-      const filteredValue = value.replace(/\D/g, '').slice(0, 10);
-      setFormData(prev => ({
-        ...prev,
-        [name]: filteredValue
-      }));
-    } else if (name === 'experience') {
-      // Only allow non-negative numbers
-      const filteredValue = value.replace(/[^0-9]/g, '');
-      setFormData(prev => ({
-        ...prev,
-        [name]: filteredValue
-      }));
+  const handleBack = () => {
+    if (locationState?.previousStep === steps[currentIndex - 1]?.id) {
+      navigate(-1);
     } else {
-      setFormData(prev => ({
-        ...prev,
-        [name]: value
-      }));
+      setSearchParams({ step: steps[currentIndex - 1].id }, { replace: true });
     }
+  };
 
-    // Clear error when user starts typing
-    if (errors[name as keyof FormErrors]) {
-      setErrors(prev => ({
-        ...prev,
-        [name]: undefined
-      }));
-    }
+  const handleEditSection = (sectionId: string) => {
+    goToStep(steps.findIndex(step => step.id === sectionId), { returnToReview: true });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const isEmailVerified = user?.emailVerified === true;
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitting(true);
-
-    if (validateForm()) {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Log the form data as JSON object to console
-      console.log('Job Application Data:', JSON.stringify(formData, null, 2));
-      setIsSubmitted(true);
-    }
+    if (!isEmailVerified || !job || (!isAmending && job.status !== 'open')) return;
+    setSubmitError(null);
+    submitForm();
+  };
 
-    setIsSubmitting(false);
+  const submitAnswers = async (formValues: FormValues) => {
+    if (!job || !schema) return;
+    const submittedAnswers = formValuesToAnswers(schema, formValues);
+    let saved: JobApplication;
+    try {
+      const declaration = declarationText(schema, formValues);
+      // The server screens the answers for the hiring team; the candidate sees the same confirmation either way
+      if (amending) {
+        saved = await amendApplication(amending.id, submittedAnswers, declaration);
+      } else {
+        saved = await submitApplication({ jobId: job.id, answers: submittedAnswers, resume, declaration });
+        // A save that started before submitting must be stored first, or it would recreate the local copy;
+        // deleteDraft then waits for its upload before deleting the server's
+        Promise.resolve(draftSaveRef.current)
+          .catch(() => undefined)
+          .then(() => deleteDraft(job.id))
+          .catch(error => console.error('Draft cleanup failed:', error));
+      }
+    } catch (error) {
+      setSubmitError(isApiError(error) ? error.message : 'Unable to submit your application. Please try again.');
+      return;
+    }
+    setSaveStatus('idle');
+
+    // The application is already in, so a failed profile update is reported but not fatal
+    setProfileSaveFailed(false);
+    if (hasProfileChanges && saveToProfile) {
+      try {
+        await saveProfile(formFieldsToProfile(submittedAnswers, profile));
+      } catch (error) {
+        console.error('Profile update failed:', error);
+        setProfileSaveFailed(true);
+      }
+    }
+    setSubmitted(saved);
   };
 
-  if (isSubmitted) {
+  if (submitted) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
         <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
           <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Application Submitted!</h2>
-          <p className="text-gray-600 mb-6">Thank you for your application. We'll review your information and get back to you soon.</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {isAmending ? 'Application Updated!' : 'Application Submitted!'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {isAmending
+              ? 'Your changes have been saved. The hiring team will see the updated answers.'
+              : "Thank you for your application. We'll review your information and get back to you soon."}
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            Your reference number is <span className="font-mono font-medium text-gray-900">{submitted.referenceNumber}</span>.
+            You can edit it from My Applications on your dashboard until review starts, and withdraw it until an
+            offer is made.
+          </p>
+          {profileSaveFailed && (
+            <p className="mb-6 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              We couldn't update your profile with these details. You can edit it from your dashboard.
+            </p>
+          )}
           <div className="space-y-3">
             <button
-              onClick={() => {
-                setIsSubmitted(false);
-                setFormData({
-                  fullName: '',
-                  email: user?.email || '',
-                  phone: '',
-                  experience: '',
-                  employmentStatus: '',
-                  currentCompany: '',
-                  skills: [],
-                  declaration: false,
-                });
-                setErrors({});
-              }}
+              onClick={() => downloadApplicationReceipt(submitted)}
+              className="w-full flex items-center justify-center border border-blue-200 text-blue-600 px-6 py-3 rounded-lg hover:bg-blue-50 transition-colors font-medium"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Receipt (PDF)
+            </button>
+            <button
+              onClick={() => navigate('/jobs')}
               className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
             >
-              Submit Another Application
+              Browse More Jobs
             </button>
             <button
               onClick={() => navigate('/dashboard')}
@@ -220,13 +349,72 @@ export const JobApplicationForm: React.FC = () => {
     );
   }
 
+  const canAmend = amending !== null && AMENDABLE_APPLICATION_STATUSES.includes(amending.status);
+  if (isAmending && !isApplicationsLoading && !canAmend) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {amending ? 'Editing Closed' : 'Application Not Found'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {amending
+              ? 'This application is already being reviewed, so its answers can no longer be changed.'
+              : 'We could not find this application in your history.'}
+          </p>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Closed jobs stop new applications, but existing ones can still be corrected
+  if (jobError || (!isAmending && job && job.status !== 'open')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {jobError ? 'Job Unavailable' : 'Applications Closed'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {jobError ?? `${job?.title} at ${job?.company} is no longer accepting applications.`}
+          </p>
+          <button
+            onClick={() => navigate('/jobs')}
+            className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            Browse Jobs
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!job || !schema || !isSeeded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading job...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
       <div className="max-w-2xl mx-auto">
         {/* Header with Back Button */}
         <div className="mb-6">
           <button
-            onClick={() => navigate('/dashboard')}
+            onClick={handleBackToDashboard}
             className="flex items-center text-blue-600 hover:text-blue-700 transition-colors mb-4"
           >
             <ArrowLeft className="w-4 h-4 mr-2" />
@@ -236,267 +424,159 @@ export const JobApplicationForm: React.FC = () => {
 
         <div className="bg-white rounded-xl shadow-lg overflow-hidden">
           <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white">
-            <h1 className="text-3xl font-bold mb-2">Job Application Form</h1>
-            <p className="text-blue-100">Please fill out all required fields to submit your application</p>
+            <h1 className="text-3xl font-bold mb-2">{isAmending ? `Edit Application: ${job.title}` : job.title}</h1>
+            <p className="text-blue-100">
+              {job.company} · {job.location}.{' '}
+              {isAmending
+                ? 'Your previous answers are kept as an earlier revision'
+                : 'Please fill out all required fields to submit your application'}
+            </p>
             <div className="mt-3 text-sm text-blue-100">
               <p>Logged in as: <span className="font-medium">{user?.name}</span></p>
+              {keepsDraft && (
+                <p className="flex items-center" aria-live="polite">
+                  <Cloud className="w-4 h-4 mr-1" />
+                  {saveStatus === 'saving'
+                    ? 'Saving draft...'
+                    : saveStatus === 'failed'
+                      ? "Couldn't save your draft. We'll try again when you make another change."
+                      : saveStatus === 'pending'
+                        ? 'Unsaved changes'
+                        : lastSavedAt
+                          ? `Draft saved at ${new Date(lastSavedAt).toLocaleTimeString()}`
+                          : 'Your answers are saved as a draft as you go'}
+                </p>
+              )}
+              {profile && !isAmending && (
+                <p>
+                  Details filled in from your{' '}
+                  <button type="button" onClick={() => navigate('/profile')} className="underline hover:text-white">
+                    profile
+                  </button>
+                </p>
+              )}
             </div>
           </div>
 
-          <form onSubmit={handleSubmit} className="p-8 space-y-8">
-            {/* Personal Information Section */}
-            <div className="space-y-6">
-              <div className="flex items-center space-x-3 mb-4">
-                <User className="w-6 h-6 text-blue-600" />
-                <h2 className="text-xl font-semibold text-gray-900">Personal Information</h2>
-              </div>
-              
-              <div className="grid md:grid-cols-2 gap-6">
-                <div>
-                  <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
-                    Full Name * <span className="text-xs text-gray-500">(Letters only)</span>
-                  </label>
-                  <input
-                    type="text"
-                    id="fullName"
-                    name="fullName"
-                    value={formData.fullName}
-                    onChange={handleInputChange}
-                    className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                      errors.fullName ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                    placeholder="Enter your full name"
-                  />
-                  {errors.fullName && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.fullName}
-                    </p>
-                  )}
-                </div>
+          <StepProgress steps={steps} currentIndex={currentIndex} />
 
+          <form onSubmit={isReviewStep ? handleSubmit : handleNext} className="p-8 space-y-8">
+            {isReviewStep ? (
+              <div className="space-y-6">
                 <div>
-                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                    Email Address *
-                  </label>
-                  <input
-                    type="email"
-                    id="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                      errors.email ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                    placeholder="Enter your email address"
-                  />
-                  {errors.email && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.email}
-                    </p>
-                  )}
+                  <h2 className="text-xl font-semibold text-gray-900">Review Your Application</h2>
+                  <p className="text-sm text-gray-600">Check your answers before you submit. Use Edit to change a section.</p>
                 </div>
-              </div>
-
-              <div>
-                <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
-                  Phone Number * <span className="text-xs text-gray-500">(Exactly 10 digits)</span>
-                </label>
-                <input
-                  type="tel"
-                  id="phone"
-                  name="phone"
-                  value={formData.phone}
-                  onChange={handleInputChange}
-                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                    errors.phone ? 'border-red-500' : 'border-gray-300'
-                  }`}
-                  placeholder="1234567890"
-                  maxLength={10}
+                <ApplicationSummary
+                  schema={schema}
+                  values={values}
+                  resume={isAmending ? undefined : resume}
+                  onEdit={handleEditSection}
                 />
-                <div className="mt-1 text-xs text-gray-500">
-                  {formData.phone.length}/10 digits
-                </div>
-                {errors.phone && (
-                  <p className="mt-1 text-sm text-red-600 flex items-center">
-                    <AlertCircle className="w-4 h-4 mr-1" />
-                    {errors.phone}
-                  </p>
-                )}
-              </div>
-            </div>
-
-            {/* Professional Information Section */}
-            <div className="space-y-6 border-t pt-8">
-              <div className="flex items-center space-x-3 mb-4">
-                <Briefcase className="w-6 h-6 text-blue-600" />
-                <h2 className="text-xl font-semibold text-gray-900">Professional Information</h2>
               </div>
-
-              <div>
-                <label htmlFor="experience" className="block text-sm font-medium text-gray-700 mb-2">
-                  Experience in Years * <span className="text-xs text-gray-500">(Numbers only, 0 or greater)</span>
-                </label>
-                <input
-                  type="text"
-                  id="experience"
-                  name="experience"
-                  value={formData.experience}
-                  onChange={handleInputChange}
-                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                    errors.experience ? 'border-red-500' : 'border-gray-300'
-                  }`}
-                  placeholder="e.g., 3"
-                />
-                {errors.experience && (
-                  <p className="mt-1 text-sm text-red-600 flex items-center">
-                    <AlertCircle className="w-4 h-4 mr-1" />
-                    {errors.experience}
-                  </p>
+            ) : (
+              <>
+                {/* The resume is asked for up front so it can fill in the rest of the form */}
+                {currentIndex === 0 && !isAmending && (
+                  <ResumeUpload
+                    schema={schema}
+                    values={values}
+                    resume={resume}
+                    onResumeChange={handleResumeChange}
+                    onApply={handleFieldChange}
+                  />
                 )}
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-3">
-                  Are you currently employed? *
-                </label>
-                <div className="flex space-x-6">
-                  <label className="flex items-center">
-                    <input
-                      type="radio"
-                      name="employmentStatus"
-                      value="yes"
-                      checked={formData.employmentStatus === 'yes'}
-                      onChange={handleInputChange}
-                      className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">Yes</span>
-                  </label>
-                  <label className="flex items-center">
+                <SchemaFormSection
+                  section={sections[currentIndex]}
+                  values={values}
+                  errors={errors}
+                  onChange={handleFieldChange}
+                  onBlur={blurField}
+                  placeholders={placeholderValuesFor(job, user)}
+                  isFirst={currentIndex !== 0 || isAmending}
+                />
+              </>
+            )}
+
+            {/* Submit Button, or step navigation before the review */}
+            {isReviewStep ? (
+              <div className="pt-6 border-t">
+                {hasProfileChanges && (
+                  <label className="mb-4 flex items-start space-x-3 cursor-pointer">
                     <input
-                      type="radio"
-                      name="employmentStatus"
-                      value="no"
-                      checked={formData.employmentStatus === 'no'}
-                      onChange={handleInputChange}
-                      className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      type="checkbox"
+                      checked={saveToProfile}
+                      onChange={e => setSaveToProfile(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mt-0.5"
                     />
-                    <span className="ml-2 text-sm text-gray-700">No</span>
-                  </label>
-                </div>
-              </div>
-
-              {formData.employmentStatus === 'yes' && (
-                <div className="animate-fade-in">
-                  <label htmlFor="currentCompany" className="block text-sm font-medium text-gray-700 mb-2">
-                    Current Company Name *
+                    <span className="text-sm text-gray-700">
+                      {profile
+                        ? 'Update my profile with these details for future applications'
+                        : 'Save these details to my profile so future applications are filled in for me'}
+                    </span>
                   </label>
-                  <input
-                    type="text"
-                    id="currentCompany"
-                    name="currentCompany"
-                    value={formData.currentCompany}
-                    onChange={handleInputChange}
-                    className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
-                      errors.currentCompany ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                    placeholder="Enter your current company name"
-                  />
-                  {errors.currentCompany && (
-                    <p className="mt-1 text-sm text-red-600 flex items-center">
-                      <AlertCircle className="w-4 h-4 mr-1" />
-                      {errors.currentCompany}
-                    </p>
-                  )}
-                </div>
-              )}
-            </div>
-
-            {/* Skills Section */}
-            <div className="space-y-6 border-t pt-8">
-              <div className="flex items-center space-x-3 mb-4">
-                <Code className="w-6 h-6 text-blue-600" />
-                <h2 className="text-xl font-semibold text-gray-900">Skills</h2>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-3">
-                  Select your skills (choose at least one) *
-                </label>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                  {skillOptions.map(skill => (
-                    <label key={skill} className="flex items-center p-3 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
-                      <input
-                        type="checkbox"
-                        name="skills"
-                        value={skill}
-                        checked={formData.skills.includes(skill)}
-                        onChange={handleInputChange}
-                        className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
-                      <span className="ml-3 text-sm text-gray-700">{skill}</span>
-                    </label>
-                  ))}
-                </div>
-                <div className="mt-2 text-xs text-gray-500">
-                  Selected: {formData.skills.length} skill{formData.skills.length !== 1 ? 's' : ''}
-                </div>
-                {errors.skills && (
-                  <p className="mt-2 text-sm text-red-600 flex items-center">
+                )}
+                {submitError && (
+                  <p className="mb-4 text-sm text-red-600 flex items-center">
                     <AlertCircle className="w-4 h-4 mr-1" />
-                    {errors.skills}
+                    {submitError}
                   </p>
                 )}
-              </div>
-            </div>
-
-            {/* Declaration Section */}
-            <div className="space-y-6 border-t pt-8">
-              <div className="flex items-center space-x-3 mb-4">
-                <FileText className="w-6 h-6 text-blue-600" />
-                <h2 className="text-xl font-semibold text-gray-900">Declaration</h2>
-              </div>
-
-              <div>
-                <label className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
-                  <input
-                    type="checkbox"
-                    name="declaration"
-                    checked={formData.declaration}
-                    onChange={handleInputChange}
-                    className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mt-0.5"
-                  />
-                  <span className="text-sm text-gray-700">
-                    I confirm that the above information is true and accurate to the best of my knowledge.
-                  </span>
-                </label>
-                {errors.declaration && (
-                  <p className="mt-2 text-sm text-red-600 flex items-center">
-                    <AlertCircle className="w-4 h-4 mr-1" />
-                    {errors.declaration}
+                {!isEmailVerified && (
+                  <p className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                    Verify your email address before submitting. You can resend the verification link from your dashboard.
                   </p>
                 )}
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !isEmailVerified}
+                  className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-4 px-6 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-[1.02]"
+                >
+                  {isSubmitting ? (
+                    <span className="flex items-center justify-center">
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      {isAmending ? 'Saving Changes...' : 'Submitting Application...'}
+                    </span>
+                  ) : isAmending ? (
+                    'Save Changes'
+                  ) : (
+                    'Submit Application'
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleBack}
+                  disabled={isSubmitting}
+                  className="mt-3 w-full flex items-center justify-center px-6 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Back
+                </button>
               </div>
-            </div>
-
-            {/* Submit Button */}
-            <div className="pt-6 border-t">
-              <button
-                type="submit"
-                disabled={isSubmitting}
-                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-4 px-6 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-[1.02]"
-              >
-                {isSubmitting ? (
-                  <span className="flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                    Submitting Application...
-                  </span>
+            ) : (
+              <div className="pt-6 border-t flex items-center justify-between">
+                {currentIndex > 0 ? (
+                  <button
+                    type="button"
+                    onClick={handleBack}
+                    className="flex items-center px-6 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+                  >
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Back
+                  </button>
                 ) : (
-                  'Submit Application'
+                  <span />
                 )}
-              </button>
-            </div>
+                <button
+                  type="submit"
+                  className="flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                >
+                  {locationState?.returnToReview ? 'Return to Review' : 'Next'}
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </button>
+              </div>
+            )}
           </form>
         </div>
       </div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ArrowRight, Briefcase, Building2, DollarSign, MapPin } from 'lucide-react';
+import { EMPLOYMENT_TYPE_LABELS, Job, WORKPLACE_TYPE_LABELS } from '../types/job';
+import { formatExperienceRange, formatSalaryRange } from '../utils/jobs';
+
+interface JobCardProps {
+  job: Job;
+  /** Shown only for open jobs when provided */
+  onApply?: (job: Job) => void;
+}
+
+export const JobCard: React.FC<JobCardProps> = ({ job, onApply }) => (
+  <div className="bg-white rounded-lg shadow-sm border p-6">
+    <div className="flex items-start justify-between">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">{job.title}</h2>
+        <p className="text-sm text-gray-600 flex items-center mt-1">
+          <Building2 className="w-4 h-4 mr-1" />
+          {job.company}
+        </p>
+      </div>
+      {job.status === 'closed' && (
+        <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600">Closed</span>
+      )}
+    </div>
+
+    <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-600">
+      <span className="flex items-center">
+        <MapPin className="w-4 h-4 mr-1" />
+        {job.location} · {WORKPLACE_TYPE_LABELS[job.workplaceType]}
+      </span>
+      <span className="flex items-center">
+        <Briefcase className="w-4 h-4 mr-1" />
+        {EMPLOYMENT_TYPE_LABELS[job.employmentType]} · {formatExperienceRange(job.experienceRange)}
+      </span>
+      <span className="flex items-center">
+        <DollarSign className="w-4 h-4 mr-1" />
+        {formatSalaryRange(job.salaryRange)}
+      </span>
+    </div>
+
+    {job.description && <p className="mt-3 text-sm text-gray-700">{job.description}</p>}
+
+    <div className="mt-4 flex items-center justify-between">
+      <div className="flex flex-wrap gap-2">
+        {job.requiredSkills.map(skill => (
+          <span key={skill} className="px-2 py-1 text-xs font-medium rounded-full bg-blue-50 text-blue-700">
+            {skill}
+          </span>
+        ))}
+      </div>
+      {onApply && job.status === 'open' && (
+        <button
+          onClick={() => onApply(job)}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium whitespace-nowrap"
+        >
+          <span>Apply</span>
+          <ArrowRight className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  </div>
+);
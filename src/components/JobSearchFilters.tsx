@@ -0,0 +1,71 @@
+import React from 'react';
+import {
+  EXPERIENCE_LEVELS,
+  FacetCount,
+  JobSearchFacets,
+  JobSearchQuery,
+  SALARY_BANDS,
+  WORKPLACE_TYPE_LABELS,
+} from '../types/job';
+import { JobSearchFacetKey } from '../utils/jobSearch';
+
+interface JobSearchFiltersProps {
+  query: JobSearchQuery;
+  facets: JobSearchFacets | null;
+  onToggle: (facet: JobSearchFacetKey, value: string) => void;
+}
+
+const workplaceLabels: Record<string, string> = WORKPLACE_TYPE_LABELS;
+const experienceLabels: Record<string, string> = Object.fromEntries(EXPERIENCE_LEVELS.map(l => [l.id, l.label]));
+const salaryLabels: Record<string, string> = Object.fromEntries(SALARY_BANDS.map(b => [b.id, b.label]));
+
+const facetSections: { key: JobSearchFacetKey; title: string; label: (value: string) => string }[] = [
+  { key: 'locations', title: 'Location', label: value => value },
+  { key: 'workplaceTypes', title: 'Workplace', label: value => workplaceLabels[value] },
+  { key: 'experienceLevels', title: 'Experience', label: value => experienceLabels[value] },
+  { key: 'salaryBands', title: 'Salary', label: value => salaryLabels[value] },
+  { key: 'skills', title: 'Skills', label: value => value },
+];
+
+export const JobSearchFilters: React.FC<JobSearchFiltersProps> = ({ query, facets, onToggle }) => (
+  <div className="bg-white rounded-lg shadow-sm border p-6 space-y-6">
+    {facetSections.map(section => {
+      const counts: FacetCount[] = facets?.[section.key] ?? [];
+      const selected: string[] = query[section.key];
+      return (
+        <fieldset key={section.key}>
+          <legend className="text-sm font-semibold text-gray-900 mb-3">{section.title}</legend>
+          {counts.length === 0 ? (
+            <p className="text-sm text-gray-400">No options</p>
+          ) : (
+            <div className="space-y-2">
+              {counts.map(({ value, count }) => {
+                const isSelected = selected.includes(value);
+                return (
+                  <label
+                    key={value}
+                    className={`flex items-center justify-between text-sm ${
+                      count === 0 && !isSelected ? 'text-gray-400' : 'text-gray-700 cursor-pointer'
+                    }`}
+                  >
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        disabled={count === 0 && !isSelected}
+                        onChange={() => onToggle(section.key, value)}
+                        className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                      />
+                      {section.label(value)}
+                    </span>
+                    <span className="text-xs text-gray-500">{count}</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </fieldset>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, ArrowLeft, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useJobs } from '../contexts/JobsContext';
+import { useAuthorization } from '../hooks/useAuthorization';
+import { isApiError } from '../services/http';
+import { Job, JobSearchResult } from '../types/job';
+import {
+  EMPTY_JOB_SEARCH,
+  jobSearchQueryFromParams,
+  jobSearchQueryToParams,
+  JobSearchFacetKey,
+} from '../utils/jobSearch';
+import { JobCard } from './JobCard';
+import { JobSearchFilters } from './JobSearchFilters';
+
+interface JobsPageLocationState {
+  /** Set when this page was reached with "Next", so "Previous" can simply go back */
+  hasPreviousPage?: boolean;
+}
+
+export const JobsPage: React.FC = () => {
+  const { searchJobs } = useJobs();
+  const { can } = useAuthorization();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const canApply = can('application:create');
+
+  // The URL is the single source of truth for the search so it can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const paramsKey = searchParams.toString();
+  const query = useMemo(() => jobSearchQueryFromParams(new URLSearchParams(paramsKey)), [paramsKey]);
+  const hasPreviousPage = (location.state as JobsPageLocationState | null)?.hasPreviousPage === true;
+
+  const [searchText, setSearchText] = useState(query.text);
+  const [result, setResult] = useState<JobSearchResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back/forward can change the query underneath the input
+  useEffect(() => {
+    setSearchText(query.text);
+  }, [query.text]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+    searchJobs(query)
+      .then(found => {
+        if (isCurrent) setResult(found);
+      })
+      .catch(err => {
+        console.error('Job search failed:', err);
+        if (isCurrent) setError(isApiError(err) ? err.message : 'Unable to load jobs. Please try again.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [searchJobs, query]);
+
+  const hasFilters =
+    query.text !== '' ||
+    query.locations.length > 0 ||
+    query.workplaceTypes.length > 0 ||
+    query.experienceLevels.length > 0 ||
+    query.salaryBands.length > 0 ||
+    query.skills.length > 0;
+
+  // Any change to the search starts again from the first page
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(jobSearchQueryToParams({ ...query, text: searchText, cursor: null }));
+  };
+
+  const handleToggleFacet = (facet: JobSearchFacetKey, value: string) => {
+    const selected: string[] = query[facet];
+    const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+    setSearchParams(jobSearchQueryToParams({ ...query, [facet]: next, cursor: null }));
+  };
+
+  const handleClearFilters = () => {
+    setSearchParams(jobSearchQueryToParams(EMPTY_JOB_SEARCH));
+  };
+
+  const handleNextPage = () => {
+    if (!result?.nextCursor) return;
+    const state: JobsPageLocationState = { hasPreviousPage: true };
+    setSearchParams(jobSearchQueryToParams({ ...query, cursor: result.nextCursor }), { state });
+    window.scrollTo({ top: 0 });
+  };
+
+  // Cursors only lead forward, so earlier pages come from history or a fresh first page
+  const handlePreviousPage = () => {
+    if (hasPreviousPage) navigate(-1);
+    else setSearchParams(jobSearchQueryToParams({ ...query, cursor: null }));
+  };
+
+  const handleApply = (job: Job) => navigate(`/jobs/${job.id}/apply`);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center text-blue-600 hover:text-blue-700 transition-colors mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </button>
+        </div>
+
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-xl shadow-lg p-6 text-white mb-6">
+          <h1 className="text-3xl font-bold mb-2">Open Positions</h1>
+          <p className="text-blue-100 mb-4">Find a role that fits and apply in a few minutes</p>
+          <form onSubmit={handleSearch} className="flex space-x-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="search"
+                value={searchText}
+                onChange={e => setSearchText(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-300 focus:outline-none"
+                placeholder="Search by title, company or keyword"
+              />
+            </div>
+            <button
+              type="submit"
+              className="bg-white text-blue-600 px-6 py-3 rounded-lg font-semibold hover:bg-blue-50 transition-colors"
+            >
+              Search
+            </button>
+          </form>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <aside className="md:col-span-1">
+            <JobSearchFilters query={query} facets={result?.facets ?? null} onToggle={handleToggleFacet} />
+          </aside>
+
+          <section className="md:col-span-3 space-y-4">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {result ? `${result.total} job${result.total === 1 ? '' : 's'} found` : 'Searching...'}
+              </span>
+              {hasFilters && (
+                <button onClick={handleClearFilters} className="text-blue-600 hover:text-blue-700 font-medium">
+                  Clear all filters
+                </button>
+              )}
+            </div>
+
+            {error ? (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start">
+                <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            ) : isLoading && !result ? (
+              <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading jobs...</p>
+              </div>
+            ) : result && result.jobs.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+                No jobs match your search. Try removing a filter or using different keywords.
+              </div>
+            ) : (
+              <ul className={`space-y-4 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+                {result?.jobs.map(job => (
+                  <li key={job.id}>
+                    <JobCard job={job} onApply={canApply ? handleApply : undefined} />
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {(query.cursor || result?.nextCursor) && (
+              <div className="flex items-center justify-between pt-2">
+                <button
+                  onClick={handlePreviousPage}
+                  disabled={!query.cursor || isLoading}
+                  className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  {hasPreviousPage ? 'Previous' : 'First page'}
+                </button>
+                <button
+                  onClick={handleNextPage}
+                  disabled={!result?.nextCursor || isLoading}
+                  className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
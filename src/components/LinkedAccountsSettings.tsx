@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Link2, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+import { getOAuthProviderConfig } from '../services/oauth';
+import { OAUTH_PROVIDERS, OAUTH_PROVIDER_LABELS, OAuthProviderId } from '../types/auth';
+
+export const LinkedAccountsSettings: React.FC = () => {
+  const { user, linkOAuthProvider, unlinkOAuthProvider } = useAuth();
+  const [pendingProvider, setPendingProvider] = useState<OAuthProviderId | null>(null);
+  const [error, setError] = useState<string | undefined>();
+
+  const handleToggle = async (provider: OAuthProviderId, isLinked: boolean) => {
+    setPendingProvider(provider);
+    setError(undefined);
+    try {
+      // Linking leaves the page for the provider; unlinking updates the user in place
+      await (isLinked ? unlinkOAuthProvider(provider) : linkOAuthProvider(provider));
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {OAUTH_PROVIDERS.map(provider => {
+        const label = OAUTH_PROVIDER_LABELS[provider];
+        const isLinked = user?.linkedProviders.includes(provider) ?? false;
+        const isPrimary = user?.provider === provider;
+        const isConfigured = getOAuthProviderConfig(provider) !== null;
+
+        return (
+          <div key={provider} className="flex items-start justify-between">
+            <div className="flex items-start space-x-3">
+              <Link2 className={`w-6 h-6 mt-0.5 ${isLinked ? 'text-green-600' : 'text-gray-400'}`} />
+              <div>
+                <h4 className="font-medium text-gray-900">{label}</h4>
+                <p className="text-sm text-gray-500">
+                  {isPrimary
+                    ? `Your account was created with ${label} and it can't be unlinked.`
+                    : isLinked
+                      ? `You can sign in with your ${label} account.`
+                      : isConfigured
+                        ? `Link your ${label} account to sign in with it.`
+                        : `${label} sign-in is not available right now.`}
+                </p>
+              </div>
+            </div>
+            {!isPrimary && (isLinked || isConfigured) && (
+              <button
+                onClick={() => handleToggle(provider, isLinked)}
+                disabled={pendingProvider !== null}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 whitespace-nowrap ${
+                  isLinked ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                {pendingProvider === provider ? 'Please wait...' : isLinked ? 'Unlink' : 'Link'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,68 +1,55 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Mail, Lock, AlertCircle, Chrome } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useForm } from '../hooks/useForm';
 import { LoginCredentials } from '../types/auth';
+import { isApiError } from '../services/http';
+import { minLength, PASSWORD_MIN_LENGTH, required, validEmail } from '../utils/validation';
 
 interface LoginFormProps {
   onSwitchToSignup: () => void;
+  onForgotPassword: () => void;
 }
 
-export const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
-  const { login, loginWithGoogle, isLoading } = useAuth();
-  const [formData, setFormData] = useState<LoginCredentials>({
-    email: '',
-    password: '',
-  });
-  const [errors, setErrors] = useState<Partial<LoginCredentials>>({});
+export const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup, onForgotPassword }) => {
+  const { login, loginWithOAuth, isLoading } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
   const [isGoogleLoading, setIsGoogleLoading] = useState(false);
-
-  const validateForm = (): boolean => {
-    const newErrors: Partial<LoginCredentials> = {};
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-
-    if (!formData.password.trim()) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    
-    // Clear error when user starts typing
-    if (errors[name as keyof LoginCredentials]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!validateForm()) return;
-
-    try {
-      await login(formData);
-    } catch (error) {
-      setErrors({ email: 'Invalid email or password' });
-    }
-  };
+  const [googleError, setGoogleError] = useState<string | null>(null);
+
+  const { values, errors, isSubmitting, handleChange, handleBlur, handleSubmit, setFieldError } =
+    useForm<LoginCredentials>({
+      initialValues: { email: '', password: '' },
+      fields: {
+        email: { validators: [required('Email is required'), validEmail()] },
+        password: {
+          validators: [
+            required('Password is required'),
+            minLength(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+          ],
+        },
+      },
+      onSubmit: async credentials => {
+        try {
+          await login(credentials);
+        } catch (error) {
+          if (!isApiError(error)) {
+            setFieldError('email', 'Unable to sign in. Please try again.');
+          } else {
+            setFieldError('email', error.code === 'invalid_credentials' ? 'Invalid email or password' : error.message);
+          }
+        }
+      },
+    });
 
   const handleGoogleLogin = async () => {
     setIsGoogleLoading(true);
+    setGoogleError(null);
     try {
-      await loginWithGoogle();
+      await loginWithOAuth('google');
     } catch (error) {
       console.error('Google login failed:', error);
+      setGoogleError(isApiError(error) ? error.message : 'Google sign-in failed. Please try again.');
     } finally {
       setIsGoogleLoading(false);
     }
@@ -86,8 +73,9 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
               type="email"
               id="email"
               name="email"
-              value={formData.email}
-              onChange={handleInputChange}
+              value={values.email}
+              onChange={handleChange}
+              onBlur={handleBlur}
               className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
                 errors.email ? 'border-red-500' : 'border-gray-300'
               }`}
@@ -103,17 +91,27 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
         </div>
 
         <div>
-          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-            Password
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+              Password
+            </label>
+            <button
+              type="button"
+              onClick={onForgotPassword}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+            >
+              Forgot password?
+            </button>
+          </div>
           <div className="relative">
             <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
               type={showPassword ? 'text' : 'password'}
               id="password"
               name="password"
-              value={formData.password}
-              onChange={handleInputChange}
+              value={values.password}
+              onChange={handleChange}
+              onBlur={handleBlur}
               className={`w-full pl-10 pr-12 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
                 errors.password ? 'border-red-500' : 'border-gray-300'
               }`}
@@ -137,7 +135,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={isLoading || isSubmitting}
           className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
         >
           {isLoading ? (
@@ -173,6 +171,12 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
           )}
           Continue with Google
         </button>
+        {googleError && (
+          <p className="mt-2 text-sm text-red-600 flex items-center">
+            <AlertCircle className="w-4 h-4 mr-1" />
+            {googleError}
+          </p>
+        )}
       </div>
 
       <div className="mt-6 text-center">
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ShieldCheck, KeyRound, AlertCircle, ArrowLeft } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+
+export const MfaChallengeForm: React.FC = () => {
+  const { verifyMfa, cancelMfa } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Recovery code is required' : 'Authentication code is required');
+      return;
+    }
+    if (!useRecoveryCode && !/^\d{6}$/.test(code)) {
+      setError('Authentication code must be 6 digits');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await verifyMfa(code.trim());
+    } catch (err) {
+      setIsSubmitting(false);
+      if (isApiError(err) && err.code === 'invalid_token') {
+        // The challenge expired; send the user back to the password step
+        cancelMfa();
+        return;
+      }
+      setError(isApiError(err) ? err.message : 'Invalid authentication code');
+      setCode('');
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError(undefined);
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="text-center mb-8">
+        <ShieldCheck className="w-12 h-12 text-blue-600 mx-auto mb-3" />
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Two-Factor Authentication</h2>
+        <p className="text-gray-600">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+            {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+          </label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              id="mfa-code"
+              name="code"
+              value={code}
+              onChange={e => {
+                setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6));
+                setError(undefined);
+              }}
+              autoComplete="one-time-code"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoFocus
+              className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors tracking-widest ${
+                error ? 'border-red-500' : 'border-gray-300'
+              }`}
+              placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+            />
+          </div>
+          {error && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              {error}
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {isSubmitting ? (
+            <span className="flex items-center justify-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              Verifying...
+            </span>
+          ) : (
+            'Verify'
+          )}
+        </button>
+      </form>
+
+      <div className="mt-6 flex items-center justify-between text-sm">
+        <button
+          onClick={cancelMfa}
+          className="inline-flex items-center font-medium text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to sign in
+        </button>
+        <button onClick={toggleRecoveryCode} className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronUp, Download, Pencil, XCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useApplications } from '../contexts/ApplicationsContext';
+import { isApiError } from '../services/http';
+import { ACTIVE_APPLICATION_STATUSES, AMENDABLE_APPLICATION_STATUSES, JobApplication } from '../types/application';
+import { downloadApplicationReceipt } from '../utils/applicationReceipt';
+import { ApplicationStatusBadge } from './ApplicationStatusBadge';
+import { ApplicationTimeline } from './ApplicationTimeline';
+
+export const MyApplications: React.FC = () => {
+  const { applications, isLoading, loadError, withdrawApplication } = useApplications();
+  const navigate = useNavigate();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const [withdrawalReason, setWithdrawalReason] = useState('');
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
+
+  const handleToggle = (applicationId: string) => {
+    setExpandedId(expandedId === applicationId ? null : applicationId);
+    setWithdrawingId(null);
+  };
+
+  const handleStartWithdraw = (applicationId: string) => {
+    setWithdrawingId(applicationId);
+    setWithdrawalReason('');
+    setWithdrawError(null);
+  };
+
+  const handleWithdraw = async (application: JobApplication) => {
+    setIsWithdrawing(true);
+    setWithdrawError(null);
+    try {
+      await withdrawApplication(application.id, withdrawalReason.trim() || undefined);
+      setWithdrawingId(null);
+    } catch (error) {
+      setWithdrawError(isApiError(error) ? error.message : 'Unable to withdraw your application. Please try again.');
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">My Applications</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : loadError ? (
+        <p className="px-6 py-4 text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {loadError}
+        </p>
+      ) : applications.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-500 text-center">
+          You haven't applied for any jobs yet. Applications you submit will show up here.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {applications.map(application => {
+            const isExpanded = expandedId === application.id;
+            const canAmend = AMENDABLE_APPLICATION_STATUSES.includes(application.status);
+            const canWithdraw = ACTIVE_APPLICATION_STATUSES.includes(application.status);
+            const editCount = application.revisions.length - 1;
+            return (
+              <li key={application.id}>
+                <button
+                  onClick={() => handleToggle(application.id)}
+                  aria-expanded={isExpanded}
+                  className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{application.jobTitle}</p>
+                    <p className="text-sm text-gray-500">
+                      {application.company} · Submitted {new Date(application.submittedAt).toLocaleDateString()}
+                      {editCount > 0 && ` · Edited ${editCount} time${editCount === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <ApplicationStatusBadge status={application.status} />
+                    {isExpanded ? (
+                      <ChevronUp className="w-4 h-4 text-gray-400" />
+                    ) : (
+                      <ChevronDown className="w-4 h-4 text-gray-400" />
+                    )}
+                  </div>
+                </button>
+                {isExpanded && (
+                  <div className="px-6 pb-6 space-y-4">
+                    <p className="text-sm text-gray-600">
+                      <span className="font-medium">Reference:</span>{' '}
+                      <span className="font-mono">{application.referenceNumber}</span>
+                    </p>
+
+                    <ApplicationTimeline history={application.statusHistory} />
+
+                    {application.withdrawalReason && (
+                      <p className="text-sm text-gray-600">
+                        <span className="font-medium">Reason for withdrawing:</span> {application.withdrawalReason}
+                      </p>
+                    )}
+
+                    {withdrawingId === application.id ? (
+                      <div className="p-4 border border-red-200 bg-red-50 rounded-lg space-y-3">
+                        <label
+                          htmlFor={`withdraw-reason-${application.id}`}
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Why are you withdrawing? <span className="text-xs text-gray-500">(Optional)</span>
+                        </label>
+                        <textarea
+                          id={`withdraw-reason-${application.id}`}
+                          value={withdrawalReason}
+                          onChange={e => setWithdrawalReason(e.target.value)}
+                          rows={2}
+                          maxLength={500}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                          placeholder="e.g., I've accepted another offer"
+                        />
+                        {withdrawError && (
+                          <p className="text-sm text-red-600 flex items-center">
+                            <AlertCircle className="w-4 h-4 mr-1" />
+                            {withdrawError}
+                          </p>
+                        )}
+                        <div className="flex space-x-3">
+                          <button
+                            onClick={() => handleWithdraw(application)}
+                            disabled={isWithdrawing}
+                            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                          >
+                            {isWithdrawing ? 'Withdrawing...' : 'Withdraw Application'}
+                          </button>
+                          <button
+                            onClick={() => setWithdrawingId(null)}
+                            disabled={isWithdrawing}
+                            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                          >
+                            Keep Application
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          onClick={() => downloadApplicationReceipt(application)}
+                          className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Download Receipt
+                        </button>
+                        {canAmend && (
+                          <button
+                            onClick={() => navigate(`/applications/${application.id}/edit`)}
+                            className="flex items-center px-4 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Edit Answers
+                          </button>
+                        )}
+                        {canWithdraw && (
+                          <button
+                            onClick={() => handleStartWithdraw(application.id)}
+                            className="flex items-center px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                          >
+                            <XCircle className="w-4 h-4 mr-2" />
+                            Withdraw
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ArrowRight, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useDrafts } from '../contexts/DraftsContext';
+import { ApplicationDraft } from '../types/application';
+
+export const MyDrafts: React.FC = () => {
+  const { drafts, isLoading, deleteDraft } = useDrafts();
+  const navigate = useNavigate();
+
+  const handleResume = (draft: ApplicationDraft) => {
+    const query = draft.step ? `?step=${encodeURIComponent(draft.step)}` : '';
+    navigate(`/jobs/${draft.jobId}/apply${query}`);
+  };
+
+  const handleDiscard = (draft: ApplicationDraft) => {
+    if (!window.confirm(`Discard your draft application for ${draft.jobTitle}?`)) return;
+    deleteDraft(draft.jobId);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Drafts</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="px-6 py-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : drafts.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-500 text-center">
+          No drafts. Applications you start are saved here until you submit them.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {drafts.map(draft => (
+            <li key={draft.jobId} className="px-6 py-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{draft.jobTitle}</p>
+                <p className="text-sm text-gray-500">
+                  {draft.company} · Last saved {new Date(draft.savedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleDiscard(draft)}
+                  aria-label={`Discard draft for ${draft.jobTitle}`}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleResume(draft)}
+                  className="flex items-center px-4 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  Resume
+                  <ArrowRight className="w-4 h-4 ml-1" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+import { NotificationPreferences } from '../types/auth';
+
+const preferenceOptions: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  {
+    key: 'applicationUpdates',
+    label: 'Application updates',
+    description: 'Emails when the status of one of your applications changes.',
+  },
+  {
+    key: 'jobAlerts',
+    label: 'Job alerts',
+    description: 'New openings that match your profile.',
+  },
+  {
+    key: 'productNews',
+    label: 'Product news',
+    description: 'Occasional announcements about new portal features.',
+  },
+];
+
+export const NotificationSettings: React.FC = () => {
+  const { user, updateNotificationPreferences } = useAuth();
+  const [savingKey, setSavingKey] = useState<keyof NotificationPreferences | null>(null);
+  const [error, setError] = useState<string | undefined>();
+
+  if (!user) return null;
+
+  // Each toggle is saved immediately; the checkbox reflects the server's answer
+  const handleToggle = async (key: keyof NotificationPreferences) => {
+    setSavingKey(key);
+    setError(undefined);
+    try {
+      await updateNotificationPreferences({
+        ...user.notificationPreferences,
+        [key]: !user.notificationPreferences[key],
+      });
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Unable to save your preferences. Please try again.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {preferenceOptions.map(option => (
+        <label key={option.key} className="flex items-start space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={user.notificationPreferences[option.key]}
+            onChange={() => handleToggle(option.key)}
+            disabled={savingKey !== null}
+            className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50"
+          />
+          <div>
+            <span className="font-medium text-gray-900">{option.label}</span>
+            <p className="text-sm text-gray-500">{option.description}</p>
+          </div>
+        </label>
+      ))}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+
+export const OAuthCallback: React.FC = () => {
+  const { completeOAuthRedirect, isLoading, isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code is single-use, so StrictMode's double effect must not exchange it twice
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    // Linking and re-authentication need the restored session, so wait for it
+    if (isLoading || hasStarted.current) return;
+    hasStarted.current = true;
+
+    completeOAuthRedirect(searchParams)
+      .then(returnTo => navigate(returnTo, { replace: true }))
+      .catch(err => {
+        console.error('OAuth callback failed:', err);
+        setError(isApiError(err) ? err.message : 'We could not complete the request. Please try again.');
+      });
+  }, [completeOAuthRedirect, isLoading, searchParams, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+        {error ? (
+          <>
+            <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Something Went Wrong</h2>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <button
+              onClick={() => navigate(isAuthenticated ? '/dashboard' : '/auth', { replace: true })}
+              className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              {isAuthenticated ? 'Back to Dashboard' : 'Back to Sign In'}
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Completing request...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
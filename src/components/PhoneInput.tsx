@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import {
+  defaultPhoneCountry,
+  findPhoneCountry,
+  formatNationalNumber,
+  isLegacyPhoneNumber,
+  PHONE_COUNTRIES,
+  PhoneCountry,
+  splitPhoneNumber,
+  toE164,
+} from '../utils/phone';
+
+interface PhoneInputProps {
+  id: string;
+  name: string;
+  /** E.164, or empty */
+  value: string;
+  /** Called with the E.164 form of what was typed, or '' once the number is cleared */
+  onChange: (value: string) => void;
+  /** Applied to both the country picker and the number input */
+  className: string;
+  placeholder?: string;
+}
+
+const displayedNumber = (value: string) => {
+  const parts = splitPhoneNumber(value);
+  return parts ? formatNationalNumber(parts.country, parts.national) : value;
+};
+
+/** A country code picker beside the national number; the value it reports is always E.164. */
+export const PhoneInput: React.FC<PhoneInputProps> = ({ id, name, value, onChange, className, placeholder }) => {
+  const [country, setCountry] = useState<PhoneCountry>(() => splitPhoneNumber(value)?.country ?? defaultPhoneCountry());
+  const [national, setNational] = useState(() => displayedNumber(value));
+
+  // Numbers set from outside, e.g. a suggestion from the candidate's resume, replace what was typed
+  useEffect(() => {
+    if (value === toE164(country, national)) return;
+    const parts = splitPhoneNumber(value, country);
+    if (parts) {
+      setCountry(parts.country);
+      setNational(formatNationalNumber(parts.country, parts.national));
+    } else if (!value) {
+      setNational('');
+    }
+  }, [value, country, national]);
+
+  // A number saved without a country code is shown as stored until the candidate confirms its country
+  const needsCountry = isLegacyPhoneNumber(value);
+  const confirmCountry = () => onChange(toE164(country, national));
+
+  const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = findPhoneCountry(e.target.value) ?? country;
+    setCountry(next);
+    onChange(toE164(next, national));
+  };
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target.value;
+    // A pasted international number picks its own country
+    const parts = input.trim().startsWith('+') ? splitPhoneNumber(`+${input.replace(/\D/g, '')}`, country) : null;
+    if (parts) {
+      setCountry(parts.country);
+      setNational(parts.national);
+      onChange(toE164(parts.country, parts.national));
+      return;
+    }
+    const typed = input.replace(/[^\d\s().-]/g, '');
+    setNational(typed);
+    onChange(toE164(country, typed));
+  };
+
+  // Tidy the spacing once the candidate moves on
+  const handleBlur = () => {
+    const parts = splitPhoneNumber(toE164(country, national), country);
+    if (parts) setNational(formatNationalNumber(parts.country, parts.national));
+  };
+
+  return (
+    <div>
+      <div className="flex space-x-2">
+        <div className="w-36 flex-shrink-0">
+          <select
+            aria-label="Country code"
+            value={country.code}
+            onChange={handleCountryChange}
+            className={className}
+          >
+            {PHONE_COUNTRIES.map(option => (
+              <option key={option.code} value={option.code}>
+                {option.name} (+{option.dialCode})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <input
+            type="tel"
+            id={id}
+            name={name}
+            autoComplete="tel-national"
+            value={national}
+            onChange={handleNumberChange}
+            onBlur={handleBlur}
+            className={className}
+            placeholder={placeholder}
+          />
+        </div>
+      </div>
+      {needsCountry && (
+        <p className="mt-1 text-sm text-yellow-800">
+          This number was saved without a country code. Choose its country above, or{' '}
+          <button type="button" onClick={confirmCountry} className="font-medium underline hover:text-yellow-900">
+            confirm {country.name} (+{country.dialCode})
+          </button>
+          .
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, Briefcase, CheckCircle, Code, GraduationCap, User } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useProfile } from '../contexts/ProfileContext';
+import { isApiError } from '../services/http';
+import { EducationEntry, WorkHistoryEntry } from '../types/career';
+import { SkillEntry } from '../types/skill';
+import { validateEducation, validateWorkHistory } from '../utils/career';
+import { formFieldsToProfile, profileToFormFields, ProfileFormFields } from '../utils/profile';
+import { validateSkillEntries } from '../utils/skills';
+import { NAME_CHARACTERS, validateFullName, validatePhone } from '../utils/validation';
+import { EducationEditor, WorkHistoryEditor } from './CareerHistoryEditors';
+import { PhoneInput } from './PhoneInput';
+import { SkillPicker } from './SkillPicker';
+
+type ProfileErrors = Partial<Record<keyof ProfileFormFields | 'form', string>>;
+
+export const ProfilePage: React.FC = () => {
+  const { user } = useAuth();
+  const { profile, isLoading, loadError, saveProfile } = useProfile();
+  const navigate = useNavigate();
+
+  const [formData, setFormData] = useState<ProfileFormFields>(() => profileToFormFields(profile));
+  const [errors, setErrors] = useState<ProfileErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  // The profile may still be loading when the page opens
+  useEffect(() => {
+    setFormData(profileToFormFields(profile));
+  }, [profile]);
+
+  const validateForm = (): boolean => {
+    const newErrors: ProfileErrors = {};
+
+    const fullNameError = validateFullName(formData.fullName);
+    if (fullNameError) {
+      newErrors.fullName = fullNameError;
+    }
+
+    // Everything but the name is optional here; the application form insists on it instead
+    if (formData.phone) {
+      const phoneError = validatePhone(formData.phone);
+      if (phoneError) {
+        newErrors.phone = phoneError;
+      }
+    }
+
+    const workHistoryError = validateWorkHistory(formData.workHistory);
+    if (workHistoryError) {
+      newErrors.workHistory = workHistoryError;
+    }
+
+    const educationError = validateEducation(formData.education);
+    if (educationError) {
+      newErrors.education = educationError;
+    }
+
+    const skillsError = validateSkillEntries(formData.skills);
+    if (skillsError) {
+      newErrors.skills = skillsError;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setIsSaved(false);
+
+    if (name === 'fullName') {
+      setFormData(prev => ({ ...prev, fullName: value.replace(new RegExp(`[^${NAME_CHARACTERS}]`, 'gu'), '') }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+
+    // Clear error when user starts typing
+    if (errors[name as keyof ProfileFormFields] || errors.form) {
+      setErrors(prev => ({ ...prev, [name]: undefined, form: undefined }));
+    }
+  };
+
+  const handlePhoneChange = (phone: string) => {
+    setIsSaved(false);
+    setFormData(prev => ({ ...prev, phone }));
+    if (errors.phone || errors.form) {
+      setErrors(prev => ({ ...prev, phone: undefined, form: undefined }));
+    }
+  };
+
+  const handleSkillsChange = (skills: SkillEntry[]) => {
+    setIsSaved(false);
+    setFormData(prev => ({ ...prev, skills }));
+    if (errors.skills || errors.form) {
+      setErrors(prev => ({ ...prev, skills: undefined, form: undefined }));
+    }
+  };
+
+  const handleWorkHistoryChange = (workHistory: WorkHistoryEntry[]) => {
+    setIsSaved(false);
+    setFormData(prev => ({ ...prev, workHistory }));
+    if (errors.workHistory || errors.form) {
+      setErrors(prev => ({ ...prev, workHistory: undefined, form: undefined }));
+    }
+  };
+
+  const handleEducationChange = (education: EducationEntry[]) => {
+    setIsSaved(false);
+    setFormData(prev => ({ ...prev, education }));
+    if (errors.education || errors.form) {
+      setErrors(prev => ({ ...prev, education: undefined, form: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSaving(true);
+    try {
+      await saveProfile(formFieldsToProfile(formData, profile));
+      setIsSaved(true);
+    } catch (error) {
+      setErrors({ form: isApiError(error) ? error.message : 'Unable to save your profile. Please try again.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = (field: keyof ProfileFormFields) =>
+    `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+      errors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  const fieldError = (field: keyof ProfileFormFields) =>
+    errors[field] && (
+      <p className="mt-1 text-sm text-red-600 flex items-center">
+        <AlertCircle className="w-4 h-4 mr-1" />
+        {errors[field]}
+      </p>
+    );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center text-blue-600 hover:text-blue-700 transition-colors mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white">
+            <h1 className="text-3xl font-bold mb-2">Your Profile</h1>
+            <p className="text-blue-100">These details are filled in for you whenever you start an application</p>
+            <div className="mt-3 text-sm text-blue-100">
+              <p>
+                Signed in as: <span className="font-medium">{user?.email}</span>
+              </p>
+              {profile && <p>Last updated: {new Date(profile.updatedAt).toLocaleString()}</p>}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading your profile...</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="p-8 space-y-8">
+              {loadError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start">
+                  <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>{loadError}</span>
+                </div>
+              )}
+
+              {/* Personal Information Section */}
+              <div className="space-y-6">
+                <div className="flex items-center space-x-3 mb-4">
+                  <User className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Personal Information</h2>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div>
+                    <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
+                      Full Name * <span className="text-xs text-gray-500">(Letters only)</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="fullName"
+                      name="fullName"
+                      value={formData.fullName}
+                      onChange={handleInputChange}
+                      className={inputClassName('fullName')}
+                      placeholder="Enter your full name"
+                    />
+                    {fieldError('fullName')}
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                      Phone Number <span className="text-xs text-gray-500">(Choose your country code)</span>
+                    </label>
+                    <PhoneInput
+                      id="phone"
+                      name="phone"
+                      value={formData.phone}
+                      onChange={handlePhoneChange}
+                      className={inputClassName('phone')}
+                      placeholder="Enter your phone number"
+                    />
+                    {fieldError('phone')}
+                  </div>
+                </div>
+              </div>
+
+              {/* Professional Information Section */}
+              <div className="space-y-6 border-t pt-8">
+                <div className="flex items-center space-x-3 mb-4">
+                  <Briefcase className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Professional Information</h2>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    Work History{' '}
+                    <span className="text-xs text-gray-500">(Most recent first; your years of experience are worked out from it)</span>
+                  </label>
+                  <WorkHistoryEditor
+                    id="workHistory"
+                    value={formData.workHistory}
+                    onChange={handleWorkHistoryChange}
+                    hasError={!!errors.workHistory}
+                  />
+                  {fieldError('workHistory')}
+                  {formData.workHistory.length === 0 && profile?.workHistory.length === 0 && profile.yearsOfExperience !== null && (
+                    <p className="mt-1 text-sm text-yellow-800">
+                      Your profile still shows {profile.yearsOfExperience} years of experience
+                      {profile.currentCompany && ` at ${profile.currentCompany}`} from before work history was asked for.
+                      Add your roles to replace it.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Education Section */}
+              <div className="space-y-6 border-t pt-8">
+                <div className="flex items-center space-x-3 mb-4">
+                  <GraduationCap className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Education</h2>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    Education <span className="text-xs text-gray-500">(Degrees, diplomas and certifications)</span>
+                  </label>
+                  <EducationEditor
+                    id="education"
+                    value={formData.education}
+                    onChange={handleEducationChange}
+                    hasError={!!errors.education}
+                  />
+                  {fieldError('education')}
+                </div>
+              </div>
+
+              {/* Skills Section */}
+              <div className="space-y-6 border-t pt-8">
+                <div className="flex items-center space-x-3 mb-4">
+                  <Code className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Skills</h2>
+                </div>
+
+                <div>
+                  <label htmlFor="skills" className="block text-sm font-medium text-gray-700 mb-2">
+                    Your skills <span className="text-xs text-gray-500">(Rate each one and say how long you have used it)</span>
+                  </label>
+                  <SkillPicker id="skills" value={formData.skills} onChange={handleSkillsChange} hasError={!!errors.skills} />
+                  {fieldError('skills')}
+                </div>
+              </div>
+
+              {/* Save Button */}
+              <div className="pt-6 border-t space-y-4">
+                {errors.form && (
+                  <p className="text-sm text-red-600 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-1" />
+                    {errors.form}
+                  </p>
+                )}
+                {isSaved && (
+                  <p className="text-sm text-green-600 flex items-center">
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Your profile has been saved.
+                  </p>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-4 px-6 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  {isSaving ? (
+                    <span className="flex items-center justify-center">
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      Saving Profile...
+                    </span>
+                  ) : (
+                    'Save Profile'
+                  )}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, Check, FileText, Sparkles, Upload, X } from 'lucide-react';
+import { useApplications } from '../contexts/ApplicationsContext';
+import { isApiError } from '../services/http';
+import { RESUME_MAX_BYTES, RESUME_MIME_TYPES, ResumeFile } from '../types/application';
+import { FormField, FormSchema, FormValue, FormValues } from '../types/formSchema';
+import { formatFormValue, schemaFields, skillEntriesOf } from '../utils/formSchema';
+import { extractResumeText, parseResumeText, validateResumeFile } from '../utils/resumeParser';
+import { isSameSkill } from '../utils/skills';
+
+interface ResumeUploadProps {
+  schema: FormSchema;
+  values: FormValues;
+  resume: ResumeFile | null;
+  onResumeChange: (resume: ResumeFile | null) => void;
+  /** Called when the candidate accepts a suggested answer */
+  onApply: (name: string, value: FormValue) => void;
+}
+
+interface Suggestion {
+  field: FormField;
+  value: FormValue;
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const sameValue = (a: FormValue, b: FormValue) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Uploads the candidate's resume for the application to refer to, and offers what it could read from it
+ * as suggestions they accept or dismiss one field at a time.
+ */
+export const ResumeUpload: React.FC<ResumeUploadProps> = ({ schema, values, resume, onResumeChange, onApply }) => {
+  const { uploadResume } = useApplications();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [parseFailed, setParseFailed] = useState(false);
+
+  // Only suggest answers this job's form actually asks for
+  const buildSuggestions = (text: string): Suggestion[] => {
+    const fields = new Map(schemaFields(schema).map(field => [field.name, field]));
+    const found = parseResumeText(text);
+
+    const candidates: [string, FormValue | undefined][] = [
+      ['fullName', found.fullName],
+      ['email', found.email],
+      ['phone', found.phone],
+      ['experience', found.experience],
+    ];
+    const currentSkills = skillEntriesOf(values.skills ?? null);
+    const newSkills = found.skills.filter(skill => !currentSkills.some(current => isSameSkill(current, skill)));
+    if (newSkills.length > 0 && fields.get('skills')?.type === 'skills') {
+      // Add to what the candidate already has rather than replacing it; they rate the new ones after
+      candidates.push(['skills', [...currentSkills, ...newSkills]]);
+    }
+
+    return candidates.flatMap(([name, value]) => {
+      const field = fields.get(name);
+      return field && value !== undefined && !sameValue(values[name] ?? null, value) ? [{ field, value }] : [];
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after removing it
+    e.target.value = '';
+    if (!file) return;
+
+    const validationError = validateResumeFile(file);
+    setError(validationError ?? null);
+    if (validationError) return;
+
+    setIsReading(true);
+    setSuggestions([]);
+    setParseFailed(false);
+    try {
+      onResumeChange(await uploadResume(file));
+    } catch (uploadError) {
+      console.error('Resume upload failed:', uploadError);
+      setError(isApiError(uploadError) ? uploadError.message : 'Unable to upload this file. Please try again.');
+      setIsReading(false);
+      return;
+    }
+
+    // The file is still attached when its text can't be read, e.g. a scanned PDF
+    try {
+      const text = await extractResumeText(file);
+      const found = buildSuggestions(text);
+      setSuggestions(found);
+      setParseFailed(text.trim() === '');
+    } catch (parseError) {
+      console.error('Resume parsing failed:', parseError);
+      setParseFailed(true);
+    }
+    setIsReading(false);
+  };
+
+  const handleRemove = () => {
+    onResumeChange(null);
+    setSuggestions([]);
+    setParseFailed(false);
+    setError(null);
+  };
+
+  const dismiss = (name: string) => setSuggestions(prev => prev.filter(s => s.field.name !== name));
+
+  const accept = (suggestion: Suggestion) => {
+    onApply(suggestion.field.name, suggestion.value);
+    dismiss(suggestion.field.name);
+  };
+
+  const acceptAll = () => {
+    suggestions.forEach(suggestion => onApply(suggestion.field.name, suggestion.value));
+    setSuggestions([]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-1 flex items-center">
+          <FileText className="w-5 h-5 mr-2 text-blue-600" />
+          Resume
+        </h2>
+        <p className="text-sm text-gray-600">
+          Optional. PDF or Word (.docx), up to {RESUME_MAX_BYTES / (1024 * 1024)} MB. We'll suggest answers from it
+          that you can accept or dismiss.
+        </p>
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${Object.values(RESUME_MIME_TYPES).join(',')},.pdf,.docx`}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      {resume ? (
+        <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+          <div className="flex items-center min-w-0">
+            <FileText className="w-8 h-8 text-blue-600 mr-3 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{resume.fileName}</p>
+              <p className="text-xs text-gray-500">{formatFileSize(resume.size)}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3 ml-4">
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              disabled={isReading}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+            >
+              Replace
+            </button>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={isReading}
+              aria-label="Remove resume"
+              className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isReading}
+          className="w-full flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+        >
+          <Upload className="w-6 h-6 mb-2" />
+          <span className="text-sm font-medium">Upload your resume</span>
+        </button>
+      )}
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      {isReading && (
+        <p className="text-sm text-gray-600 flex items-center">
+          <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></span>
+          Reading your resume...
+        </p>
+      )}
+
+      {parseFailed && !isReading && (
+        <p className="text-sm text-gray-600">
+          We attached your resume but couldn't read any details from it. Please fill in the form yourself.
+        </p>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="border border-blue-200 bg-blue-50 rounded-lg overflow-hidden">
+          <div className="px-4 py-3 flex items-center justify-between border-b border-blue-200">
+            <p className="text-sm font-medium text-blue-900 flex items-center">
+              <Sparkles className="w-4 h-4 mr-2" />
+              Suggested from your resume
+            </p>
+            <button type="button" onClick={acceptAll} className="text-sm text-blue-700 hover:text-blue-800 font-medium">
+              Use all
+            </button>
+          </div>
+          <ul className="divide-y divide-blue-100">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.field.name} className="px-4 py-3 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-blue-700">{suggestion.field.label}</p>
+                  <p className="text-sm text-gray-900 truncate">{formatFormValue(suggestion.field, suggestion.value)}</p>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button
+                    type="button"
+                    onClick={() => accept(suggestion)}
+                    className="flex items-center px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Use
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => dismiss(suggestion.field.name)}
+                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
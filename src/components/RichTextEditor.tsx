@@ -0,0 +1,128 @@
+import React, { useEffect, useRef } from 'react';
+import { Bold, Heading2, Heading3, Italic, Link, List, ListOrdered, LucideIcon, Pilcrow } from 'lucide-react';
+import { isRichTextEmpty, sanitizeRichText } from '../utils/richText';
+
+// The markup sanitizeRichText keeps, styled the same wherever it is shown
+const RICH_TEXT_CLASSES =
+  'text-sm text-gray-900 space-y-2 [&_h2]:text-lg [&_h2]:font-semibold [&_h3]:font-semibold [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_a]:text-blue-600 [&_a]:underline';
+
+interface ToolbarAction {
+  label: string;
+  icon: LucideIcon;
+  run: () => void;
+}
+
+interface RichTextEditorProps {
+  id: string;
+  /** Sanitized HTML; empty when there is no text */
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  hasError?: boolean;
+}
+
+/** A small rich-text editor for headings, lists, bold, italics and links; it only ever emits sanitized HTML. */
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, placeholder, hasError = false }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // What the editor last reported, so its own changes don't reset the content and move the caret
+  const emittedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || value === emittedRef.current) return;
+    editor.innerHTML = sanitizeRichText(value);
+    emittedRef.current = value;
+  }, [value]);
+
+  const emit = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = sanitizeRichText(editor.innerHTML);
+    const next = isRichTextEmpty(html) ? '' : html;
+    emittedRef.current = next;
+    onChange(next);
+  };
+
+  // execCommand is deprecated but still the only way to edit a contenteditable with undo support
+  const format = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emit();
+  };
+
+  const addLink = () => {
+    const href = window.prompt('Link address, starting with https://')?.trim();
+    if (!href) return;
+    if (!/^(https?:\/\/|mailto:)/i.test(href)) {
+      window.alert('Links must start with http://, https:// or mailto:');
+      return;
+    }
+    format('createLink', href);
+  };
+
+  const actions: ToolbarAction[] = [
+    { label: 'Heading', icon: Heading2, run: () => format('formatBlock', '<h2>') },
+    { label: 'Subheading', icon: Heading3, run: () => format('formatBlock', '<h3>') },
+    { label: 'Paragraph', icon: Pilcrow, run: () => format('formatBlock', '<p>') },
+    { label: 'Bold', icon: Bold, run: () => format('bold') },
+    { label: 'Italic', icon: Italic, run: () => format('italic') },
+    { label: 'Bulleted list', icon: List, run: () => format('insertUnorderedList') },
+    { label: 'Numbered list', icon: ListOrdered, run: () => format('insertOrderedList') },
+    { label: 'Link', icon: Link, run: addLink },
+  ];
+
+  // Pasted content goes through the sanitizer first, so nothing unsafe reaches the page even briefly
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    const text = e.clipboardData.getData('text/plain');
+    if (html) {
+      document.execCommand('insertHTML', false, sanitizeRichText(html));
+    } else {
+      document.execCommand('insertText', false, text);
+    }
+    emit();
+  };
+
+  return (
+    <div
+      className={`border rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-colors ${
+        hasError ? 'border-red-500' : 'border-gray-300'
+      }`}
+    >
+      <div role="toolbar" aria-controls={id} className="flex flex-wrap gap-1 p-2 border-b border-gray-200">
+        {actions.map(({ label, icon: Icon, run }) => (
+          <button
+            key={label}
+            type="button"
+            title={label}
+            aria-label={label}
+            // Keep the selection in the editor so the command applies to it
+            onMouseDown={e => e.preventDefault()}
+            onClick={run}
+            className="p-2 text-gray-600 rounded hover:bg-gray-100 hover:text-gray-900 transition-colors"
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      <div
+        ref={editorRef}
+        id={id}
+        role="textbox"
+        aria-multiline="true"
+        contentEditable
+        suppressContentEditableWarning
+        onInput={emit}
+        onPaste={handlePaste}
+        data-placeholder={placeholder}
+        className={`${RICH_TEXT_CLASSES} min-h-[12rem] px-4 py-3 focus:outline-none empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400`}
+      />
+    </div>
+  );
+};
+
+/** Shows rich text from any source; it is sanitized again here, so stored HTML is never trusted. */
+export const RichTextView: React.FC<{ html: string; className?: string }> = ({ html, className = '' }) => (
+  <div className={`${RICH_TEXT_CLASSES} ${className}`} dangerouslySetInnerHTML={{ __html: sanitizeRichText(html) }} />
+);
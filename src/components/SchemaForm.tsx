@@ -0,0 +1,392 @@
+import React from 'react';
+import { AlertCircle, Briefcase, Code, FileText, GraduationCap, HelpCircle, LucideIcon, Mail, User } from 'lucide-react';
+import { FormErrors, FormField, FormSchema, FormSection, FormSectionIcon, FormValue, FormValues } from '../types/formSchema';
+import {
+  educationOf,
+  emptyFormValue,
+  isFieldVisible,
+  isFileAnswer,
+  sanitizeFieldInput,
+  skillEntriesOf,
+  stringListOf,
+  workHistoryOf,
+} from '../utils/formSchema';
+import { PlaceholderValues } from '../utils/coverLetter';
+import { EducationEditor, WorkHistoryEditor } from './CareerHistoryEditors';
+import { CoverLetterComposer } from './CoverLetterComposer';
+import { PhoneInput } from './PhoneInput';
+import { SkillPicker } from './SkillPicker';
+
+const SECTION_ICONS: Record<FormSectionIcon, LucideIcon> = {
+  user: User,
+  briefcase: Briefcase,
+  education: GraduationCap,
+  code: Code,
+  letter: Mail,
+  file: FileText,
+  question: HelpCircle,
+};
+
+const inputClassName = (hasError: boolean) =>
+  `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`;
+
+const TEXT_INPUT_TYPES: Partial<Record<FormField['type'], string>> = {
+  text: 'text',
+  number: 'text',
+  email: 'email',
+};
+
+interface SchemaFieldProps {
+  field: FormField;
+  value: FormValue;
+  error?: string;
+  onChange: (name: string, value: FormValue) => void;
+  placeholders?: PlaceholderValues;
+}
+
+const SchemaField: React.FC<SchemaFieldProps> = ({ field, value, error, onChange, placeholders }) => {
+  const isRequired = field.rules?.some(rule => rule.type === 'required') ?? false;
+  const text = typeof value === 'string' ? value : '';
+  const selected = stringListOf(value);
+
+  const label = (
+    <>
+      {field.label}
+      {isRequired && ' *'} {field.hint && <span className="text-xs text-gray-500">({field.hint})</span>}
+    </>
+  );
+
+  const errorMessage = error && (
+    <p className="mt-1 text-sm text-red-600 flex items-center">
+      <AlertCircle className="w-4 h-4 mr-1" />
+      {error}
+    </p>
+  );
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+    onChange(field.name, sanitizeFieldInput(field, e.target.value));
+
+  switch (field.type) {
+    case 'checkbox':
+      return (
+        <div>
+          <label className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
+            <input
+              type="checkbox"
+              name={field.name}
+              checked={value === true}
+              onChange={e => onChange(field.name, e.target.checked)}
+              className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mt-0.5"
+            />
+            <span className="text-sm text-gray-700">{field.label}</span>
+          </label>
+          {errorMessage}
+        </div>
+      );
+
+    case 'radio':
+      return (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">{label}</label>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {field.options?.map(option => (
+              <label key={option.value} className="flex items-center">
+                <input
+                  type="radio"
+                  name={field.name}
+                  value={option.value}
+                  checked={text === option.value}
+                  onChange={handleTextChange}
+                  className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span className="ml-2 text-sm text-gray-700">{option.label}</span>
+              </label>
+            ))}
+          </div>
+          {errorMessage}
+        </div>
+      );
+
+    case 'multi-select':
+      return (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">{label}</label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {field.options?.map(option => (
+              <label
+                key={option.value}
+                className="flex items-center p-3 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  name={field.name}
+                  value={option.value}
+                  checked={selected.includes(option.value)}
+                  onChange={() =>
+                    onChange(
+                      field.name,
+                      selected.includes(option.value)
+                        ? selected.filter(v => v !== option.value)
+                        : [...selected, option.value]
+                    )
+                  }
+                  className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-3 text-sm text-gray-700">{option.label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 text-xs text-gray-500">Selected: {selected.length}</div>
+          {errorMessage}
+        </div>
+      );
+
+    case 'skills':
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-3">
+            {label}
+          </label>
+          <SkillPicker
+            id={field.name}
+            value={skillEntriesOf(value)}
+            onChange={entries => onChange(field.name, entries)}
+            hasError={!!error}
+          />
+          {errorMessage}
+        </div>
+      );
+
+    case 'work-history':
+      return (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">{label}</label>
+          <WorkHistoryEditor
+            id={field.name}
+            value={workHistoryOf(value)}
+            onChange={entries => onChange(field.name, entries)}
+            hasError={!!error}
+          />
+          {errorMessage}
+        </div>
+      );
+
+    case 'education':
+      return (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">{label}</label>
+          <EducationEditor
+            id={field.name}
+            value={educationOf(value)}
+            onChange={entries => onChange(field.name, entries)}
+            hasError={!!error}
+          />
+          {errorMessage}
+        </div>
+      );
+
+    case 'cover-letter':
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-3">
+            {label}
+          </label>
+          <CoverLetterComposer
+            id={field.name}
+            value={text}
+            onChange={html => onChange(field.name, html)}
+            wordLimit={field.rules?.find(rule => rule.type === 'maxWords')?.value}
+            placeholders={placeholders}
+            hasError={!!error}
+          />
+          {errorMessage}
+        </div>
+      );
+
+    case 'select':
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-2">
+            {label}
+          </label>
+          <select id={field.name} name={field.name} value={text} onChange={handleTextChange} className={inputClassName(!!error)}>
+            <option value="">{field.placeholder ?? 'Select an option'}</option>
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {errorMessage}
+        </div>
+      );
+
+    case 'textarea':
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-2">
+            {label}
+          </label>
+          <textarea
+            id={field.name}
+            name={field.name}
+            value={text}
+            onChange={handleTextChange}
+            rows={5}
+            className={inputClassName(!!error)}
+            placeholder={field.placeholder}
+          />
+          {field.maxLength && (
+            <div className="mt-1 text-xs text-gray-500">
+              {text.length}/{field.maxLength} characters
+            </div>
+          )}
+          {errorMessage}
+        </div>
+      );
+
+    case 'phone':
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-2">
+            {label}
+          </label>
+          <PhoneInput
+            id={field.name}
+            name={field.name}
+            value={text}
+            onChange={phone => onChange(field.name, phone)}
+            className={inputClassName(!!error)}
+            placeholder={field.placeholder}
+          />
+          {errorMessage}
+        </div>
+      );
+
+    case 'file':
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-2">
+            {label}
+          </label>
+          <input
+            type="file"
+            id={field.name}
+            name={field.name}
+            accept={field.accept}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              onChange(field.name, file ? { fileName: file.name, mimeType: file.type, size: file.size } : null);
+            }}
+            className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+          {isFileAnswer(value) && <div className="mt-1 text-xs text-gray-500">Selected: {value.fileName}</div>}
+          {errorMessage}
+        </div>
+      );
+
+    default:
+      return (
+        <div>
+          <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 mb-2">
+            {label}
+          </label>
+          <input
+            type={TEXT_INPUT_TYPES[field.type] ?? 'text'}
+            id={field.name}
+            name={field.name}
+            value={text}
+            onChange={handleTextChange}
+            className={inputClassName(!!error)}
+            placeholder={field.placeholder}
+            maxLength={field.maxLength}
+          />
+          {errorMessage}
+        </div>
+      );
+  }
+};
+
+interface SchemaFormSectionProps {
+  section: FormSection;
+  values: FormValues;
+  errors: FormErrors;
+  onChange: (name: string, value: FormValue) => void;
+  /** Called with a field's name when focus leaves it */
+  onBlur?: (name: string) => void;
+  /** What cover letter placeholders stand for in this application */
+  placeholders?: PlaceholderValues;
+  /** Every section after the first is set off with a rule */
+  isFirst?: boolean;
+}
+
+/** One section of a schema form: its heading and whichever of its fields are currently visible. */
+export const SchemaFormSection: React.FC<SchemaFormSectionProps> = ({
+  section,
+  values,
+  errors,
+  onChange,
+  onBlur,
+  placeholders,
+  isFirst,
+}) => {
+  const Icon = section.icon ? SECTION_ICONS[section.icon] : null;
+  return (
+    <div className={isFirst ? 'space-y-6' : 'space-y-6 border-t pt-8'}>
+      <div className="flex items-center space-x-3 mb-4">
+        {Icon && <Icon className="w-6 h-6 text-blue-600" />}
+        <h2 className="text-xl font-semibold text-gray-900">{section.title}</h2>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {section.fields
+          .filter(field => isFieldVisible(field, values))
+          .map(field => (
+            <div
+              key={field.name}
+              className={`${field.width === 'half' ? '' : 'md:col-span-2'} ${field.visibleWhen ? 'animate-fade-in' : ''}`}
+              onBlur={e => {
+                // Fields like work history hold several inputs; only leaving the field as a whole counts
+                if (onBlur && !e.currentTarget.contains(e.relatedTarget as Node | null)) onBlur(field.name);
+              }}
+            >
+              <SchemaField
+                field={field}
+                value={values[field.name] ?? emptyFormValue(field)}
+                error={errors[field.name]}
+                onChange={onChange}
+                placeholders={placeholders}
+              />
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+interface SchemaFormProps {
+  schema: FormSchema;
+  values: FormValues;
+  errors: FormErrors;
+  onChange: (name: string, value: FormValue) => void;
+  onBlur?: (name: string) => void;
+}
+
+/** Renders every section of a form schema with its current values and errors. */
+export const SchemaForm: React.FC<SchemaFormProps> = ({ schema, values, errors, onChange, onBlur }) => (
+  <>
+    {schema.sections.map((section, index) => (
+      <SchemaFormSection
+        key={section.id}
+        section={section}
+        values={values}
+        errors={errors}
+        onChange={onChange}
+        onBlur={onBlur}
+        isFirst={index === 0}
+      />
+    ))}
+  </>
+);
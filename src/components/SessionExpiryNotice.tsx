@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+
+const WARNING_WINDOW_MS = 2 * 60 * 1000;
+
+export const SessionExpiryNotice: React.FC = () => {
+  const { isAuthenticated, expiresAt, refreshSession } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated || expiresAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, expiresAt]);
+
+  if (!isAuthenticated || expiresAt === null) return null;
+
+  const remaining = expiresAt - now;
+  if (remaining > WARNING_WINDOW_MS || remaining <= 0) return null;
+
+  const seconds = Math.ceil(remaining / 1000);
+  const label = seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+
+  const handleStaySignedIn = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshSession();
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-white border border-yellow-300 rounded-lg shadow-lg p-4 flex items-start space-x-3">
+      <Clock className="w-5 h-5 text-yellow-600 mt-0.5" />
+      <div className="flex-1">
+        <p className="text-sm font-medium text-gray-900">Your session is about to expire</p>
+        <p className="text-sm text-gray-600">You will be signed out in {label}.</p>
+        <button
+          onClick={handleStaySignedIn}
+          disabled={isRefreshing}
+          className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50 transition-colors"
+        >
+          {isRefreshing ? 'Refreshing...' : 'Stay signed in'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ArrowLeft, Bell, KeyRound, Link2, Shield, UserX } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { ChangePasswordSettings } from './ChangePasswordSettings';
+import { DeleteAccountSettings } from './DeleteAccountSettings';
+import { LinkedAccountsSettings } from './LinkedAccountsSettings';
+import { NotificationSettings } from './NotificationSettings';
+import { TwoFactorSettings } from './TwoFactorSettings';
+
+export const SettingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header with Back Button */}
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center text-blue-600 hover:text-blue-700 transition-colors mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white">
+            <h1 className="text-3xl font-bold mb-2">Account Settings</h1>
+            <p className="text-blue-100">Manage how you sign in and how we contact you</p>
+            <div className="mt-3 text-sm text-blue-100">
+              <p>
+                Signed in as: <span className="font-medium">{user?.email}</span>
+              </p>
+            </div>
+          </div>
+
+          <div className="p-8 space-y-8">
+            {/* Password Section - only accounts created with email have one */}
+            {user?.provider === 'email' && (
+              <section className="space-y-6">
+                <div className="flex items-center space-x-3 mb-4">
+                  <KeyRound className="w-6 h-6 text-blue-600" />
+                  <h2 className="text-xl font-semibold text-gray-900">Password</h2>
+                </div>
+                <ChangePasswordSettings />
+              </section>
+            )}
+
+            {/* Security Section */}
+            <section className="space-y-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <Shield className="w-6 h-6 text-blue-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Two-Factor Authentication</h2>
+              </div>
+              <TwoFactorSettings />
+            </section>
+
+            {/* Linked Accounts Section */}
+            <section className="space-y-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <Link2 className="w-6 h-6 text-blue-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Linked Accounts</h2>
+              </div>
+              <LinkedAccountsSettings />
+            </section>
+
+            {/* Notifications Section */}
+            <section className="space-y-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <Bell className="w-6 h-6 text-blue-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Notifications</h2>
+              </div>
+              <NotificationSettings />
+            </section>
+
+            {/* Danger Zone */}
+            <section className="space-y-6 border-t pt-8">
+              <div className="flex items-center space-x-3 mb-4">
+                <UserX className="w-6 h-6 text-red-600" />
+                <h2 className="text-xl font-semibold text-gray-900">Danger Zone</h2>
+              </div>
+              <DeleteAccountSettings />
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,85 +1,67 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Mail, Lock, User, AlertCircle, Chrome } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useForm } from '../hooks/useForm';
 import { SignupCredentials } from '../types/auth';
+import { isApiError } from '../services/http';
+import { matchesField, minLength, required, strongPassword, validEmail } from '../utils/validation';
 
 interface SignupFormProps {
   onSwitchToLogin: () => void;
 }
 
 export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
-  const { signup, loginWithGoogle, isLoading } = useAuth();
-  const [formData, setFormData] = useState<SignupCredentials>({
-    name: '',
-    email: '',
-    password: '',
-    confirmPassword: '',
-  });
-  const [errors, setErrors] = useState<Partial<SignupCredentials>>({});
+  const { signup, isEmailRegistered, loginWithOAuth, isLoading } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isGoogleLoading, setIsGoogleLoading] = useState(false);
+  const [googleError, setGoogleError] = useState<string | null>(null);
 
-  const validateForm = (): boolean => {
-    const newErrors: Partial<SignupCredentials> = {};
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Full name is required';
-    } else if (formData.name.trim().length < 2) {
-      newErrors.name = 'Name must be at least 2 characters';
-    }
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-
-    if (!formData.password.trim()) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
-    } else if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(formData.password)) {
-      newErrors.password = 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
-    }
-
-    if (!formData.confirmPassword.trim()) {
-      newErrors.confirmPassword = 'Please confirm your password';
-    } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    
-    // Clear error when user starts typing
-    if (errors[name as keyof SignupCredentials]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!validateForm()) return;
-
-    try {
-      await signup(formData);
-    } catch (error) {
-      setErrors({ email: 'An account with this email already exists' });
-    }
-  };
+  const { values, errors, validating, isSubmitting, handleChange, handleBlur, handleSubmit, setFieldError } =
+    useForm<SignupCredentials>({
+      initialValues: { name: '', email: '', password: '', confirmPassword: '' },
+      fields: {
+        name: {
+          validators: [required('Full name is required'), minLength(2, 'Name must be at least 2 characters')],
+        },
+        email: {
+          validators: [required('Email is required'), validEmail()],
+          // Saves filling in the passwords only to be told the email is taken
+          asyncValidator: async email =>
+            (await isEmailRegistered(email.trim())) ? 'An account with this email already exists' : undefined,
+        },
+        password: { validators: [required('Password is required'), strongPassword()] },
+        confirmPassword: {
+          validators: [
+            required('Please confirm your password'),
+            matchesField<SignupCredentials>('password', 'Passwords do not match'),
+          ],
+        },
+      },
+      onSubmit: async credentials => {
+        try {
+          await signup(credentials);
+        } catch (error) {
+          if (!isApiError(error)) {
+            setFieldError('email', 'Unable to create your account. Please try again.');
+          } else {
+            setFieldError(
+              'email',
+              error.code === 'email_taken' ? 'An account with this email already exists' : error.message
+            );
+          }
+        }
+      },
+    });
 
   const handleGoogleLogin = async () => {
     setIsGoogleLoading(true);
+    setGoogleError(null);
     try {
-      await loginWithGoogle();
+      await loginWithOAuth('google');
     } catch (error) {
       console.error('Google signup failed:', error);
+      setGoogleError(isApiError(error) ? error.message : 'Google sign-in failed. Please try again.');
     } finally {
       setIsGoogleLoading(false);
     }
@@ -103,8 +85,9 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
               type="text"
               id="name"
               name="name"
-              value={formData.name}
-              onChange={handleInputChange}
+              value={values.name}
+              onChange={handleChange}
+              onBlur={handleBlur}
               className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
                 errors.name ? 'border-red-500' : 'border-gray-300'
               }`}
@@ -129,19 +112,22 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
               type="email"
               id="email"
               name="email"
-              value={formData.email}
-              onChange={handleInputChange}
+              value={values.email}
+              onChange={handleChange}
+              onBlur={handleBlur}
               className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
                 errors.email ? 'border-red-500' : 'border-gray-300'
               }`}
               placeholder="Enter your email"
             />
           </div>
-          {errors.email && (
+          {errors.email ? (
             <p className="mt-1 text-sm text-red-600 flex items-center">
               <AlertCircle className="w-4 h-4 mr-1" />
               {errors.email}
             </p>
+          ) : (
+            validating.email && <p className="mt-1 text-sm text-gray-500">Checking this email...</p>
           )}
         </div>
 
@@ -155,8 +141,9 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
               type={showPassword ? 'text' : 'password'}
               id="password"
               name="password"
-              value={formData.password}
-              onChange={handleInputChange}
+              value={values.password}
+              onChange={handleChange}
+              onBlur={handleBlur}
               className={`w-full pl-10 pr-12 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
                 errors.password ? 'border-red-500' : 'border-gray-300'
               }`}
@@ -188,8 +175,9 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
               type={showConfirmPassword ? 'text' : 'password'}
               id="confirmPassword"
               name="confirmPassword"
-              value={formData.confirmPassword}
-              onChange={handleInputChange}
+              value={values.confirmPassword}
+              onChange={handleChange}
+              onBlur={handleBlur}
               className={`w-full pl-10 pr-12 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
                 errors.confirmPassword ? 'border-red-500' : 'border-gray-300'
               }`}
@@ -213,7 +201,7 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={isLoading || isSubmitting}
           className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
         >
           {isLoading ? (
@@ -249,6 +237,12 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
           )}
           Continue with Google
         </button>
+        {googleError && (
+          <p className="mt-2 text-sm text-red-600 flex items-center">
+            <AlertCircle className="w-4 h-4 mr-1" />
+            {googleError}
+          </p>
+        )}
       </div>
 
       <div className="mt-6 text-center">
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Plus, Search, X } from 'lucide-react';
+import { SKILL_CATEGORY_LABELS, SKILL_PROFICIENCIES, SKILL_PROFICIENCY_LABELS, SkillEntry, SkillProficiency } from '../types/skill';
+import { findSkill, isSameSkill, MAX_SKILL_YEARS, searchSkills, skillEntryFor } from '../utils/skills';
+
+interface SkillPickerProps {
+  id: string;
+  value: SkillEntry[];
+  onChange: (entries: SkillEntry[]) => void;
+  hasError?: boolean;
+}
+
+/** What the dropdown offers: a taxonomy skill, or the typed text as a custom skill */
+type SkillOption = { entry: SkillEntry; category: string; matchedAlias?: string } | { entry: SkillEntry; custom: true };
+
+const fieldClassName = (hasError: boolean) =>
+  `px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`;
+
+/** Searchable skill picker: taxonomy skills by name or alias, custom skills, and a rating for each. */
+export const SkillPicker: React.FC<SkillPickerProps> = ({ id, value, onChange, hasError = false }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const selectedIds = value.flatMap(entry => (entry.skillId ? [entry.skillId] : []));
+  const typed = query.trim();
+  const typedEntry = typed ? skillEntryFor(typed) : null;
+  const options: SkillOption[] = searchSkills(typed, selectedIds).map(({ skill, matchedAlias }) => ({
+    entry: skillEntryFor(skill.name),
+    category: SKILL_CATEGORY_LABELS[skill.category],
+    matchedAlias,
+  }));
+  // Only offer a custom skill when the text isn't a taxonomy skill or one already added
+  if (typedEntry && typedEntry.skillId === null && !value.some(entry => isSameSkill(entry, typedEntry))) {
+    options.push({ entry: typedEntry, custom: true });
+  }
+  const listboxId = `${id}-options`;
+  const showOptions = isOpen && options.length > 0;
+
+  const add = (entry: SkillEntry) => {
+    onChange([...value, entry]);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const update = (index: number, changes: Partial<SkillEntry>) =>
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  const remove = (index: number) => onChange(value.filter((_, i) => i !== index));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      if (options.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + options.length) % options.length);
+    } else if (e.key === 'Enter') {
+      // Enter picks a skill rather than submitting the surrounding form
+      e.preventDefault();
+      const option = options[Math.min(activeIndex, options.length - 1)];
+      if (showOptions && option) add(option.entry);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          id={id}
+          type="text"
+          role="combobox"
+          aria-expanded={showOptions}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={showOptions ? `${listboxId}-${activeIndex}` : undefined}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search skills, e.g. JavaScript or K8s"
+          className={`w-full pl-9 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+            hasError ? 'border-red-500' : 'border-gray-300'
+          }`}
+        />
+        {showOptions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-auto"
+          >
+            {options.map((option, index) => (
+              <li
+                key={option.entry.skillId ?? `custom-${option.entry.name}`}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so picking doesn't close the list first
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => add(option.entry)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-4 py-2 flex items-center justify-between cursor-pointer text-sm ${
+                  index === activeIndex ? 'bg-blue-50' : ''
+                }`}
+              >
+                {'custom' in option ? (
+                  <span className="flex items-center text-blue-700">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add "{option.entry.name}" as a custom skill
+                  </span>
+                ) : (
+                  <>
+                    <span className="text-gray-900">
+                      {option.entry.name}
+                      {option.matchedAlias && <span className="text-gray-500"> · also known as {option.matchedAlias}</span>}
+                    </span>
+                    <span className="text-xs text-gray-500 ml-4">{option.category}</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {value.length > 0 && (
+        <ul className="border rounded-lg divide-y divide-gray-200">
+          {value.map((entry, index) => {
+            const skill = entry.skillId ? findSkill(entry.skillId) : undefined;
+            const rowId = `${id}-${index}`;
+            return (
+              <li key={entry.skillId ?? `custom-${entry.name}`} className="px-4 py-3 flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-[10rem]">
+                  <p className="text-sm font-medium text-gray-900">{entry.name}</p>
+                  <p className="text-xs text-gray-500">{skill ? SKILL_CATEGORY_LABELS[skill.category] : 'Custom skill'}</p>
+                </div>
+                <label htmlFor={`${rowId}-proficiency`} className="sr-only">
+                  Proficiency in {entry.name}
+                </label>
+                <select
+                  id={`${rowId}-proficiency`}
+                  value={entry.proficiency ?? ''}
+                  onChange={e => update(index, { proficiency: (e.target.value || null) as SkillProficiency | null })}
+                  className={fieldClassName(hasError && !entry.proficiency)}
+                >
+                  <option value="">Proficiency</option>
+                  {SKILL_PROFICIENCIES.map(level => (
+                    <option key={level} value={level}>
+                      {SKILL_PROFICIENCY_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex items-center">
+                  <label htmlFor={`${rowId}-years`} className="sr-only">
+                    Years using {entry.name}
+                  </label>
+                  <input
+                    id={`${rowId}-years`}
+                    type="text"
+                    inputMode="numeric"
+                    value={entry.years === null ? '' : String(entry.years)}
+                    onChange={e => {
+                      const digits = e.target.value.replace(/\D/g, '').slice(0, 2);
+                      update(index, { years: digits ? Math.min(parseInt(digits, 10), MAX_SKILL_YEARS) : null });
+                    }}
+                    placeholder="0"
+                    className={`w-16 ${fieldClassName(hasError && entry.years === null)}`}
+                  />
+                  <span className="ml-2 text-sm text-gray-600">yrs</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  aria-label={`Remove ${entry.name}`}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="text-xs text-gray-500">Added: {value.length}</div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+
+export interface ProgressStep {
+  id: string;
+  title: string;
+}
+
+interface StepProgressProps {
+  steps: ProgressStep[];
+  currentIndex: number;
+}
+
+/** Where the candidate is in a multi-step form; steps before the current one are complete. */
+export const StepProgress: React.FC<StepProgressProps> = ({ steps, currentIndex }) => {
+  const percentComplete = steps.length > 1 ? Math.round((currentIndex / (steps.length - 1)) * 100) : 100;
+
+  return (
+    <div className="px-8 pt-6">
+      <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+        <span>
+          Step {currentIndex + 1} of {steps.length}: <span className="font-medium text-gray-900">{steps[currentIndex]?.title}</span>
+        </span>
+        <span>{percentComplete}% complete</span>
+      </div>
+      <div
+        className="h-2 bg-gray-200 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percentComplete}
+      >
+        <div
+          className="h-full bg-gradient-to-r from-blue-600 to-indigo-600 transition-all duration-300"
+          style={{ width: `${percentComplete}%` }}
+        />
+      </div>
+      <ol className="mt-4 hidden md:flex justify-between">
+        {steps.map((step, index) => (
+          <li
+            key={step.id}
+            aria-current={index === currentIndex ? 'step' : undefined}
+            className={`flex items-center text-xs font-medium ${
+              index === currentIndex ? 'text-blue-600' : index < currentIndex ? 'text-gray-700' : 'text-gray-400'
+            }`}
+          >
+            <span
+              className={`w-6 h-6 mr-2 rounded-full flex items-center justify-center border ${
+                index < currentIndex
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : index === currentIndex
+                    ? 'border-blue-600'
+                    : 'border-gray-300'
+              }`}
+            >
+              {index < currentIndex ? <Check className="w-3 h-3" /> : index + 1}
+            </span>
+            {step.title}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { ShieldCheck, ShieldOff, AlertCircle, Copy } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+import { MfaEnrollment } from '../types/auth';
+
+type TwoFactorStep = 'idle' | 'enrolling' | 'recovery-codes' | 'disabling';
+
+export const TwoFactorSettings: React.FC = () => {
+  const { user, beginMfaEnrollment, confirmMfaEnrollment, disableMfa } = useAuth();
+  const [step, setStep] = useState<TwoFactorStep>('idle');
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(undefined);
+    try {
+      await action();
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStartEnrollment = () =>
+    run(async () => {
+      setEnrollment(await beginMfaEnrollment());
+      setCode('');
+      setStep('enrolling');
+    });
+
+  const handleConfirmEnrollment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{6}$/.test(code)) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+    run(async () => {
+      const result = await confirmMfaEnrollment(code);
+      setRecoveryCodes(result.recoveryCodes);
+      setEnrollment(null);
+      setStep('recovery-codes');
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError('Enter an authentication or recovery code');
+      return;
+    }
+    run(async () => {
+      await disableMfa(code.trim());
+      setStep('idle');
+    });
+  };
+
+  const reset = () => {
+    setStep('idle');
+    setEnrollment(null);
+    setCode('');
+    setError(undefined);
+  };
+
+  const codeInput = (placeholder: string) => (
+    <input
+      type="text"
+      value={code}
+      onChange={e => {
+        setCode(e.target.value);
+        setError(undefined);
+      }}
+      autoComplete="one-time-code"
+      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors tracking-widest ${
+        error ? 'border-red-500' : 'border-gray-300'
+      }`}
+      placeholder={placeholder}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          {user?.mfaEnabled ? (
+            <ShieldCheck className="w-6 h-6 text-green-600 mt-0.5" />
+          ) : (
+            <ShieldOff className="w-6 h-6 text-gray-400 mt-0.5" />
+          )}
+          <div>
+            <h4 className="font-medium text-gray-900">Authenticator App</h4>
+            <p className="text-sm text-gray-500">
+              {user?.mfaEnabled
+                ? 'Two-factor authentication is on. You will be asked for a code when you sign in.'
+                : 'Add a second step to sign-in using an authenticator app such as Google Authenticator or 1Password.'}
+            </p>
+          </div>
+        </div>
+        {step === 'idle' && (
+          <button
+            onClick={user?.mfaEnabled ? () => setStep('disabling') : handleStartEnrollment}
+            disabled={isWorking}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 whitespace-nowrap ${
+              user?.mfaEnabled
+                ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            {user?.mfaEnabled ? 'Disable' : 'Enable'}
+          </button>
+        )}
+      </div>
+
+      {step === 'enrolling' && enrollment && (
+        <form onSubmit={handleConfirmEnrollment} className="border rounded-lg p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex justify-center">
+            <QRCodeSVG value={enrollment.otpauthUri} size={176} />
+          </div>
+          <p className="text-xs text-gray-500 text-center">
+            Can't scan? Enter this key manually:{' '}
+            <span className="font-mono text-gray-800 break-all">{enrollment.secret}</span>
+          </p>
+          {codeInput('123456')}
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isWorking ? 'Verifying...' : 'Verify and Enable'}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'recovery-codes' && (
+        <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 space-y-3">
+          <p className="text-sm font-medium text-yellow-800">Save your recovery codes</p>
+          <p className="text-sm text-yellow-700">
+            Each code can be used once to sign in if you lose access to your authenticator app. They won't be shown
+            again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode} className="bg-white border rounded px-2 py-1 text-center">
+                {recoveryCode}
+              </li>
+            ))}
+          </ul>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n'))}
+              className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy codes
+            </button>
+            <button
+              onClick={reset}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              I've saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'disabling' && (
+        <form onSubmit={handleDisable} className="border rounded-lg p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            Enter a code from your authenticator app or a recovery code to turn off two-factor authentication.
+          </p>
+          {codeInput('123456 or xxxx-xxxx')}
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isWorking ? 'Disabling...' : 'Disable Two-Factor'}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
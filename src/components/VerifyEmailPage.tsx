@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { isApiError } from '../services/http';
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed';
+
+export const VerifyEmailPage: React.FC = () => {
+  const { verifyEmail, isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<VerificationStatus>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  // Verification tokens are single-use, so StrictMode's double effect must not spend it twice
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setError('This verification link is missing its token.');
+      setStatus('failed');
+      return;
+    }
+
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch(err => {
+        setError(isApiError(err) ? err.message : 'Unable to verify your email. Please try again.');
+        setStatus('failed');
+      });
+  }, [verifyEmail, searchParams]);
+
+  const continuePath = isAuthenticated ? '/dashboard' : '/auth';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+        {status === 'verifying' && (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Verifying your email...</p>
+          </>
+        )}
+
+        {status === 'verified' && (
+          <>
+            <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Email Verified!</h2>
+            <p className="text-gray-600 mb-6">Your email address is confirmed. You can now submit job applications.</p>
+          </>
+        )}
+
+        {status === 'failed' && (
+          <>
+            <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Verification Failed</h2>
+            <p className="text-gray-600 mb-6">{error}</p>
+          </>
+        )}
+
+        {status !== 'verifying' && (
+          <button
+            onClick={() => navigate(continuePath, { replace: true })}
+            className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            {isAuthenticated ? 'Go to Dashboard' : 'Go to Sign In'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
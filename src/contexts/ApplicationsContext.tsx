@@ -0,0 +1,138 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { ApplicationAnswers, ApplicationSubmission, JobApplication, ResumeFile } from '../types/application';
+import { ApplicationService } from '../services/applicationService';
+import { isApiError } from '../services/http';
+import { ResumeService } from '../services/resumeService';
+import { roleHasPermission } from '../utils/permissions';
+import { useAuth } from './AuthContext';
+
+interface ApplicationsContextType {
+  /** The signed-in candidate's applications, newest first */
+  applications: JobApplication[];
+  isLoading: boolean;
+  loadError: string | null;
+  submitApplication: (submission: ApplicationSubmission) => Promise<JobApplication>;
+  amendApplication: (
+    applicationId: string,
+    answers: ApplicationAnswers,
+    declaration?: string | null
+  ) => Promise<JobApplication>;
+  withdrawApplication: (applicationId: string, reason?: string) => Promise<JobApplication>;
+  refreshApplications: () => Promise<void>;
+  /** Every candidate's applications, for reviewers; not kept in context state. */
+  listApplicationsForReview: () => Promise<JobApplication[]>;
+  /** Uploads the file once, for submissions and drafts to refer to. */
+  uploadResume: (file: File) => Promise<ResumeFile>;
+  downloadResume: (resume: ResumeFile) => Promise<Blob>;
+}
+
+const ApplicationsContext = createContext<ApplicationsContextType | undefined>(undefined);
+
+interface ApplicationsProviderProps {
+  service: ApplicationService;
+  resumeService: ResumeService;
+  children: ReactNode;
+}
+
+export const ApplicationsProvider: React.FC<ApplicationsProviderProps> = ({ service, resumeService, children }) => {
+  const { user, token } = useAuth();
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Token refreshes should not refetch the list, so read the latest one through a ref
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  const userId = user?.id ?? null;
+  const canApply = user ? roleHasPermission(user.role, 'application:create') : false;
+
+  const refreshApplications = useCallback(async () => {
+    if (!tokenRef.current) return;
+    try {
+      setApplications(await service.listMyApplications(tokenRef.current));
+      setLoadError(null);
+    } catch (error) {
+      console.error('Application list failed:', error);
+      setLoadError(isApiError(error) ? error.message : 'Unable to load your applications');
+    }
+  }, [service]);
+
+  useEffect(() => {
+    setApplications([]);
+    setLoadError(null);
+    if (!userId || !canApply) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    refreshApplications().finally(() => setIsLoading(false));
+
+    // Recruiters move applications along elsewhere; pick that up when the candidate comes back
+    const handleFocus = () => {
+      refreshApplications();
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [userId, canApply, refreshApplications]);
+
+  const requireToken = useCallback(() => {
+    if (!tokenRef.current) {
+      throw new Error('You must be signed in to do that');
+    }
+    return tokenRef.current;
+  }, []);
+
+  const submitApplication = async (submission: ApplicationSubmission) => {
+    const application = await service.submitApplication(requireToken(), submission);
+    setApplications(prev => [application, ...prev.filter(a => a.id !== application.id)]);
+    return application;
+  };
+
+  const replaceApplication = (application: JobApplication) => {
+    setApplications(prev => prev.map(a => (a.id === application.id ? application : a)));
+    return application;
+  };
+
+  const amendApplication = async (applicationId: string, answers: ApplicationAnswers, declaration?: string | null) =>
+    replaceApplication(await service.amendApplication(requireToken(), applicationId, answers, declaration));
+
+  const withdrawApplication = async (applicationId: string, reason?: string) =>
+    replaceApplication(await service.withdrawApplication(requireToken(), applicationId, reason));
+
+  const listApplicationsForReview = useCallback(
+    async () => service.listApplicationsForReview(requireToken()),
+    [service, requireToken]
+  );
+
+  const uploadResume = async (file: File) => resumeService.uploadResume(requireToken(), file);
+
+  const downloadResume = async (resume: ResumeFile) => resumeService.downloadResume(requireToken(), resume.id);
+
+  return (
+    <ApplicationsContext.Provider
+      value={{
+        applications,
+        isLoading,
+        loadError,
+        submitApplication,
+        amendApplication,
+        withdrawApplication,
+        refreshApplications,
+        listApplicationsForReview,
+        uploadResume,
+        downloadResume,
+      }}
+    >
+      {children}
+    </ApplicationsContext.Provider>
+  );
+};
+
+export const useApplications = () => {
+  const context = useContext(ApplicationsContext);
+  if (context === undefined) {
+    throw new Error('useApplications must be used within an ApplicationsProvider');
+  }
+  return context;
+};
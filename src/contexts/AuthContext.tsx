@@ -1,19 +1,63 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { jwtDecode } from 'jwt-decode';
-import { User, AuthState, LoginCredentials, SignupCredentials, AuthResponse } from '../types/auth';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef, ReactNode } from 'react';
+import {
+  User,
+  AuthState,
+  LoginCredentials,
+  SignupCredentials,
+  AuthResponse,
+  LoginResponse,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaEnrollmentResult,
+  NotificationPreferences,
+  OAuthProviderId,
+  ReauthCredentials,
+} from '../types/auth';
+import { AuthService, isMfaChallenge } from '../services/authService';
+import { isApiError } from '../services/http';
+import { beginAuthorization, completeAuthorization, storeReauthentication } from '../services/oauth';
+import { createSessionChannel, SessionChannel, SessionEvent } from '../services/sessionChannel';
+import { getTokenExpiry, isTokenExpired } from '../utils/token';
 
 interface AuthContextType extends AuthState {
+  /** Signs in, or leaves `mfaChallenge` set when a second factor is required. */
   login: (credentials: LoginCredentials) => Promise<void>;
+  verifyMfa: (code: string) => Promise<void>;
+  cancelMfa: () => void;
   signup: (credentials: SignupCredentials) => Promise<void>;
-  loginWithGoogle: () => Promise<void>;
+  /** Whether an account already uses this email; signup still has the final say. */
+  isEmailRegistered: (email: string) => Promise<boolean>;
+  /** Redirects to the identity provider; the session is created on the callback route. */
+  loginWithOAuth: (provider: OAuthProviderId) => Promise<void>;
+  /** Finishes a provider redirect (sign-in, link or re-authentication) and resolves with the path to return to. */
+  completeOAuthRedirect: (params: URLSearchParams) => Promise<string>;
   logout: () => void;
+  refreshSession: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  verifyEmail: (verificationToken: string) => Promise<void>;
+  resendVerificationEmail: () => Promise<void>;
+  beginMfaEnrollment: () => Promise<MfaEnrollment>;
+  confirmMfaEnrollment: (code: string) => Promise<MfaEnrollmentResult>;
+  disableMfa: (code: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /** Redirects to the provider to link it; the link is saved on the callback route. */
+  linkOAuthProvider: (provider: OAuthProviderId) => Promise<void>;
+  unlinkOAuthProvider: (provider: OAuthProviderId) => Promise<void>;
+  /** Redirects to the provider for a fresh sign-in whose proof the settings page can then use. */
+  reauthenticateWithOAuth: (provider: OAuthProviderId) => Promise<void>;
+  updateNotificationPreferences: (preferences: NotificationPreferences) => Promise<void>;
+  deleteAccount: (credentials: ReauthCredentials) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 type AuthAction =
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_USER'; payload: { user: User; token: string } }
+  | { type: 'SET_USER'; payload: { user: User; token: string; expiresAt: number | null } }
+  | { type: 'UPDATE_USER'; payload: User }
+  | { type: 'MFA_REQUIRED'; payload: MfaChallenge }
+  | { type: 'CLEAR_MFA' }
   | { type: 'CLEAR_USER' };
 
 const authReducer = (state: AuthState, action: AuthAction): AuthState => {
@@ -25,13 +69,24 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         ...state,
         user: action.payload.user,
         token: action.payload.token,
+        expiresAt: action.payload.expiresAt,
+        mfaChallenge: null,
         isAuthenticated: true,
         isLoading: false,
       };
+    case 'UPDATE_USER':
+      // Ignore updates for anyone other than the signed-in user
+      return state.user?.id === action.payload.id ? { ...state, user: action.payload } : state;
+    case 'MFA_REQUIRED':
+      return { ...state, mfaChallenge: action.payload, isLoading: false };
+    case 'CLEAR_MFA':
+      return { ...state, mfaChallenge: null };
     case 'CLEAR_USER':
       return {
         user: null,
         token: null,
+        expiresAt: null,
+        mfaChallenge: null,
         isAuthenticated: false,
         isLoading: false,
       };
@@ -43,129 +98,313 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 const initialState: AuthState = {
   user: null,
   token: null,
+  expiresAt: null,
+  mfaChallenge: null,
   isLoading: true,
   isAuthenticated: false,
 };
 
-// Mock API functions (replace with real API calls)
-const mockAPI = {
-  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock validation
-    if (credentials.email === 'user@example.com' && credentials.password === 'password123') {
-      const user: User = {
-        id: '1',
-        email: credentials.email,
-        name: 'John Doe',
-        provider: 'email',
-        createdAt: new Date().toISOString(),
-      };
-      const token = 'mock-jwt-token-' + Date.now();
-      return { user, token };
-    }
-    throw new Error('Invalid credentials');
-  },
-
-  signup: async (credentials: SignupCredentials): Promise<AuthResponse> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock user creation
-    const user: User = {
-      id: Date.now().toString(),
-      email: credentials.email,
-      name: credentials.name,
-      provider: 'email',
-      createdAt: new Date().toISOString(),
-    };
-    const token = 'mock-jwt-token-' + Date.now();
-    return { user, token };
-  },
-
-  googleLogin: async (): Promise<AuthResponse> => {
-    // Simulate Google OAuth flow
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    const user: User = {
-      id: 'google-' + Date.now(),
-      email: 'user@gmail.com',
-      name: 'Google User',
-      avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=1',
-      provider: 'google',
-      createdAt: new Date().toISOString(),
-    };
-    const token = 'mock-google-jwt-token-' + Date.now();
-    return { user, token };
-  },
+interface AuthProviderProps {
+  service: AuthService;
+  children: ReactNode;
+}
+
+// Refresh this long before the access token expires to absorb clock skew and slow networks
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const persistSession = (response: AuthResponse) => {
+  localStorage.setItem('auth_token', response.token);
+  localStorage.setItem('user_data', JSON.stringify(response.user));
+  if (response.refreshToken) {
+    localStorage.setItem('refresh_token', response.refreshToken);
+  }
+};
+
+const clearSession = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('refresh_token');
+  localStorage.removeItem('user_data');
+};
+
+const readStoredSession = (): { user: User; token: string } | null => {
+  const token = localStorage.getItem('auth_token');
+  const userData = localStorage.getItem('user_data');
+  if (!token || !userData) return null;
+  try {
+    return { user: JSON.parse(userData) as User, token };
+  } catch {
+    return null;
+  }
 };
 
-export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+// Serialises refreshes across tabs where the Web Locks API exists, so two tabs never spend one refresh token
+const withRefreshLock = <T,>(task: () => Promise<T>): Promise<T> =>
+  'locks' in navigator ? navigator.locks.request('job-portal-auth-refresh', task) : task();
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ service, children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  // Concurrent callers share one in-flight refresh so a rotated token is never spent twice
+  const refreshInFlight = useRef<Promise<void> | null>(null);
+  const channel = useRef<SessionChannel | null>(null);
+
+  const broadcast = useCallback((event: SessionEvent) => channel.current?.post(event), []);
+
+  const adoptSession = useCallback((session: { user: User; token: string }) => {
+    dispatch({
+      type: 'SET_USER',
+      payload: { user: session.user, token: session.token, expiresAt: getTokenExpiry(session.token) },
+    });
+  }, []);
+
+  const applySession = useCallback(
+    (response: AuthResponse, event: 'login' | 'refresh' = 'login') => {
+      persistSession(response);
+      adoptSession(response);
+      broadcast({ type: event });
+    },
+    [adoptSession, broadcast]
+  );
+
+  const endSession = useCallback(() => {
+    clearSession();
+    dispatch({ type: 'CLEAR_USER' });
+    broadcast({ type: 'logout' });
+  }, [broadcast]);
+
+  useEffect(() => {
+    const sessionChannel = createSessionChannel();
+    channel.current = sessionChannel;
+
+    // Another tab already wrote the new session to localStorage; just mirror it
+    const unsubscribe = sessionChannel.subscribe(event => {
+      const stored = readStoredSession();
+      if (event.type === 'logout' || !stored) {
+        dispatch({ type: 'CLEAR_USER' });
+      } else if (event.type === 'user-updated') {
+        dispatch({ type: 'UPDATE_USER', payload: stored.user });
+      } else {
+        adoptSession(stored);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      sessionChannel.close();
+      channel.current = null;
+    };
+  }, [adoptSession]);
+
+  const refreshSession = useCallback(() => {
+    if (!refreshInFlight.current) {
+      const tokenBefore = localStorage.getItem('auth_token');
+      refreshInFlight.current = withRefreshLock(async () => {
+        // Another tab may have refreshed while we waited for the lock
+        const stored = readStoredSession();
+        if (stored && stored.token !== tokenBefore) {
+          const storedExpiry = getTokenExpiry(stored.token);
+          if (storedExpiry === null || storedExpiry - Date.now() > REFRESH_MARGIN_MS) {
+            adoptSession(stored);
+            return;
+          }
+        }
+
+        const refreshToken = localStorage.getItem('refresh_token');
+        if (!refreshToken) {
+          throw new Error('No refresh token available');
+        }
+        applySession(await service.refresh(refreshToken), 'refresh');
+      })
+        .catch(error => {
+          endSession();
+          throw error;
+        })
+        .finally(() => {
+          refreshInFlight.current = null;
+        });
+    }
+    return refreshInFlight.current;
+  }, [service, adoptSession, applySession, endSession]);
 
   useEffect(() => {
     // Check for existing token on app load
     const token = localStorage.getItem('auth_token');
-    const userData = localStorage.getItem('user_data');
-    
-    if (token && userData) {
-      try {
-        const user = JSON.parse(userData);
-        // In a real app, you'd validate the token with your backend
-        dispatch({ type: 'SET_USER', payload: { user, token } });
-      } catch (error) {
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('user_data');
-      }
+    if (!token) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
     }
-    
-    dispatch({ type: 'SET_LOADING', payload: false });
-  }, []);
 
-  const login = async (credentials: LoginCredentials) => {
+    if (isTokenExpired(token)) {
+      refreshSession().catch(() => {
+        // refreshSession already cleared the stale session
+      });
+      return;
+    }
+
+    let cancelled = false;
+    service
+      .me(token)
+      .then(user => {
+        if (cancelled) return;
+        localStorage.setItem('user_data', JSON.stringify(user));
+        dispatch({ type: 'SET_USER', payload: { user, token, expiresAt: getTokenExpiry(token) } });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // Keep the cached user when the backend is merely unreachable
+        const userData = localStorage.getItem('user_data');
+        if (isApiError(error) && error.code === 'network_error' && userData) {
+          try {
+            const user = JSON.parse(userData) as User;
+            dispatch({ type: 'SET_USER', payload: { user, token, expiresAt: getTokenExpiry(token) } });
+            return;
+          } catch {
+            // fall through and drop the corrupt session
+          }
+        }
+        endSession();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [service, refreshSession, endSession]);
+
+  useEffect(() => {
+    if (state.expiresAt === null) return;
+
+    // Without a refresh token the session simply ends when the access token does
+    const canRefresh = localStorage.getItem('refresh_token') !== null;
+    const delay = Math.max(state.expiresAt - Date.now() - (canRefresh ? REFRESH_MARGIN_MS : 0), 0);
+    const timer = setTimeout(() => {
+      if (canRefresh) {
+        refreshSession().catch(error => console.error('Session refresh failed:', error));
+      } else {
+        endSession();
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [state.expiresAt, refreshSession, endSession]);
+
+  const authenticate = async (request: () => Promise<LoginResponse>) => {
     dispatch({ type: 'SET_LOADING', payload: true });
     try {
-      const response = await mockAPI.login(credentials);
-      localStorage.setItem('auth_token', response.token);
-      localStorage.setItem('user_data', JSON.stringify(response.user));
-      dispatch({ type: 'SET_USER', payload: response });
+      const response = await request();
+      if (isMfaChallenge(response)) {
+        dispatch({ type: 'MFA_REQUIRED', payload: response });
+      } else {
+        applySession(response);
+      }
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
       throw error;
     }
   };
 
-  const signup = async (credentials: SignupCredentials) => {
-    dispatch({ type: 'SET_LOADING', payload: true });
-    try {
-      const response = await mockAPI.signup(credentials);
-      localStorage.setItem('auth_token', response.token);
-      localStorage.setItem('user_data', JSON.stringify(response.user));
-      dispatch({ type: 'SET_USER', payload: response });
-    } catch (error) {
-      dispatch({ type: 'SET_LOADING', payload: false });
-      throw error;
+  const login = (credentials: LoginCredentials) => authenticate(() => service.login(credentials));
+
+  // Deliberately leaves isLoading alone so the code-entry step stays mounted to show errors
+  const verifyMfa = async (code: string) => {
+    if (!state.mfaChallenge) {
+      throw new Error('No sign-in is waiting for a verification code');
     }
+    applySession(await service.verifyMfa(state.mfaChallenge.mfaToken, code));
   };
 
-  const loginWithGoogle = async () => {
-    dispatch({ type: 'SET_LOADING', payload: true });
-    try {
-      const response = await mockAPI.googleLogin();
-      localStorage.setItem('auth_token', response.token);
-      localStorage.setItem('user_data', JSON.stringify(response.user));
-      dispatch({ type: 'SET_USER', payload: response });
-    } catch (error) {
-      dispatch({ type: 'SET_LOADING', payload: false });
-      throw error;
+  const cancelMfa = () => dispatch({ type: 'CLEAR_MFA' });
+
+  const signup = (credentials: SignupCredentials) => authenticate(() => service.signup(credentials));
+
+  const isEmailRegistered = (email: string) => service.isEmailRegistered(email);
+
+  const loginWithOAuth = (provider: OAuthProviderId) => beginAuthorization(provider);
+
+  const completeOAuthRedirect = async (params: URLSearchParams) => {
+    const completed = await completeAuthorization(params);
+    if (completed.intent === 'link') {
+      updateUser(await service.linkProvider(requireToken(), completed.provider, completed.idToken));
+    } else if (completed.intent === 'reauthenticate') {
+      storeReauthentication(completed.provider, completed.idToken);
+    } else {
+      await authenticate(() => service.oauthLogin(completed.provider, completed.idToken));
     }
+    return completed.returnTo;
+  };
+
+  const requestPasswordReset = (email: string) => service.requestPasswordReset(email);
+
+  const resetPassword = (token: string, password: string) => service.resetPassword(token, password);
+
+  const requireToken = () => {
+    if (!state.token) {
+      throw new Error('You must be signed in to do that');
+    }
+    return state.token;
+  };
+
+  const updateUser = useCallback(
+    (user: User) => {
+      const cached = localStorage.getItem('user_data');
+      if (cached && (JSON.parse(cached) as User).id === user.id) {
+        localStorage.setItem('user_data', JSON.stringify(user));
+        broadcast({ type: 'user-updated' });
+      }
+      dispatch({ type: 'UPDATE_USER', payload: user });
+    },
+    [broadcast]
+  );
+
+  // The link may be opened while signed in as someone else, or signed out entirely
+  const verifyEmail = async (verificationToken: string) => {
+    updateUser(await service.verifyEmail(verificationToken));
+  };
+
+  const resendVerificationEmail = async () => {
+    await service.resendVerificationEmail(requireToken());
+  };
+
+  const beginMfaEnrollment = async () => service.beginMfaEnrollment(requireToken());
+
+  const confirmMfaEnrollment = async (code: string) => {
+    const token = requireToken();
+    const result = await service.confirmMfaEnrollment(token, code);
+    updateUser(await service.me(token));
+    return result;
+  };
+
+  const disableMfa = async (code: string) => {
+    updateUser(await service.disableMfa(requireToken(), code));
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    await service.changePassword(requireToken(), currentPassword, newPassword);
+  };
+
+  const linkOAuthProvider = (provider: OAuthProviderId) =>
+    beginAuthorization(provider, { intent: 'link', returnTo: '/settings' });
+
+  const unlinkOAuthProvider = async (provider: OAuthProviderId) => {
+    updateUser(await service.unlinkProvider(requireToken(), provider));
+  };
+
+  const reauthenticateWithOAuth = (provider: OAuthProviderId) =>
+    beginAuthorization(provider, { intent: 'reauthenticate', returnTo: '/settings' });
+
+  const updateNotificationPreferences = async (preferences: NotificationPreferences) => {
+    updateUser(await service.updateNotificationPreferences(requireToken(), preferences));
+  };
+
+  const deleteAccount = async (credentials: ReauthCredentials) => {
+    await service.deleteAccount(requireToken(), credentials);
+    endSession();
   };
 
   const logout = () => {
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('user_data');
-    dispatch({ type: 'CLEAR_USER' });
+    if (state.token) {
+      // Server-side revocation is best effort; the local session ends regardless
+      service.logout(state.token).catch(error => console.error('Logout request failed:', error));
+    }
+    endSession();
   };
 
   return (
@@ -173,9 +412,27 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       value={{
         ...state,
         login,
+        verifyMfa,
+        cancelMfa,
         signup,
-        loginWithGoogle,
+        isEmailRegistered,
+        loginWithOAuth,
+        completeOAuthRedirect,
         logout,
+        refreshSession,
+        requestPasswordReset,
+        resetPassword,
+        verifyEmail,
+        resendVerificationEmail,
+        beginMfaEnrollment,
+        confirmMfaEnrollment,
+        disableMfa,
+        changePassword,
+        linkOAuthProvider,
+        unlinkOAuthProvider,
+        reauthenticateWithOAuth,
+        updateNotificationPreferences,
+        deleteAccount,
       }}
     >
       {children}
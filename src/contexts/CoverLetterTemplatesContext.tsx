@@ -0,0 +1,104 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { CoverLetterTemplate, CoverLetterTemplateInput } from '../types/coverLetter';
+import { CoverLetterTemplateService } from '../services/coverLetterTemplateService';
+import { roleHasPermission } from '../utils/permissions';
+import { useAuth } from './AuthContext';
+
+interface CoverLetterTemplatesContextType {
+  /** The signed-in candidate's templates, most recently updated first */
+  templates: CoverLetterTemplate[];
+  isLoading: boolean;
+  createTemplate: (template: CoverLetterTemplateInput) => Promise<CoverLetterTemplate>;
+  updateTemplate: (templateId: string, template: CoverLetterTemplateInput) => Promise<CoverLetterTemplate>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+}
+
+const CoverLetterTemplatesContext = createContext<CoverLetterTemplatesContextType | undefined>(undefined);
+
+interface CoverLetterTemplatesProviderProps {
+  service: CoverLetterTemplateService;
+  children: ReactNode;
+}
+
+export const CoverLetterTemplatesProvider: React.FC<CoverLetterTemplatesProviderProps> = ({ service, children }) => {
+  const { user, token } = useAuth();
+  const [templates, setTemplates] = useState<CoverLetterTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Token refreshes should not refetch the templates, so read the latest one through a ref
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  const userId = user?.id ?? null;
+  const canApply = user ? roleHasPermission(user.role, 'application:create') : false;
+
+  useEffect(() => {
+    setTemplates([]);
+    if (!userId || !canApply || !tokenRef.current) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsLoading(true);
+    service
+      .listTemplates(tokenRef.current)
+      .then(loaded => {
+        if (isCurrent) setTemplates(loaded);
+      })
+      .catch(error => console.error('Cover letter templates load failed:', error))
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [service, userId, canApply]);
+
+  const requireToken = useCallback(() => {
+    if (!tokenRef.current) {
+      throw new Error('You must be signed in to do that');
+    }
+    return tokenRef.current;
+  }, []);
+
+  const createTemplate = useCallback(
+    async (input: CoverLetterTemplateInput) => {
+      const created = await service.createTemplate(requireToken(), input);
+      setTemplates(prev => [created, ...prev]);
+      return created;
+    },
+    [service, requireToken]
+  );
+
+  const updateTemplate = useCallback(
+    async (templateId: string, input: CoverLetterTemplateInput) => {
+      const updated = await service.updateTemplate(requireToken(), templateId, input);
+      setTemplates(prev => [updated, ...prev.filter(t => t.id !== templateId)]);
+      return updated;
+    },
+    [service, requireToken]
+  );
+
+  const deleteTemplate = useCallback(
+    async (templateId: string) => {
+      await service.deleteTemplate(requireToken(), templateId);
+      setTemplates(prev => prev.filter(t => t.id !== templateId));
+    },
+    [service, requireToken]
+  );
+
+  return (
+    <CoverLetterTemplatesContext.Provider value={{ templates, isLoading, createTemplate, updateTemplate, deleteTemplate }}>
+      {children}
+    </CoverLetterTemplatesContext.Provider>
+  );
+};
+
+export const useCoverLetterTemplates = () => {
+  const context = useContext(CoverLetterTemplatesContext);
+  if (context === undefined) {
+    throw new Error('useCoverLetterTemplates must be used within a CoverLetterTemplatesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,160 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { ApplicationDraft } from '../types/application';
+import { DraftService } from '../services/draftService';
+import { DraftStore } from '../services/draftStore';
+import { roleHasPermission } from '../utils/permissions';
+import { useAuth } from './AuthContext';
+
+interface DraftsContextType {
+  /** The signed-in candidate's unsubmitted applications, most recently saved first */
+  drafts: ApplicationDraft[];
+  isLoading: boolean;
+  /** Saves locally right away and to the server when it can be reached. */
+  saveDraft: (draft: Omit<ApplicationDraft, 'savedAt'>) => Promise<ApplicationDraft>;
+  deleteDraft: (jobId: string) => Promise<void>;
+}
+
+const DraftsContext = createContext<DraftsContextType | undefined>(undefined);
+
+interface DraftsProviderProps {
+  service: DraftService;
+  store: DraftStore;
+  children: ReactNode;
+}
+
+const newestFirst = (a: ApplicationDraft, b: ApplicationDraft) => b.savedAt.localeCompare(a.savedAt);
+
+/** Keeps drafts in this browser and mirrors them to the server, the newer copy winning on sync. */
+export const DraftsProvider: React.FC<DraftsProviderProps> = ({ service, store, children }) => {
+  const { user, token } = useAuth();
+  const [drafts, setDrafts] = useState<ApplicationDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Token refreshes should not resync drafts, so read the latest one through a ref
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+  // Uploads still on their way to the server, by job; a delete sent ahead of one would be undone by it
+  const pendingUploadsRef = useRef(new Map<string, Promise<unknown>>());
+
+  const trackUpload = useCallback((jobId: string, upload: Promise<unknown>) => {
+    const pending = pendingUploadsRef.current;
+    const settled = Promise.all([pending.get(jobId), upload]).catch(() => undefined);
+    pending.set(jobId, settled);
+    settled.then(() => {
+      if (pending.get(jobId) === settled) pending.delete(jobId);
+    });
+  }, []);
+
+  const userId = user?.id ?? null;
+  const canApply = user ? roleHasPermission(user.role, 'application:create') : false;
+
+  // Either side may be unreachable: the server while offline, IndexedDB in some private windows
+  const syncDrafts = useCallback(async () => {
+    if (!userId || !tokenRef.current) return;
+    const token = tokenRef.current;
+    const [local, remote] = await Promise.all([
+      store.list(userId).catch(error => {
+        console.error('Local drafts unavailable:', error);
+        return [];
+      }),
+      service.listDrafts(token).catch(error => {
+        console.error('Draft sync failed:', error);
+        return null;
+      }),
+    ]);
+
+    const merged = new Map<string, ApplicationDraft>();
+    for (const draft of [...local, ...(remote ?? [])]) {
+      const existing = merged.get(draft.jobId);
+      if (!existing || draft.savedAt > existing.savedAt) merged.set(draft.jobId, draft);
+    }
+
+    for (const draft of merged.values()) {
+      if (!local.some(d => d.jobId === draft.jobId && d.savedAt === draft.savedAt)) {
+        store.put(userId, draft).catch(error => console.error('Local draft save failed:', error));
+      }
+      if (remote && !remote.some(d => d.jobId === draft.jobId && d.savedAt === draft.savedAt)) {
+        const upload = service.saveDraft(token, draft);
+        trackUpload(draft.jobId, upload);
+        upload.catch(error => console.error('Draft sync failed:', error));
+      }
+    }
+
+    setDrafts([...merged.values()].sort(newestFirst));
+  }, [service, store, userId, trackUpload]);
+
+  useEffect(() => {
+    setDrafts([]);
+    if (!userId || !canApply) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    syncDrafts().finally(() => setIsLoading(false));
+
+    // Drafts saved while offline only reached this browser; send them up once we're back
+    const handleOnline = () => {
+      syncDrafts();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [userId, canApply, syncDrafts]);
+
+  const saveDraft = useCallback(
+    async (input: Omit<ApplicationDraft, 'savedAt'>) => {
+      if (!userId || !tokenRef.current) {
+        throw new Error('You must be signed in to do that');
+      }
+      const draft: ApplicationDraft = { ...input, savedAt: new Date().toISOString() };
+
+      let isStored = false;
+      try {
+        await store.put(userId, draft);
+        isStored = true;
+      } catch (error) {
+        console.error('Local draft save failed:', error);
+      }
+      // Without a local copy the draft is only safe once the server has it
+      const upload = service.saveDraft(tokenRef.current, draft);
+      trackUpload(draft.jobId, upload);
+      if (isStored) {
+        upload.catch(error => console.error('Draft sync failed:', error));
+      } else {
+        await upload;
+      }
+
+      setDrafts(prev => [draft, ...prev.filter(d => d.jobId !== draft.jobId)]);
+      return draft;
+    },
+    [service, store, userId, trackUpload]
+  );
+
+  const deleteDraft = useCallback(
+    async (jobId: string) => {
+      const token = tokenRef.current;
+      if (!userId || !token) return;
+      setDrafts(prev => prev.filter(d => d.jobId !== jobId));
+      const deleteRemote = async () => {
+        await pendingUploadsRef.current.get(jobId);
+        await service.deleteDraft(token, jobId);
+      };
+      await Promise.all([
+        store.remove(userId, jobId).catch(error => console.error('Local draft delete failed:', error)),
+        deleteRemote().catch(error => console.error('Draft delete failed:', error)),
+      ]);
+    },
+    [service, store, userId]
+  );
+
+  return (
+    <DraftsContext.Provider value={{ drafts, isLoading, saveDraft, deleteDraft }}>{children}</DraftsContext.Provider>
+  );
+};
+
+export const useDrafts = () => {
+  const context = useContext(DraftsContext);
+  if (context === undefined) {
+    throw new Error('useDrafts must be used within a DraftsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,54 @@
+import React, { createContext, useCallback, useContext, useRef, ReactNode } from 'react';
+import { Job, JobSearchQuery, JobSearchResult } from '../types/job';
+import { JobService } from '../services/jobService';
+import { useAuth } from './AuthContext';
+
+interface JobsContextType {
+  listJobs: () => Promise<Job[]>;
+  searchJobs: (query: JobSearchQuery) => Promise<JobSearchResult>;
+  getJob: (jobId: string) => Promise<Job>;
+}
+
+const JobsContext = createContext<JobsContextType | undefined>(undefined);
+
+interface JobsProviderProps {
+  service: JobService;
+  children: ReactNode;
+}
+
+/** Gives pages the job catalog with the current session's token already applied. */
+export const JobsProvider: React.FC<JobsProviderProps> = ({ service, children }) => {
+  const { token } = useAuth();
+  // Keep the callbacks stable across token refreshes so effects that load jobs don't re-run
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  const requireToken = useCallback(() => {
+    if (!tokenRef.current) {
+      throw new Error('You must be signed in to do that');
+    }
+    return tokenRef.current;
+  }, []);
+
+  const listJobs = useCallback(async () => service.listJobs(requireToken()), [service, requireToken]);
+
+  const searchJobs = useCallback(
+    async (query: JobSearchQuery) => service.searchJobs(requireToken(), query),
+    [service, requireToken]
+  );
+
+  const getJob = useCallback(
+    async (jobId: string) => service.getJob(requireToken(), jobId),
+    [service, requireToken]
+  );
+
+  return <JobsContext.Provider value={{ listJobs, searchJobs, getJob }}>{children}</JobsContext.Provider>;
+};
+
+export const useJobs = () => {
+  const context = useContext(JobsContext);
+  if (context === undefined) {
+    throw new Error('useJobs must be used within a JobsProvider');
+  }
+  return context;
+};
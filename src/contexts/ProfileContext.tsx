@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { CandidateProfile, CandidateProfileInput } from '../types/profile';
+import { ProfileService } from '../services/profileService';
+import { isApiError } from '../services/http';
+import { useAuth } from './AuthContext';
+
+interface ProfileContextType {
+  /** The signed-in candidate's saved profile; null until one is saved */
+  profile: CandidateProfile | null;
+  isLoading: boolean;
+  loadError: string | null;
+  saveProfile: (profile: CandidateProfileInput) => Promise<CandidateProfile>;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+interface ProfileProviderProps {
+  service: ProfileService;
+  children: ReactNode;
+}
+
+export const ProfileProvider: React.FC<ProfileProviderProps> = ({ service, children }) => {
+  const { user, token } = useAuth();
+  const [profile, setProfile] = useState<CandidateProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Token refreshes should not refetch the profile, so read the latest one through a ref
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    setProfile(null);
+    setLoadError(null);
+    if (!userId || !tokenRef.current) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsLoading(true);
+    service
+      .getProfile(tokenRef.current)
+      .then(loaded => {
+        if (isCurrent) setProfile(loaded);
+      })
+      .catch(error => {
+        console.error('Profile load failed:', error);
+        if (isCurrent) setLoadError(isApiError(error) ? error.message : 'Unable to load your profile');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [service, userId]);
+
+  const saveProfile = async (input: CandidateProfileInput) => {
+    if (!tokenRef.current) {
+      throw new Error('You must be signed in to do that');
+    }
+    const saved = await service.saveProfile(tokenRef.current, input);
+    setProfile(saved);
+    setLoadError(null);
+    return saved;
+  };
+
+  return (
+    <ProfileContext.Provider value={{ profile, isLoading, loadError, saveProfile }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+export const useProfile = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,15 @@
+import { useAuth } from '../contexts/AuthContext';
+import { UserRole } from '../types/auth';
+import { Permission, roleHasPermission } from '../utils/permissions';
+
+/** Role and permission checks for hiding actions the signed-in user cannot take. */
+export const useAuthorization = () => {
+  const { user } = useAuth();
+  const role = user?.role ?? null;
+
+  const hasRole = (...roles: UserRole[]) => role !== null && roles.includes(role);
+
+  const can = (permission: Permission) => role !== null && roleHasPermission(role, permission);
+
+  return { role, hasRole, can };
+};
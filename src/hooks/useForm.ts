@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AsyncValidator, Validator } from '../utils/validation';
+
+type FieldName<Values> = Extract<keyof Values, string>;
+
+export type FieldErrors<Values> = Partial<Record<FieldName<Values>, string>>;
+
+export type FieldFlags<Values> = Partial<Record<FieldName<Values>, boolean>>;
+
+export interface FieldRules<Values, Name extends keyof Values> {
+  /** Run in order; the first error wins */
+  validators?: Validator<Values[Name], Values>[];
+  /** Run once the validators pass and typing pauses, and again before submitting */
+  asyncValidator?: AsyncValidator<Values[Name], Values>;
+}
+
+export interface UseFormOptions<Values> {
+  initialValues: Values;
+  fields?: { [Name in FieldName<Values>]?: FieldRules<Values, Name> };
+  /** Errors from rules that span the whole form, such as a form schema's, checked after the field validators */
+  validate?: (values: Values) => FieldErrors<Values>;
+  /** How long typing has to pause before an async validator runs */
+  asyncDelayMs?: number;
+  /**
+   * Called with the values once every check passes; the form is `isSubmitting` until it settles.
+   * It should handle its own errors, e.g. with `setFieldError`.
+   */
+  onSubmit: (values: Values) => Promise<void> | void;
+  /** Called instead of `onSubmit` when a check fails, e.g. to show the step with the first error */
+  onInvalid?: (errors: FieldErrors<Values>) => void;
+}
+
+/** The last async result per field, so leaving and submitting don't ask again about the same value */
+interface AsyncResult {
+  value: unknown;
+  error: string | undefined;
+}
+
+const DEFAULT_ASYNC_DELAY_MS = 500;
+
+// Form values are plain data, so comparing their JSON is enough to tell whether a field changed
+const isSameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const hasErrors = (errors: Record<string, string | undefined>) => Object.values(errors).some(Boolean);
+
+/**
+ * Form state with validation: fields are checked when left and on submit, errors clear as the field is
+ * edited, and async checks run once typing pauses. Tracks touched and dirty fields and the submission.
+ */
+export const useForm = <Values extends object>({
+  initialValues,
+  fields = {},
+  validate,
+  asyncDelayMs = DEFAULT_ASYNC_DELAY_MS,
+  onSubmit,
+  onInvalid,
+}: UseFormOptions<Values>) => {
+  const [initial, setInitial] = useState(initialValues);
+  const [values, setValuesState] = useState(initialValues);
+  const [syncErrors, setSyncErrors] = useState<FieldErrors<Values>>({});
+  const [asyncErrors, setAsyncErrors] = useState<FieldErrors<Values>>({});
+  const [touched, setTouched] = useState<FieldFlags<Values>>({});
+  const [validating, setValidating] = useState<FieldFlags<Values>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitCount, setSubmitCount] = useState(0);
+
+  // Several changes can land before a render, and timers need the latest values, so the ref leads the state
+  const valuesRef = useRef(initialValues);
+  const timersRef = useRef<Partial<Record<string, ReturnType<typeof setTimeout>>>>({});
+  const controllersRef = useRef<Partial<Record<string, AbortController>>>({});
+  const asyncResultsRef = useRef<Partial<Record<string, AsyncResult>>>({});
+  const isSubmittingRef = useRef(false);
+
+  useEffect(
+    () => () => {
+      Object.values(timersRef.current).forEach(timer => clearTimeout(timer));
+      Object.values(controllersRef.current).forEach(controller => controller?.abort());
+    },
+    []
+  );
+
+  const names = (): FieldName<Values>[] =>
+    Array.from(new Set([...Object.keys(valuesRef.current), ...Object.keys(fields)])) as FieldName<Values>[];
+
+  const fieldError = (name: FieldName<Values>, current: Values): string | undefined => {
+    for (const validator of fields[name]?.validators ?? []) {
+      const error = validator(current[name], current);
+      if (error) return error;
+    }
+    return validate?.(current)[name];
+  };
+
+  const collectErrors = (fieldNames: FieldName<Values>[], current: Values): FieldErrors<Values> => {
+    const formErrors: FieldErrors<Values> = validate?.(current) ?? {};
+    const errors: FieldErrors<Values> = {};
+    for (const name of fieldNames) {
+      const validatorError = (fields[name]?.validators ?? []).map(v => v(current[name], current)).find(Boolean);
+      const error = validatorError ?? formErrors[name];
+      if (error) errors[name] = error;
+    }
+    return errors;
+  };
+
+  const setFlag = (setter: typeof setTouched, fieldNames: FieldName<Values>[], flag: boolean) =>
+    setter(prev => ({ ...prev, ...Object.fromEntries(fieldNames.map(name => [name, flag])) }));
+
+  const cancelAsync = (name: FieldName<Values>) => {
+    clearTimeout(timersRef.current[name]);
+    delete timersRef.current[name];
+    controllersRef.current[name]?.abort();
+    delete controllersRef.current[name];
+  };
+
+  /** Runs the field's async validator now; resolves with its error, or undefined if the value changed meanwhile. */
+  const runAsync = async (name: FieldName<Values>, current: Values): Promise<string | undefined> => {
+    const asyncValidator = fields[name]?.asyncValidator;
+    if (!asyncValidator) return undefined;
+    const value = current[name];
+    const cached = asyncResultsRef.current[name];
+    if (cached && isSameValue(cached.value, value)) {
+      setFlag(setValidating, [name], false);
+      setAsyncErrors(prev => ({ ...prev, [name]: cached.error }));
+      return cached.error;
+    }
+
+    cancelAsync(name);
+    const controller = new AbortController();
+    controllersRef.current[name] = controller;
+    setFlag(setValidating, [name], true);
+    try {
+      const error = await asyncValidator(value, current, controller.signal);
+      if (controller.signal.aborted) return undefined;
+      asyncResultsRef.current[name] = { value, error };
+      setAsyncErrors(prev => ({ ...prev, [name]: error }));
+      return error;
+    } catch (error) {
+      // A check that can't be made doesn't block the form; the server still has the final say
+      if (!controller.signal.aborted) console.error(`Checking ${name} failed:`, error);
+      return undefined;
+    } finally {
+      if (controllersRef.current[name] === controller) {
+        delete controllersRef.current[name];
+        setFlag(setValidating, [name], false);
+      }
+    }
+  };
+
+  const setValue = <Name extends FieldName<Values>>(name: Name, value: Values[Name]) => {
+    const next = { ...valuesRef.current, [name]: value };
+    valuesRef.current = next;
+    setValuesState(next);
+    // Errors go while the field is edited and come back when it is left
+    setSyncErrors(prev => (prev[name] ? { ...prev, [name]: undefined } : prev));
+    setAsyncErrors(prev => (prev[name] ? { ...prev, [name]: undefined } : prev));
+
+    if (!fields[name]?.asyncValidator) return;
+    cancelAsync(name);
+    // Values that fail the quick checks are not worth asking about
+    const isWorthChecking = !fieldError(name, next);
+    setFlag(setValidating, [name], isWorthChecking);
+    if (!isWorthChecking) return;
+    timersRef.current[name] = setTimeout(() => {
+      delete timersRef.current[name];
+      runAsync(name, valuesRef.current);
+    }, asyncDelayMs);
+  };
+
+  /** Marks the field touched and checks it, including its async validator if the quick checks pass. */
+  const blurField = (name: FieldName<Values>) => {
+    setFlag(setTouched, [name], true);
+    const error = fieldError(name, valuesRef.current);
+    setSyncErrors(prev => ({ ...prev, [name]: error }));
+    if (!error && fields[name]?.asyncValidator) runAsync(name, valuesRef.current);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+    setValue(e.target.name as FieldName<Values>, e.target.value as Values[FieldName<Values>]);
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+    blurField(e.target.name as FieldName<Values>);
+
+  /** Checks just these fields, e.g. one step of a wizard, and shows their errors; true when they all pass. */
+  const validateFields = (fieldNames: FieldName<Values>[]): boolean => {
+    const errors = collectErrors(fieldNames, valuesRef.current);
+    setFlag(setTouched, fieldNames, true);
+    setSyncErrors(prev => ({ ...prev, ...Object.fromEntries(fieldNames.map(name => [name, errors[name]])) }));
+    return !hasErrors(errors);
+  };
+
+  /** Server-side errors, such as rejected credentials, shown like any other. */
+  const setFieldError = (name: FieldName<Values>, message: string | undefined) =>
+    setSyncErrors(prev => ({ ...prev, [name]: message }));
+
+  /** Starts over from `nextValues`, which also become what dirty fields are compared with. */
+  const reset = (nextValues: Values = initial) => {
+    names().forEach(cancelAsync);
+    asyncResultsRef.current = {};
+    valuesRef.current = nextValues;
+    setInitial(nextValues);
+    setValuesState(nextValues);
+    setSyncErrors({});
+    setAsyncErrors({});
+    setTouched({});
+    setValidating({});
+    setSubmitCount(0);
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (isSubmittingRef.current) return;
+    const current = valuesRef.current;
+    const fieldNames = names();
+    setSubmitCount(count => count + 1);
+    setFlag(setTouched, fieldNames, true);
+
+    const errors = collectErrors(fieldNames, current);
+    setSyncErrors(errors);
+    if (hasErrors(errors)) {
+      onInvalid?.(errors);
+      return;
+    }
+
+    isSubmittingRef.current = true;
+    setIsSubmitting(true);
+    try {
+      const checked = fieldNames.filter(name => fields[name]?.asyncValidator);
+      const results = await Promise.all(checked.map(name => runAsync(name, current)));
+      const asyncFailures = Object.fromEntries(
+        checked.flatMap((name, index) => (results[index] ? [[name, results[index]]] : []))
+      ) as FieldErrors<Values>;
+      if (hasErrors(asyncFailures)) {
+        onInvalid?.(asyncFailures);
+        return;
+      }
+      await onSubmit(current);
+    } finally {
+      isSubmittingRef.current = false;
+      setIsSubmitting(false);
+    }
+  };
+
+  const errors: FieldErrors<Values> = { ...asyncErrors };
+  for (const [name, error] of Object.entries(syncErrors)) {
+    if (error) errors[name as FieldName<Values>] = error as string;
+  }
+  const dirty = Object.fromEntries(
+    names().map(name => [name, !isSameValue(values[name], initial[name])])
+  ) as FieldFlags<Values>;
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty: Object.values(dirty).some(Boolean),
+    /** Fields whose async validator is waiting or running */
+    validating,
+    isValidating: Object.values(validating).some(Boolean),
+    isSubmitting,
+    submitCount,
+    setValue,
+    handleChange,
+    handleBlur,
+    blurField,
+    validateFields,
+    setFieldError,
+    reset,
+    handleSubmit,
+  };
+};
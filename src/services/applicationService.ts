@@ -0,0 +1,192 @@
+import {
+  ApplicationAnswers,
+  ApplicationDeclaration,
+  ApplicationRevision,
+  ApplicationStatus,
+  ApplicationStatusChange,
+  ApplicationSubmission,
+  APPLICATION_STATUSES,
+  CustomAnswer,
+  JobApplication,
+} from '../types/application';
+import { FormValue } from '../types/formSchema';
+import { ScreeningOutcome, ScreeningResult } from '../types/screening';
+import { ApiError } from './http';
+import { parseScreeningRule } from './jobService';
+import { parseResumeFile } from './resumeService';
+import { isEducationEntry, isWorkHistoryEntry, parseEducation, parseWorkHistory } from '../utils/career';
+import { isFileAnswer } from '../utils/formSchema';
+import { parseSkillEntries } from '../utils/skills';
+import { isRecord } from '../utils/guards';
+
+export interface ApplicationService {
+  /** Rejects with `validation_failed` when the job is closed or already has an active application. */
+  submitApplication: (token: string, submission: ApplicationSubmission) => Promise<JobApplication>;
+  /** The signed-in candidate's applications, newest first. */
+  listMyApplications: (token: string) => Promise<JobApplication[]>;
+  /**
+   * Saves new answers as a revision, with the declaration the candidate confirmed again, and screens them
+   * afresh; rejects with `validation_failed` once review has started.
+   */
+  amendApplication: (
+    token: string,
+    applicationId: string,
+    answers: ApplicationAnswers,
+    declaration?: string | null
+  ) => Promise<JobApplication>;
+  /** Rejects with `validation_failed` once the application has reached an offer or a final status. */
+  withdrawApplication: (token: string, applicationId: string, reason?: string) => Promise<JobApplication>;
+  /** Every candidate's applications, newest first; requires the `application:review` permission. */
+  listApplicationsForReview: (token: string) => Promise<JobApplication[]>;
+}
+
+const isApplicationStatus = (value: unknown): value is ApplicationStatus =>
+  APPLICATION_STATUSES.includes(value as ApplicationStatus);
+
+export const parseFormValue = (value: unknown): FormValue => {
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  // Skills, work-history and education fields hold entries; multi-selects hold their chosen options
+  if (Array.isArray(value)) {
+    if (value.some(isWorkHistoryEntry)) return parseWorkHistory(value);
+    if (value.some(isEducationEntry)) return parseEducation(value);
+    return value.some(isRecord) ? parseSkillEntries(value) : value.filter((v): v is string => typeof v === 'string');
+  }
+  return isFileAnswer(value) ? { fileName: value.fileName, mimeType: value.mimeType, size: value.size } : null;
+};
+
+const parseCustomAnswer = (value: unknown): CustomAnswer | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.label !== 'string') return null;
+  return {
+    name: value.name,
+    label: value.label,
+    value: parseFormValue(value.value),
+    displayValue: typeof value.displayValue === 'string' ? value.displayValue : '',
+  };
+};
+
+const parseAnswers = (value: unknown): ApplicationAnswers => {
+  const answers = isRecord(value) ? value : {};
+  const text = (key: string) => (typeof answers[key] === 'string' ? (answers[key] as string) : '');
+  return {
+    fullName: text('fullName'),
+    email: text('email'),
+    phone: text('phone'),
+    experience: text('experience'),
+    employmentStatus: answers.employmentStatus === 'yes' || answers.employmentStatus === 'no' ? answers.employmentStatus : '',
+    currentCompany: text('currentCompany'),
+    skills: parseSkillEntries(answers.skills),
+    // Answers saved before work history and education were asked for have neither
+    workHistory: parseWorkHistory(answers.workHistory),
+    education: parseEducation(answers.education),
+    coverLetter: text('coverLetter'),
+    // Answers saved before jobs had their own questions have none
+    customAnswers: Array.isArray(answers.customAnswers)
+      ? answers.customAnswers.map(parseCustomAnswer).filter((a): a is CustomAnswer => a !== null)
+      : [],
+  };
+};
+
+const parseDeclaration = (value: unknown): ApplicationDeclaration | null =>
+  isRecord(value) && typeof value.text === 'string' && typeof value.acceptedAt === 'string'
+    ? { text: value.text, acceptedAt: value.acceptedAt }
+    : null;
+
+const parseRevision = (value: unknown): ApplicationRevision | null => {
+  if (!isRecord(value) || typeof value.revision !== 'number' || typeof value.savedAt !== 'string') return null;
+  return {
+    revision: value.revision,
+    answers: parseAnswers(value.answers),
+    savedAt: value.savedAt,
+    declaration: parseDeclaration(value.declaration),
+  };
+};
+
+const parseScreeningOutcome = (value: unknown): ScreeningOutcome | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.label !== 'string') return null;
+  const rule = parseScreeningRule(value.rule);
+  if (!rule) return null;
+  return {
+    name: value.name,
+    label: value.label,
+    answer: typeof value.answer === 'string' ? value.answer : '',
+    expectedAnswer: typeof value.expectedAnswer === 'string' ? value.expectedAnswer : '',
+    rule,
+    passed: value.passed === true,
+  };
+};
+
+const parseScreeningResult = (value: unknown): ScreeningResult | null => {
+  if (!isRecord(value) || !Array.isArray(value.outcomes) || typeof value.evaluatedAt !== 'string') return null;
+  return {
+    outcomes: value.outcomes.map(parseScreeningOutcome).filter((o): o is ScreeningOutcome => o !== null),
+    score: typeof value.score === 'number' ? value.score : null,
+    knockedOut: value.knockedOut === true,
+    flagged: value.flagged === true,
+    evaluatedAt: value.evaluatedAt,
+  };
+};
+
+/** Stands in for applications stored before reference numbers were issued: the date and the id's last characters. */
+const fallbackReferenceNumber = (id: string, submittedAt: string) =>
+  `JA-${submittedAt.slice(0, 10).replace(/-/g, '')}-${id.replace(/[^a-z0-9]/gi, '').slice(-6).toUpperCase()}`;
+
+const parseStatusChange = (value: unknown): ApplicationStatusChange | null => {
+  if (!isRecord(value) || !isApplicationStatus(value.status) || typeof value.changedAt !== 'string') return null;
+  return {
+    status: value.status,
+    changedAt: value.changedAt,
+    note: typeof value.note === 'string' ? value.note : undefined,
+  };
+};
+
+export const parseJobApplication = (value: unknown): JobApplication => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.jobId !== 'string' ||
+    typeof value.candidateId !== 'string' ||
+    !isApplicationStatus(value.status) ||
+    typeof value.submittedAt !== 'string'
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid application');
+  }
+
+  const answers = parseAnswers(value.answers);
+  const revisions = Array.isArray(value.revisions)
+    ? value.revisions.map(parseRevision).filter((revision): revision is ApplicationRevision => revision !== null)
+    : [];
+  const statusHistory = Array.isArray(value.statusHistory)
+    ? value.statusHistory.map(parseStatusChange).filter((change): change is ApplicationStatusChange => change !== null)
+    : [];
+
+  return {
+    id: value.id,
+    referenceNumber:
+      typeof value.referenceNumber === 'string' && value.referenceNumber
+        ? value.referenceNumber
+        : fallbackReferenceNumber(value.id, value.submittedAt),
+    jobId: value.jobId,
+    candidateId: value.candidateId,
+    jobTitle: typeof value.jobTitle === 'string' ? value.jobTitle : 'Untitled position',
+    company: typeof value.company === 'string' ? value.company : '',
+    answers,
+    // Applications stored before amendments existed have only their original answers
+    revisions:
+      revisions.length > 0 ? revisions : [{ revision: 1, answers, savedAt: value.submittedAt, declaration: null }],
+    status: value.status,
+    submittedAt: value.submittedAt,
+    // Always show at least the submission on the timeline
+    statusHistory: statusHistory.length > 0 ? statusHistory : [{ status: 'submitted', changedAt: value.submittedAt }],
+    withdrawalReason: typeof value.withdrawalReason === 'string' ? value.withdrawalReason : undefined,
+    resume: parseResumeFile(value.resume),
+    // Applications submitted before jobs screened applicants, and every candidate's own view, have none
+    screening: parseScreeningResult(value.screening),
+  };
+};
+
+export const parseJobApplicationList = (value: unknown): JobApplication[] => {
+  if (!Array.isArray(value)) {
+    throw new ApiError('invalid_response', 'The server returned an invalid application list');
+  }
+  return value.map(parseJobApplication);
+};
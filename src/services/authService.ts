@@ -0,0 +1,131 @@
+import {
+  User,
+  UserRole,
+  LoginCredentials,
+  SignupCredentials,
+  AuthResponse,
+  LoginResponse,
+  MfaEnrollment,
+  MfaEnrollmentResult,
+  MfaChallenge,
+  NotificationPreferences,
+  OAuthProviderId,
+  ReauthCredentials,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  OAUTH_PROVIDERS,
+  USER_ROLES,
+} from '../types/auth';
+import { ApiError } from './http';
+import { isRecord } from '../utils/guards';
+
+export interface AuthService {
+  /** Resolves with a session, or with an MFA challenge when the account has a second factor. */
+  login: (credentials: LoginCredentials) => Promise<LoginResponse>;
+  /** Completes an MFA challenge with a TOTP code or a one-time recovery code. */
+  verifyMfa: (mfaToken: string, code: string) => Promise<AuthResponse>;
+  signup: (credentials: SignupCredentials) => Promise<AuthResponse>;
+  /** Whether an account already uses this email, so signup can say so early; signup still rejects with `email_taken`. */
+  isEmailRegistered: (email: string) => Promise<boolean>;
+  /** Trades an identity provider's ID token for an application session. */
+  oauthLogin: (provider: OAuthProviderId, idToken: string) => Promise<AuthResponse>;
+  /** Exchanges a refresh token for a new session; the old refresh token is invalidated. */
+  refresh: (refreshToken: string) => Promise<AuthResponse>;
+  logout: (token: string) => Promise<void>;
+  me: (token: string) => Promise<User>;
+  /** Sends a reset link; resolves even for unknown emails so accounts cannot be enumerated. */
+  requestPasswordReset: (email: string) => Promise<void>;
+  /** Consumes a single-use reset token; rejects with `invalid_token` when it is unknown, used or expired. */
+  resetPassword: (token: string, password: string) => Promise<void>;
+  /** Consumes an email-verification token and returns the now verified user. */
+  verifyEmail: (verificationToken: string) => Promise<User>;
+  resendVerificationEmail: (token: string) => Promise<void>;
+  beginMfaEnrollment: (token: string) => Promise<MfaEnrollment>;
+  /** Activates MFA once the user proves their authenticator works; returns fresh recovery codes. */
+  confirmMfaEnrollment: (token: string, code: string) => Promise<MfaEnrollmentResult>;
+  disableMfa: (token: string, code: string) => Promise<User>;
+  changePassword: (token: string, currentPassword: string, newPassword: string) => Promise<void>;
+  /** Lets another identity provider sign in to the current account. */
+  linkProvider: (token: string, provider: OAuthProviderId, idToken: string) => Promise<User>;
+  unlinkProvider: (token: string, provider: OAuthProviderId) => Promise<User>;
+  updateNotificationPreferences: (token: string, preferences: NotificationPreferences) => Promise<User>;
+  deleteAccount: (token: string, credentials: ReauthCredentials) => Promise<void>;
+}
+
+const parseNotificationPreferences = (value: unknown): NotificationPreferences => {
+  const preferences = isRecord(value) ? value : {};
+  const flag = (key: keyof NotificationPreferences) =>
+    typeof preferences[key] === 'boolean' ? (preferences[key] as boolean) : DEFAULT_NOTIFICATION_PREFERENCES[key];
+  return {
+    applicationUpdates: flag('applicationUpdates'),
+    jobAlerts: flag('jobAlerts'),
+    productNews: flag('productNews'),
+  };
+};
+
+export const parseUser = (value: unknown): User => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.email !== 'string' ||
+    typeof value.name !== 'string' ||
+    (value.provider !== 'email' && !OAUTH_PROVIDERS.includes(value.provider as OAuthProviderId)) ||
+    typeof value.createdAt !== 'string'
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid user');
+  }
+
+  return {
+    id: value.id,
+    email: value.email,
+    emailVerified: value.emailVerified === true,
+    name: value.name,
+    avatar: typeof value.avatar === 'string' ? value.avatar : undefined,
+    provider: value.provider as User['provider'],
+    // Accounts created before roles existed are candidates
+    role: USER_ROLES.includes(value.role as UserRole) ? (value.role as UserRole) : 'candidate',
+    mfaEnabled: value.mfaEnabled === true,
+    linkedProviders: Array.isArray(value.linkedProviders)
+      ? value.linkedProviders.filter((p): p is OAuthProviderId => OAUTH_PROVIDERS.includes(p as OAuthProviderId))
+      : [],
+    notificationPreferences: parseNotificationPreferences(value.notificationPreferences),
+    createdAt: value.createdAt,
+  };
+};
+
+export const parseLoginResponse = (value: unknown): LoginResponse => {
+  if (isRecord(value) && value.status === 'mfa_required') {
+    if (typeof value.mfaToken !== 'string') {
+      throw new ApiError('invalid_response', 'The server returned an invalid MFA challenge');
+    }
+    return { status: 'mfa_required', mfaToken: value.mfaToken };
+  }
+  return parseAuthResponse(value);
+};
+
+export const isMfaChallenge = (response: LoginResponse): response is MfaChallenge =>
+  'status' in response && response.status === 'mfa_required';
+
+export const parseMfaEnrollment = (value: unknown): MfaEnrollment => {
+  if (!isRecord(value) || typeof value.secret !== 'string' || typeof value.otpauthUri !== 'string') {
+    throw new ApiError('invalid_response', 'The server returned an invalid MFA enrollment');
+  }
+  return { secret: value.secret, otpauthUri: value.otpauthUri };
+};
+
+export const parseMfaEnrollmentResult = (value: unknown): MfaEnrollmentResult => {
+  if (!isRecord(value) || !Array.isArray(value.recoveryCodes)) {
+    throw new ApiError('invalid_response', 'The server returned invalid recovery codes');
+  }
+  return { recoveryCodes: value.recoveryCodes.filter((code): code is string => typeof code === 'string') };
+};
+
+export const parseAuthResponse = (value: unknown): AuthResponse => {
+  if (!isRecord(value) || typeof value.token !== 'string') {
+    throw new ApiError('invalid_response', 'The server returned an invalid authentication response');
+  }
+  return {
+    user: parseUser(value.user),
+    token: value.token,
+    refreshToken: typeof value.refreshToken === 'string' ? value.refreshToken : undefined,
+  };
+};
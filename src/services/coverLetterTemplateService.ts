@@ -0,0 +1,35 @@
+import { CoverLetterTemplate, CoverLetterTemplateInput } from '../types/coverLetter';
+import { ApiError } from './http';
+import { isRecord } from '../utils/guards';
+
+/** The candidate's own cover letter templates, kept on their account. */
+export interface CoverLetterTemplateService {
+  /** The signed-in candidate's templates, most recently updated first. */
+  listTemplates: (token: string) => Promise<CoverLetterTemplate[]>;
+  /** Rejects with `validation_failed` when the name is blank or another template already has it. */
+  createTemplate: (token: string, template: CoverLetterTemplateInput) => Promise<CoverLetterTemplate>;
+  /** Rejects like `createTemplate`, and with `not_found` when there is no such template. */
+  updateTemplate: (token: string, templateId: string, template: CoverLetterTemplateInput) => Promise<CoverLetterTemplate>;
+  /** Succeeds even when there is no such template. */
+  deleteTemplate: (token: string, templateId: string) => Promise<void>;
+}
+
+export const parseCoverLetterTemplate = (value: unknown): CoverLetterTemplate => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.body !== 'string' ||
+    typeof value.updatedAt !== 'string'
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid cover letter template');
+  }
+  return { id: value.id, name: value.name, body: value.body, updatedAt: value.updatedAt };
+};
+
+export const parseCoverLetterTemplateList = (value: unknown): CoverLetterTemplate[] => {
+  if (!Array.isArray(value)) {
+    throw new ApiError('invalid_response', 'The server returned an invalid cover letter template list');
+  }
+  return value.map(parseCoverLetterTemplate);
+};
@@ -0,0 +1,49 @@
+import { ApplicationDraft } from '../types/application';
+import { FormValues } from '../types/formSchema';
+import { ApiError } from './http';
+import { parseFormValue } from './applicationService';
+import { parseResumeFile } from './resumeService';
+import { isRecord } from '../utils/guards';
+
+/** Server-side copies of application drafts, so they follow the candidate across devices. */
+export interface DraftService {
+  /** The signed-in candidate's drafts, in no particular order. */
+  listDrafts: (token: string) => Promise<ApplicationDraft[]>;
+  /** Creates or replaces the draft for the draft's job. */
+  saveDraft: (token: string, draft: ApplicationDraft) => Promise<ApplicationDraft>;
+  /** Succeeds even when there is no draft for the job. */
+  deleteDraft: (token: string, jobId: string) => Promise<void>;
+}
+
+export const parseApplicationDraft = (value: unknown): ApplicationDraft => {
+  if (
+    !isRecord(value) ||
+    typeof value.jobId !== 'string' ||
+    typeof value.savedAt !== 'string' ||
+    !isRecord(value.values)
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid draft');
+  }
+
+  const values: FormValues = {};
+  for (const [name, fieldValue] of Object.entries(value.values)) {
+    values[name] = parseFormValue(fieldValue);
+  }
+
+  return {
+    jobId: value.jobId,
+    jobTitle: typeof value.jobTitle === 'string' ? value.jobTitle : '',
+    company: typeof value.company === 'string' ? value.company : '',
+    values,
+    step: typeof value.step === 'string' ? value.step : null,
+    resume: parseResumeFile(value.resume),
+    savedAt: value.savedAt,
+  };
+};
+
+export const parseApplicationDraftList = (value: unknown): ApplicationDraft[] => {
+  if (!Array.isArray(value)) {
+    throw new ApiError('invalid_response', 'The server returned an invalid draft list');
+  }
+  return value.map(parseApplicationDraft);
+};
@@ -0,0 +1,69 @@
+import { ApplicationDraft } from '../types/application';
+import { parseApplicationDraft } from './draftService';
+
+/** Drafts kept in this browser, so they survive reloads and going offline. */
+export interface DraftStore {
+  list: (userId: string) => Promise<ApplicationDraft[]>;
+  /** Creates or replaces the user's draft for the draft's job. */
+  put: (userId: string, draft: ApplicationDraft) => Promise<void>;
+  remove: (userId: string, jobId: string) => Promise<void>;
+}
+
+const DATABASE_NAME = 'job-portal';
+const DATABASE_VERSION = 1;
+const DRAFTS_STORE = 'applicationDrafts';
+const USER_INDEX = 'userId';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(DRAFTS_STORE, { keyPath: ['userId', 'jobId'] });
+      store.createIndex(USER_INDEX, 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completed = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Keeps drafts in IndexedDB; rejects where IndexedDB is unavailable, e.g. some private windows. */
+export const createIndexedDbDraftStore = (): DraftStore => {
+  let database: Promise<IDBDatabase> | null = null;
+  // Open lazily and once; a failed open is retried on the next call
+  const objectStore = async (mode: IDBTransactionMode) => {
+    if (!database) {
+      database = openDatabase().catch(error => {
+        database = null;
+        throw error;
+      });
+    }
+    return (await database).transaction(DRAFTS_STORE, mode).objectStore(DRAFTS_STORE);
+  };
+
+  return {
+    list: async (userId: string) => {
+      const records = await completed((await objectStore('readonly')).index(USER_INDEX).getAll(userId));
+      return records.flatMap(record => {
+        try {
+          return [parseApplicationDraft(record)];
+        } catch {
+          // skip records written by an older version of the app
+          return [];
+        }
+      });
+    },
+
+    put: async (userId: string, draft: ApplicationDraft) => {
+      await completed((await objectStore('readwrite')).put({ ...draft, userId }));
+    },
+
+    remove: async (userId: string, jobId: string) => {
+      await completed((await objectStore('readwrite')).delete([userId, jobId]));
+    },
+  };
+};
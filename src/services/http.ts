@@ -0,0 +1,138 @@
+export type ApiErrorCode =
+  | 'invalid_credentials'
+  | 'email_taken'
+  | 'invalid_token'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation_failed'
+  | 'rate_limited'
+  | 'network_error'
+  | 'invalid_response'
+  | 'server_error'
+  | 'unknown';
+
+const knownCodes: ApiErrorCode[] = [
+  'invalid_credentials',
+  'email_taken',
+  'invalid_token',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'validation_failed',
+  'rate_limited',
+  'network_error',
+  'invalid_response',
+  'server_error',
+  'unknown',
+];
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+
+  constructor(code: ApiErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+const codeFromStatus = (status: number): ApiErrorCode => {
+  if (status === 400 || status === 422) return 'validation_failed';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'unknown';
+};
+
+// Backends may send { code, message } bodies; prefer their code when we recognise it
+const toApiError = (status: number, body: unknown): ApiError => {
+  const payload = (body && typeof body === 'object' ? body : {}) as { code?: unknown; message?: unknown };
+  const code = knownCodes.includes(payload.code as ApiErrorCode)
+    ? (payload.code as ApiErrorCode)
+    : codeFromStatus(status);
+  const message = typeof payload.message === 'string' ? payload.message : `Request failed with status ${status}`;
+  return new ApiError(code, message, status);
+};
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Sent as JSON, except files and other blobs, which are sent as they are under their own type */
+  body?: unknown;
+  token?: string | null;
+}
+
+export const createHttpClient = ({ baseUrl, fetch: fetchImpl = fetch }: HttpClientOptions) => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const send = async (path: string, { method = 'GET', body, token }: RequestOptions, accept: string) => {
+    const headers: Record<string, string> = { Accept: accept };
+    const isBlob = body instanceof Blob;
+    if (body !== undefined) headers['Content-Type'] = isBlob ? body.type || 'application/octet-stream' : 'application/json';
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    try {
+      return await fetchImpl(`${root}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : isBlob ? body : JSON.stringify(body),
+      });
+    } catch {
+      throw new ApiError('network_error', 'Unable to reach the server. Check your connection and try again.');
+    }
+  };
+
+  const request = async (path: string, options: RequestOptions = {}): Promise<unknown> => {
+    const response = await send(path, options, 'application/json');
+    const text = await response.text();
+    let data: unknown = null;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        if (response.ok) {
+          throw new ApiError('invalid_response', 'The server returned a malformed response', response.status);
+        }
+      }
+    }
+
+    if (!response.ok) {
+      throw toApiError(response.status, data);
+    }
+
+    return data;
+  };
+
+  /** Fetches a file, such as an uploaded document, rather than JSON. */
+  const download = async (path: string, options: RequestOptions = {}): Promise<Blob> => {
+    const response = await send(path, options, '*/*');
+    if (!response.ok) {
+      let data: unknown = null;
+      try {
+        data = JSON.parse(await response.text());
+      } catch {
+        // error bodies that aren't JSON just fall back to the status
+      }
+      throw toApiError(response.status, data);
+    }
+    return response.blob();
+  };
+
+  return { request, download };
+};
+
+export type HttpClient = ReturnType<typeof createHttpClient>;
@@ -0,0 +1,41 @@
+import { ApplicationAnswers, ApplicationSubmission } from '../types/application';
+import { ApplicationService, parseJobApplication, parseJobApplicationList } from './applicationService';
+import { createHttpClient, HttpClientOptions } from './http';
+
+export const createHttpApplicationService = (options: HttpClientOptions): ApplicationService => {
+  const { request } = createHttpClient(options);
+
+  return {
+    submitApplication: async (token: string, submission: ApplicationSubmission) =>
+      parseJobApplication(await request('/applications', { method: 'POST', body: submission, token })),
+
+    listMyApplications: async (token: string) =>
+      parseJobApplicationList(await request('/applications/mine', { token })),
+
+    amendApplication: async (
+      token: string,
+      applicationId: string,
+      answers: ApplicationAnswers,
+      declaration?: string | null
+    ) =>
+      parseJobApplication(
+        await request(`/applications/${encodeURIComponent(applicationId)}/revisions`, {
+          method: 'POST',
+          body: { answers, declaration },
+          token,
+        })
+      ),
+
+    withdrawApplication: async (token: string, applicationId: string, reason?: string) =>
+      parseJobApplication(
+        await request(`/applications/${encodeURIComponent(applicationId)}/withdraw`, {
+          method: 'POST',
+          body: { reason },
+          token,
+        })
+      ),
+
+    listApplicationsForReview: async (token: string) =>
+      parseJobApplicationList(await request('/applications', { token })),
+  };
+};
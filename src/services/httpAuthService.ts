@@ -0,0 +1,123 @@
+import {
+  LoginCredentials,
+  SignupCredentials,
+  OAuthProviderId,
+  NotificationPreferences,
+  ReauthCredentials,
+} from '../types/auth';
+import {
+  AuthService,
+  parseAuthResponse,
+  parseLoginResponse,
+  parseMfaEnrollment,
+  parseMfaEnrollmentResult,
+  parseUser,
+} from './authService';
+import { ApiError, createHttpClient, HttpClientOptions } from './http';
+import { isRecord } from '../utils/guards';
+
+export const createHttpAuthService = (options: HttpClientOptions): AuthService => {
+  const { request } = createHttpClient(options);
+
+  return {
+    login: async (credentials: LoginCredentials) => {
+      try {
+        return parseLoginResponse(await request('/auth/login', { method: 'POST', body: credentials }));
+      } catch (error) {
+        // A 401 on login means bad credentials, not an expired session
+        if (error instanceof ApiError && error.code === 'unauthorized') {
+          throw new ApiError('invalid_credentials', 'Invalid email or password', error.status);
+        }
+        throw error;
+      }
+    },
+
+    verifyMfa: async (mfaToken: string, code: string) =>
+      parseAuthResponse(await request('/auth/mfa/verify', { method: 'POST', body: { mfaToken, code } })),
+
+    signup: async ({ name, email, password }: SignupCredentials) => {
+      try {
+        return parseAuthResponse(await request('/auth/signup', { method: 'POST', body: { name, email, password } }));
+      } catch (error) {
+        // The only conflict signup has is an account that already uses the email
+        if (error instanceof ApiError && error.code === 'conflict') {
+          throw new ApiError('email_taken', 'An account with this email already exists', error.status);
+        }
+        throw error;
+      }
+    },
+
+    isEmailRegistered: async (email: string) => {
+      const status = await request(`/auth/signup/email-status?email=${encodeURIComponent(email)}`);
+      return isRecord(status) && status.registered === true;
+    },
+
+    oauthLogin: async (provider: OAuthProviderId, idToken: string) =>
+      parseAuthResponse(await request(`/auth/oauth/${provider}`, { method: 'POST', body: { idToken } })),
+
+    refresh: async (refreshToken: string) =>
+      parseAuthResponse(await request('/auth/refresh', { method: 'POST', body: { refreshToken } })),
+
+    logout: async (token: string) => {
+      await request('/auth/logout', { method: 'POST', token });
+    },
+
+    me: async (token: string) => parseUser(await request('/auth/me', { token })),
+
+    requestPasswordReset: async (email: string) => {
+      await request('/auth/password/forgot', { method: 'POST', body: { email } });
+    },
+
+    resetPassword: async (token: string, password: string) => {
+      await request('/auth/password/reset', { method: 'POST', body: { token, password } });
+    },
+
+    verifyEmail: async (verificationToken: string) =>
+      parseUser(await request('/auth/email/verify', { method: 'POST', body: { token: verificationToken } })),
+
+    resendVerificationEmail: async (token: string) => {
+      await request('/auth/email/resend', { method: 'POST', token });
+    },
+
+    beginMfaEnrollment: async (token: string) =>
+      parseMfaEnrollment(await request('/auth/mfa/enroll', { method: 'POST', token })),
+
+    confirmMfaEnrollment: async (token: string, code: string) =>
+      parseMfaEnrollmentResult(await request('/auth/mfa/enroll/confirm', { method: 'POST', token, body: { code } })),
+
+    disableMfa: async (token: string, code: string) =>
+      parseUser(await request('/auth/mfa/disable', { method: 'POST', token, body: { code } })),
+
+    changePassword: async (token: string, currentPassword: string, newPassword: string) => {
+      try {
+        await request('/auth/password/change', { method: 'POST', token, body: { currentPassword, newPassword } });
+      } catch (error) {
+        if (error instanceof ApiError && error.code === 'forbidden') {
+          throw new ApiError('invalid_credentials', 'Current password is incorrect', error.status);
+        }
+        throw error;
+      }
+    },
+
+    linkProvider: async (token: string, provider: OAuthProviderId, idToken: string) => {
+      try {
+        return parseUser(await request(`/auth/identities/${provider}`, { method: 'POST', token, body: { idToken } }));
+      } catch (error) {
+        if (error instanceof ApiError && error.code === 'conflict') {
+          throw new ApiError('email_taken', `That ${provider} account is already linked to another user`, error.status);
+        }
+        throw error;
+      }
+    },
+
+    unlinkProvider: async (token: string, provider: OAuthProviderId) =>
+      parseUser(await request(`/auth/identities/${provider}`, { method: 'DELETE', token })),
+
+    updateNotificationPreferences: async (token: string, preferences: NotificationPreferences) =>
+      parseUser(await request('/auth/me/notifications', { method: 'PUT', token, body: preferences })),
+
+    deleteAccount: async (token: string, credentials: ReauthCredentials) => {
+      await request('/auth/me', { method: 'DELETE', token, body: credentials });
+    },
+  };
+};
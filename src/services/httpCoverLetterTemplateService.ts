@@ -0,0 +1,32 @@
+import { CoverLetterTemplateInput } from '../types/coverLetter';
+import {
+  CoverLetterTemplateService,
+  parseCoverLetterTemplate,
+  parseCoverLetterTemplateList,
+} from './coverLetterTemplateService';
+import { createHttpClient, HttpClientOptions } from './http';
+
+export const createHttpCoverLetterTemplateService = (options: HttpClientOptions): CoverLetterTemplateService => {
+  const { request } = createHttpClient(options);
+
+  return {
+    listTemplates: async (token: string) =>
+      parseCoverLetterTemplateList(await request('/cover-letter-templates', { token })),
+
+    createTemplate: async (token: string, template: CoverLetterTemplateInput) =>
+      parseCoverLetterTemplate(await request('/cover-letter-templates', { method: 'POST', body: template, token })),
+
+    updateTemplate: async (token: string, templateId: string, template: CoverLetterTemplateInput) =>
+      parseCoverLetterTemplate(
+        await request(`/cover-letter-templates/${encodeURIComponent(templateId)}`, {
+          method: 'PUT',
+          body: template,
+          token,
+        })
+      ),
+
+    deleteTemplate: async (token: string, templateId: string) => {
+      await request(`/cover-letter-templates/${encodeURIComponent(templateId)}`, { method: 'DELETE', token });
+    },
+  };
+};
@@ -0,0 +1,20 @@
+import { ApplicationDraft } from '../types/application';
+import { DraftService, parseApplicationDraft, parseApplicationDraftList } from './draftService';
+import { createHttpClient, HttpClientOptions } from './http';
+
+export const createHttpDraftService = (options: HttpClientOptions): DraftService => {
+  const { request } = createHttpClient(options);
+
+  return {
+    listDrafts: async (token: string) => parseApplicationDraftList(await request('/applications/drafts', { token })),
+
+    saveDraft: async (token: string, draft: ApplicationDraft) =>
+      parseApplicationDraft(
+        await request(`/applications/drafts/${encodeURIComponent(draft.jobId)}`, { method: 'PUT', body: draft, token })
+      ),
+
+    deleteDraft: async (token: string, jobId: string) => {
+      await request(`/applications/drafts/${encodeURIComponent(jobId)}`, { method: 'DELETE', token });
+    },
+  };
+};
@@ -0,0 +1,19 @@
+import { JobSearchQuery } from '../types/job';
+import { JobService, parseJob, parseJobList, parseJobSearchResult } from './jobService';
+import { createHttpClient, HttpClientOptions } from './http';
+import { jobSearchQueryToParams } from '../utils/jobSearch';
+
+export const createHttpJobService = (options: HttpClientOptions): JobService => {
+  const { request } = createHttpClient(options);
+
+  return {
+    listJobs: async (token: string) => parseJobList(await request('/jobs', { token })),
+
+    // The search endpoint takes the same query string the jobs page keeps in its URL
+    searchJobs: async (token: string, query: JobSearchQuery) =>
+      parseJobSearchResult(await request(`/jobs/search?${jobSearchQueryToParams(query)}`, { token })),
+
+    getJob: async (token: string, jobId: string) =>
+      parseJob(await request(`/jobs/${encodeURIComponent(jobId)}`, { token })),
+  };
+};
@@ -0,0 +1,22 @@
+import { CandidateProfileInput } from '../types/profile';
+import { ProfileService, parseCandidateProfile } from './profileService';
+import { ApiError, createHttpClient, HttpClientOptions } from './http';
+
+export const createHttpProfileService = (options: HttpClientOptions): ProfileService => {
+  const { request } = createHttpClient(options);
+
+  return {
+    getProfile: async (token: string) => {
+      try {
+        return parseCandidateProfile(await request('/profile', { token }));
+      } catch (error) {
+        // Candidates start without a profile
+        if (error instanceof ApiError && error.code === 'not_found') return null;
+        throw error;
+      }
+    },
+
+    saveProfile: async (token: string, profile: CandidateProfileInput) =>
+      parseCandidateProfile(await request('/profile', { method: 'PUT', body: profile, token })),
+  };
+};
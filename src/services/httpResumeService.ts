@@ -0,0 +1,22 @@
+import { ResumeService, parseUploadedResume } from './resumeService';
+import { createHttpClient, HttpClientOptions } from './http';
+import { resumeMimeType } from '../utils/resumeParser';
+
+export const createHttpResumeService = (options: HttpClientOptions): ResumeService => {
+  const { request, download } = createHttpClient(options);
+
+  return {
+    // The file goes up as it is, typed by what it really is since browsers may not know Word documents
+    uploadResume: async (token: string, file: File) =>
+      parseUploadedResume(
+        await request(`/resumes?fileName=${encodeURIComponent(file.name)}`, {
+          method: 'POST',
+          body: new Blob([file], { type: resumeMimeType(file) }),
+          token,
+        })
+      ),
+
+    downloadResume: async (token: string, resumeId: string) =>
+      download(`/resumes/${encodeURIComponent(resumeId)}`, { token }),
+  };
+};
@@ -0,0 +1,252 @@
+import {
+  EMPLOYMENT_TYPES,
+  EmploymentType,
+  ExperienceLevelId,
+  ExperienceRange,
+  FacetCount,
+  Job,
+  JOB_STATUSES,
+  JobSearchQuery,
+  JobSearchResult,
+  JobStatus,
+  SalaryBandId,
+  SalaryRange,
+  WORKPLACE_TYPES,
+  WorkplaceType,
+} from '../types/job';
+import {
+  FORM_FIELD_TYPES,
+  FORM_SECTION_ICONS,
+  FormField,
+  FormFieldOption,
+  FormFieldType,
+  FormSchema,
+  FormSection,
+  FormSectionIcon,
+  VALIDATION_RULE_TYPES,
+  ValidationRule,
+} from '../types/formSchema';
+import { AskedScreeningQuestion, SCREENING_RULE_TYPES, ScreeningRule } from '../types/screening';
+import { ApiError } from './http';
+import { isRecord } from '../utils/guards';
+import { EXPERIENCE_LEVEL_IDS, SALARY_BAND_IDS } from '../utils/jobSearch';
+
+export interface JobService {
+  /** Every job, newest first. */
+  listJobs: (token: string) => Promise<Job[]>;
+  /** One page of open jobs matching the query, with facet counts for the whole result set. */
+  searchJobs: (token: string, query: JobSearchQuery) => Promise<JobSearchResult>;
+  /** Rejects with `not_found` for unknown ids. */
+  getJob: (token: string, jobId: string) => Promise<Job>;
+}
+
+const parseSalaryRange = (value: unknown): SalaryRange => {
+  if (
+    !isRecord(value) ||
+    typeof value.min !== 'number' ||
+    typeof value.max !== 'number' ||
+    typeof value.currency !== 'string'
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid salary range');
+  }
+  return { min: value.min, max: value.max, currency: value.currency };
+};
+
+const parseExperienceRange = (value: unknown): ExperienceRange => {
+  // Jobs without stated requirements are open to any experience level
+  if (!isRecord(value) || typeof value.min !== 'number') return { min: 0, max: null };
+  return { min: value.min, max: typeof value.max === 'number' ? value.max : null };
+};
+
+const parseOption = (value: unknown): FormFieldOption | null =>
+  isRecord(value) && typeof value.value === 'string' && typeof value.label === 'string'
+    ? { value: value.value, label: value.label }
+    : null;
+
+/** Whether a regular expression source from the server compiles here; validation runs on every render. */
+const isValidPattern = (source: string, flags: string) => {
+  try {
+    new RegExp(source, flags);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rules the client cannot check are dropped; the server validates submissions again anyway
+const parseRule = (value: unknown): ValidationRule | null => {
+  if (!isRecord(value) || !VALIDATION_RULE_TYPES.includes(value.type as ValidationRule['type'])) return null;
+  const message = typeof value.message === 'string' ? value.message : undefined;
+  switch (value.type) {
+    case 'required':
+      return { type: 'required', message };
+    case 'pattern':
+      return typeof value.value === 'string' && message && isValidPattern(value.value, 'u')
+        ? { type: 'pattern', value: value.value, message }
+        : null;
+    case 'fileTypes':
+      return Array.isArray(value.value)
+        ? { type: 'fileTypes', value: value.value.filter((t): t is string => typeof t === 'string'), message }
+        : null;
+    default:
+      return typeof value.value === 'number'
+        ? ({ type: value.type, value: value.value, message } as ValidationRule)
+        : null;
+  }
+};
+
+const parseFormField = (value: unknown): FormField | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.name !== 'string' ||
+    typeof value.label !== 'string' ||
+    !FORM_FIELD_TYPES.includes(value.type as FormFieldType)
+  ) {
+    return null;
+  }
+  const optionalText = (key: string) => (typeof value[key] === 'string' ? (value[key] as string) : undefined);
+  const { visibleWhen } = value;
+  // A character class that doesn't compile restricts nothing rather than breaking the form
+  const allowedCharacters = optionalText('allowedCharacters');
+
+  return {
+    name: value.name,
+    type: value.type as FormFieldType,
+    label: value.label,
+    hint: optionalText('hint'),
+    placeholder: optionalText('placeholder'),
+    options: Array.isArray(value.options)
+      ? value.options.map(parseOption).filter((o): o is FormFieldOption => o !== null)
+      : undefined,
+    rules: Array.isArray(value.rules)
+      ? value.rules.map(parseRule).filter((r): r is ValidationRule => r !== null)
+      : undefined,
+    visibleWhen:
+      isRecord(visibleWhen) &&
+      typeof visibleWhen.field === 'string' &&
+      (typeof visibleWhen.equals === 'string' || typeof visibleWhen.equals === 'boolean')
+        ? { field: visibleWhen.field, equals: visibleWhen.equals }
+        : undefined,
+    allowedCharacters:
+      allowedCharacters && isValidPattern(`[^${allowedCharacters}]`, 'gu') ? allowedCharacters : undefined,
+    maxLength: typeof value.maxLength === 'number' ? value.maxLength : undefined,
+    width: value.width === 'half' ? 'half' : undefined,
+    accept: optionalText('accept'),
+  };
+};
+
+const parseFormSection = (value: unknown): FormSection | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.title !== 'string' || !Array.isArray(value.fields)) {
+    return null;
+  }
+  return {
+    id: value.id,
+    title: value.title,
+    icon: FORM_SECTION_ICONS.includes(value.icon as FormSectionIcon) ? (value.icon as FormSectionIcon) : undefined,
+    fields: value.fields.map(parseFormField).filter((f): f is FormField => f !== null),
+  };
+};
+
+/** A job's own application form, or undefined when it has none (or none the client can use). */
+const parseFormSchema = (value: unknown): FormSchema | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.sections)) return undefined;
+  const sections = value.sections.map(parseFormSection).filter((s): s is FormSection => s !== null);
+  return sections.length > 0 ? { sections } : undefined;
+};
+
+export const parseScreeningRule = (value: unknown): ScreeningRule | null => {
+  if (!isRecord(value) || !SCREENING_RULE_TYPES.includes(value.type as ScreeningRule['type'])) return null;
+  if (value.type !== 'score') return { type: value.type as 'knockout' | 'flag' };
+  return typeof value.weight === 'number' && value.weight > 0 ? { type: 'score', weight: value.weight } : null;
+};
+
+// Only the question is read; the expected answer and rule stay on the server, which does the checking
+const parseScreeningQuestion = (value: unknown): AskedScreeningQuestion | null => {
+  if (!isRecord(value)) return null;
+  const field = parseFormField(value.field);
+  return field ? { field } : null;
+};
+
+export const parseJob = (value: unknown): Job => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.title !== 'string' ||
+    typeof value.company !== 'string' ||
+    typeof value.location !== 'string' ||
+    !EMPLOYMENT_TYPES.includes(value.employmentType as EmploymentType) ||
+    typeof value.postedAt !== 'string'
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid job');
+  }
+
+  return {
+    id: value.id,
+    title: value.title,
+    company: value.company,
+    location: value.location,
+    workplaceType: WORKPLACE_TYPES.includes(value.workplaceType as WorkplaceType)
+      ? (value.workplaceType as WorkplaceType)
+      : 'on-site',
+    employmentType: value.employmentType as EmploymentType,
+    experienceRange: parseExperienceRange(value.experienceRange),
+    salaryRange: parseSalaryRange(value.salaryRange),
+    requiredSkills: Array.isArray(value.requiredSkills)
+      ? value.requiredSkills.filter((s): s is string => typeof s === 'string')
+      : [],
+    description: typeof value.description === 'string' ? value.description : '',
+    // Anything the client does not recognise is treated as not accepting applications
+    status: JOB_STATUSES.includes(value.status as JobStatus) ? (value.status as JobStatus) : 'closed',
+    postedAt: value.postedAt,
+    applicationForm: parseFormSchema(value.applicationForm),
+    coverLetterWordLimit:
+      typeof value.coverLetterWordLimit === 'number' && value.coverLetterWordLimit > 0
+        ? Math.floor(value.coverLetterWordLimit)
+        : undefined,
+    screeningQuestions: Array.isArray(value.screeningQuestions)
+      ? value.screeningQuestions.map(parseScreeningQuestion).filter((q): q is AskedScreeningQuestion => q !== null)
+      : undefined,
+  };
+};
+
+export const parseJobList = (value: unknown): Job[] => {
+  if (!Array.isArray(value)) {
+    throw new ApiError('invalid_response', 'The server returned an invalid job list');
+  }
+  return value.map(parseJob);
+};
+
+const parseFacetCounts = <T extends string>(value: unknown, isValue: (v: unknown) => v is T): FacetCount<T>[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (entry): entry is FacetCount<T> => isRecord(entry) && isValue(entry.value) && typeof entry.count === 'number'
+      )
+    : [];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const parseJobSearchResult = (value: unknown): JobSearchResult => {
+  if (!isRecord(value) || !isRecord(value.facets) || typeof value.total !== 'number') {
+    throw new ApiError('invalid_response', 'The server returned invalid search results');
+  }
+  const { facets } = value;
+
+  return {
+    jobs: parseJobList(value.jobs),
+    total: value.total,
+    nextCursor: typeof value.nextCursor === 'string' ? value.nextCursor : null,
+    facets: {
+      locations: parseFacetCounts(facets.locations, isString),
+      workplaceTypes: parseFacetCounts(facets.workplaceTypes, (v): v is WorkplaceType =>
+        WORKPLACE_TYPES.includes(v as WorkplaceType)
+      ),
+      experienceLevels: parseFacetCounts(facets.experienceLevels, (v): v is ExperienceLevelId =>
+        EXPERIENCE_LEVEL_IDS.includes(v as ExperienceLevelId)
+      ),
+      salaryBands: parseFacetCounts(facets.salaryBands, (v): v is SalaryBandId =>
+        SALARY_BAND_IDS.includes(v as SalaryBandId)
+      ),
+      skills: parseFacetCounts(facets.skills, isString),
+    },
+  };
+};
@@ -0,0 +1,43 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  /** Primary call-to-action link, if the message has one */
+  link?: string;
+}
+
+export interface SentMailMessage extends MailMessage {
+  id: string;
+  sentAt: string;
+}
+
+/** Delivery channel for transactional email sent by the offline adapters. */
+export interface MailOutbox {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export interface InMemoryMailOutbox extends MailOutbox {
+  messages: () => SentMailMessage[];
+  clear: () => void;
+}
+
+/**
+ * Keeps sent mail in memory and echoes it to the console so links can be followed
+ * during local development without a mail server.
+ */
+export const createInMemoryMailOutbox = ({ log = true }: { log?: boolean } = {}): InMemoryMailOutbox => {
+  let sent: SentMailMessage[] = [];
+
+  return {
+    send: async (message: MailMessage) => {
+      sent = [...sent, { ...message, id: crypto.randomUUID(), sentAt: new Date().toISOString() }];
+      if (log) {
+        console.info(`[mail] To: ${message.to} | ${message.subject}\n${message.text}`);
+      }
+    },
+    messages: () => sent,
+    clear: () => {
+      sent = [];
+    },
+  };
+};
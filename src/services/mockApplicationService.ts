@@ -0,0 +1,385 @@
+import {
+  ACTIVE_APPLICATION_STATUSES,
+  AMENDABLE_APPLICATION_STATUSES,
+  ApplicationAnswers,
+  ApplicationDeclaration,
+  ApplicationSubmission,
+  JobApplication,
+} from '../types/application';
+import { ScreeningResult } from '../types/screening';
+import { answersToFormValues, DEFAULT_DECLARATION_TEXT } from '../utils/applicationForm';
+import { evaluateScreening } from '../utils/screening';
+import { ApplicationService, parseJobApplication } from './applicationService';
+import { ApiError } from './http';
+import { MockJobService } from './mockJobService';
+import { readMockJwtSubject } from './mockJwt';
+
+const STORAGE_KEY = 'mock_applications_db';
+
+const seedAnswers: ApplicationAnswers = {
+  fullName: 'John Doe',
+  email: 'user@example.com',
+  phone: '+15551234567',
+  experience: '4',
+  employmentStatus: 'yes',
+  currentCompany: 'Initech',
+  skills: [
+    { skillId: 'python', name: 'Python', proficiency: 'advanced', years: 4 },
+    { skillId: 'sql', name: 'SQL', proficiency: 'intermediate', years: 3 },
+  ],
+  workHistory: [
+    {
+      id: 'work-seed-1',
+      employer: 'Initech',
+      title: 'Reporting Analyst',
+      startDate: '2021-03',
+      endDate: null,
+      isCurrent: true,
+      description: 'Build the weekly sales dashboards and the SQL behind them.',
+    },
+    {
+      id: 'work-seed-2',
+      employer: 'Hooli',
+      title: 'Junior Data Analyst',
+      startDate: '2019-09',
+      endDate: '2021-02',
+      isCurrent: false,
+      description: '',
+    },
+  ],
+  education: [
+    {
+      id: 'education-seed-1',
+      institution: 'State University',
+      degree: 'BSc',
+      fieldOfStudy: 'Statistics',
+      graduationYear: 2019,
+    },
+  ],
+  coverLetter: '',
+  customAnswers: [],
+};
+
+const amendedSeedAnswers: ApplicationAnswers = {
+  ...seedAnswers,
+  phone: '+15559876543',
+  skills: [
+    { skillId: 'java', name: 'Java', proficiency: 'intermediate', years: 2 },
+    { skillId: 'sql', name: 'SQL', proficiency: 'intermediate', years: 3 },
+  ],
+  customAnswers: [
+    {
+      name: 'usWorkAuthorization',
+      label: 'Are you legally authorized to work in the United States?',
+      value: 'yes',
+      displayValue: 'Yes',
+    },
+    {
+      name: 'javaYears',
+      label: 'How many years of professional Java experience do you have?',
+      value: '2',
+      displayValue: '2',
+    },
+    { name: 'onCallRotation', label: 'Are you comfortable joining an on-call rotation?', value: 'yes', displayValue: 'Yes' },
+    { name: 'paymentsExperience', label: 'Have you worked on payment systems before?', value: 'no', displayValue: 'No' },
+  ],
+};
+
+// How the amended answers fared against the Backend Engineer job's screening questions
+const seedScreening: ScreeningResult = {
+  outcomes: [
+    {
+      name: 'usWorkAuthorization',
+      label: 'Are you legally authorized to work in the United States?',
+      answer: 'Yes',
+      expectedAnswer: 'Yes',
+      rule: { type: 'knockout' },
+      passed: true,
+    },
+    {
+      name: 'javaYears',
+      label: 'How many years of professional Java experience do you have?',
+      answer: '2',
+      expectedAnswer: 'At least 3',
+      rule: { type: 'score', weight: 2 },
+      passed: false,
+    },
+    {
+      name: 'onCallRotation',
+      label: 'Are you comfortable joining an on-call rotation?',
+      answer: 'Yes',
+      expectedAnswer: 'Yes',
+      rule: { type: 'flag' },
+      passed: true,
+    },
+    {
+      name: 'paymentsExperience',
+      label: 'Have you worked on payment systems before?',
+      answer: 'No',
+      expectedAnswer: 'Yes',
+      rule: { type: 'score', weight: 1 },
+      passed: false,
+    },
+  ],
+  score: 0,
+  knockedOut: false,
+  flagged: false,
+  evaluatedAt: '2024-05-07T18:40:00.000Z',
+};
+
+const seedDeclaration = (acceptedAt: string): ApplicationDeclaration => ({ text: DEFAULT_DECLARATION_TEXT, acceptedAt });
+
+// The demo candidate starts with some history so the dashboard has something to show
+const seedApplications = (): JobApplication[] => [
+  {
+    id: 'app-seed-1',
+    referenceNumber: 'JA-20240424-7QH2MD',
+    jobId: 'job-1003',
+    candidateId: '1',
+    jobTitle: 'Data Analyst',
+    company: 'Initech',
+    answers: seedAnswers,
+    revisions: [
+      {
+        revision: 1,
+        answers: seedAnswers,
+        savedAt: '2024-04-24T10:00:00.000Z',
+        declaration: seedDeclaration('2024-04-24T10:00:00.000Z'),
+      },
+    ],
+    status: 'interview',
+    submittedAt: '2024-04-24T10:00:00.000Z',
+    statusHistory: [
+      { status: 'submitted', changedAt: '2024-04-24T10:00:00.000Z' },
+      { status: 'under_review', changedAt: '2024-04-26T15:30:00.000Z' },
+      {
+        status: 'interview',
+        changedAt: '2024-05-02T09:15:00.000Z',
+        note: 'The hiring team would like to schedule a video interview.',
+      },
+    ],
+    resume: null,
+    screening: null,
+  },
+  {
+    id: 'app-seed-2',
+    referenceNumber: 'JA-20240220-C4XN8R',
+    jobId: 'job-1008',
+    candidateId: '1',
+    jobTitle: 'Machine Learning Engineer',
+    company: 'Initech',
+    answers: seedAnswers,
+    revisions: [
+      {
+        revision: 1,
+        answers: seedAnswers,
+        savedAt: '2024-02-20T08:45:00.000Z',
+        declaration: seedDeclaration('2024-02-20T08:45:00.000Z'),
+      },
+    ],
+    status: 'rejected',
+    submittedAt: '2024-02-20T08:45:00.000Z',
+    statusHistory: [
+      { status: 'submitted', changedAt: '2024-02-20T08:45:00.000Z' },
+      { status: 'under_review', changedAt: '2024-02-23T11:00:00.000Z' },
+      { status: 'rejected', changedAt: '2024-03-04T16:20:00.000Z' },
+    ],
+    resume: null,
+    screening: null,
+  },
+  {
+    id: 'app-seed-3',
+    referenceNumber: 'JA-20240507-K3F9QX',
+    jobId: 'job-1002',
+    candidateId: '1',
+    jobTitle: 'Backend Engineer',
+    company: 'Globex',
+    answers: amendedSeedAnswers,
+    revisions: [
+      {
+        revision: 1,
+        answers: seedAnswers,
+        savedAt: '2024-05-07T12:00:00.000Z',
+        declaration: seedDeclaration('2024-05-07T12:00:00.000Z'),
+      },
+      {
+        revision: 2,
+        answers: amendedSeedAnswers,
+        savedAt: '2024-05-07T18:40:00.000Z',
+        declaration: seedDeclaration('2024-05-07T18:40:00.000Z'),
+      },
+    ],
+    status: 'submitted',
+    submittedAt: '2024-05-07T12:00:00.000Z',
+    statusHistory: [{ status: 'submitted', changedAt: '2024-05-07T12:00:00.000Z' }],
+    resume: null,
+    screening: seedScreening,
+  },
+];
+
+const loadDatabase = (): JobApplication[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return seedApplications();
+    return (JSON.parse(raw) as unknown[]).map(parseJobApplication);
+  } catch {
+    return seedApplications();
+  }
+};
+
+const saveDatabase = (applications: JobApplication[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(applications));
+};
+
+const newestFirst = (a: JobApplication, b: JobApplication) => b.submittedAt.localeCompare(a.submittedAt);
+
+const findOwnApplication = (applications: JobApplication[], candidateId: string, applicationId: string) => {
+  const application = applications.find(a => a.id === applicationId && a.candidateId === candidateId);
+  if (!application) {
+    throw new ApiError('not_found', 'This application could not be found', 404);
+  }
+  return application;
+};
+
+// No 0/O or 1/I, so references read back over the phone unambiguously
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const newReferenceNumber = (submittedAt: string) => {
+  const suffix = Array.from(crypto.getRandomValues(new Uint8Array(6)), byte => REFERENCE_ALPHABET[byte % 32]).join('');
+  return `JA-${submittedAt.slice(0, 10).replace(/-/g, '')}-${suffix}`;
+};
+
+const recordDeclaration = (text: string | null | undefined, acceptedAt: string): ApplicationDeclaration | null =>
+  text ? { text, acceptedAt } : null;
+
+/** Checks the answers against the job's own screening questions, whatever the candidate's form was told. */
+const screenAnswers = async (jobs: MockJobService, jobId: string, answers: ApplicationAnswers) => {
+  const questions = await jobs.getScreeningQuestions(jobId);
+  return questions.length > 0 ? evaluateScreening(questions, answersToFormValues(answers)) : null;
+};
+
+// Screening results are for reviewers only, so candidates get their applications without them
+const forCandidate = (application: JobApplication): JobApplication => ({ ...application, screening: null });
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface MockApplicationServiceOptions {
+  /** Used to check that a job exists and is open, to copy its title, and to screen the answers */
+  jobs: MockJobService;
+  latency?: number;
+}
+
+/** Offline stand-in for the applications API, persisted in localStorage. */
+export const createMockApplicationService = ({
+  jobs,
+  latency = 600,
+}: MockApplicationServiceOptions): ApplicationService => ({
+  submitApplication: async (
+    token: string,
+    { jobId, answers, resume, declaration }: ApplicationSubmission
+  ) => {
+    await simulateDelay(latency);
+    const candidateId = readMockJwtSubject(token);
+    const job = await jobs.getJob(token, jobId);
+    if (job.status !== 'open') {
+      throw new ApiError('validation_failed', 'This job is no longer accepting applications', 409);
+    }
+    const screening = await screenAnswers(jobs, jobId, answers);
+
+    const applications = loadDatabase();
+    const hasActiveApplication = applications.some(
+      a => a.candidateId === candidateId && a.jobId === jobId && ACTIVE_APPLICATION_STATUSES.includes(a.status)
+    );
+    if (hasActiveApplication) {
+      throw new ApiError('validation_failed', 'You already have an application in progress for this job', 409);
+    }
+
+    const submittedAt = new Date().toISOString();
+    const stored = { ...answers, skills: answers.skills.map(entry => ({ ...entry })), customAnswers: [...answers.customAnswers] };
+    const application: JobApplication = {
+      id: `app-${crypto.randomUUID()}`,
+      referenceNumber: newReferenceNumber(submittedAt),
+      jobId,
+      candidateId,
+      jobTitle: job.title,
+      company: job.company,
+      answers: stored,
+      revisions: [
+        { revision: 1, answers: stored, savedAt: submittedAt, declaration: recordDeclaration(declaration, submittedAt) },
+      ],
+      status: 'submitted',
+      submittedAt,
+      statusHistory: [{ status: 'submitted', changedAt: submittedAt }],
+      resume: resume ?? null,
+      screening,
+    };
+    saveDatabase([...applications, application]);
+    return forCandidate(application);
+  },
+
+  listMyApplications: async (token: string) => {
+    await simulateDelay(latency / 2);
+    const candidateId = readMockJwtSubject(token);
+    return loadDatabase()
+      .filter(a => a.candidateId === candidateId)
+      .map(forCandidate)
+      .sort(newestFirst);
+  },
+
+  amendApplication: async (
+    token: string,
+    applicationId: string,
+    answers: ApplicationAnswers,
+    declaration?: string | null
+  ) => {
+    await simulateDelay(latency);
+    const applications = loadDatabase();
+    const application = findOwnApplication(applications, readMockJwtSubject(token), applicationId);
+    if (!AMENDABLE_APPLICATION_STATUSES.includes(application.status)) {
+      throw new ApiError('validation_failed', 'This application is already being reviewed and can no longer be edited', 409);
+    }
+
+    const screening = await screenAnswers(jobs, application.jobId, answers);
+    const stored = { ...answers, skills: answers.skills.map(entry => ({ ...entry })), customAnswers: [...answers.customAnswers] };
+    const savedAt = new Date().toISOString();
+    application.answers = stored;
+    application.revisions = [
+      ...application.revisions,
+      {
+        revision: application.revisions.length + 1,
+        answers: stored,
+        savedAt,
+        declaration: recordDeclaration(declaration, savedAt),
+      },
+    ];
+    application.screening = screening;
+    saveDatabase(applications);
+    return forCandidate(application);
+  },
+
+  withdrawApplication: async (token: string, applicationId: string, reason?: string) => {
+    await simulateDelay(latency);
+    const applications = loadDatabase();
+    const application = findOwnApplication(applications, readMockJwtSubject(token), applicationId);
+    if (!ACTIVE_APPLICATION_STATUSES.includes(application.status)) {
+      throw new ApiError('validation_failed', 'This application can no longer be withdrawn', 409);
+    }
+
+    const note = reason?.trim() || undefined;
+    application.status = 'withdrawn';
+    application.withdrawalReason = note;
+    application.statusHistory = [
+      ...application.statusHistory,
+      { status: 'withdrawn', changedAt: new Date().toISOString(), note },
+    ];
+    saveDatabase(applications);
+    return forCandidate(application);
+  },
+
+  // The real API checks the reviewer's role; offline, the route guard is all there is
+  listApplicationsForReview: async (token: string) => {
+    await simulateDelay(latency / 2);
+    readMockJwtSubject(token);
+    return loadDatabase().sort(newestFirst);
+  },
+});
@@ -0,0 +1,542 @@
+import { jwtDecode } from 'jwt-decode';
+import {
+  User,
+  LoginCredentials,
+  SignupCredentials,
+  AuthResponse,
+  LoginResponse,
+  NotificationPreferences,
+  OAuthProviderId,
+  ReauthCredentials,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../types/auth';
+import { AuthService, parseUser } from './authService';
+import { ApiError } from './http';
+import { signMockJwt } from './mockJwt';
+import { IdTokenClaims, userFromIdTokenClaims } from './oauth';
+import { createInMemoryMailOutbox, MailOutbox } from './mailOutbox';
+import { isTokenExpired } from '../utils/token';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+interface MockAccount {
+  user: User;
+  password?: string;
+  mfa?: {
+    secret: string;
+    recoveryCodes: string[];
+  };
+  /** Secret generated by enrollment but not yet confirmed with a code */
+  pendingMfaSecret?: string;
+  /** Provider subject ids that can sign in to this account */
+  identities?: Partial<Record<OAuthProviderId, string>>;
+}
+
+interface MockRefreshToken {
+  userId: string;
+  expiresAt: number;
+}
+
+interface MockResetToken {
+  userId: string;
+  expiresAt: number;
+}
+
+type MockVerificationToken = MockResetToken;
+
+type MockMfaChallenge = MockResetToken;
+
+interface MockAuthDatabase {
+  accounts: MockAccount[];
+  sessions: Record<string, string>;
+  refreshTokens: Record<string, MockRefreshToken>;
+  resetTokens: Record<string, MockResetToken>;
+  verificationTokens: Record<string, MockVerificationToken>;
+  mfaChallenges: Record<string, MockMfaChallenge>;
+}
+
+const STORAGE_KEY = 'mock_auth_db';
+
+const seedDatabase = (): MockAuthDatabase => ({
+  accounts: [
+    {
+      user: {
+        id: '1',
+        email: 'user@example.com',
+        emailVerified: true,
+        name: 'John Doe',
+        provider: 'email',
+        role: 'candidate',
+        mfaEnabled: false,
+        linkedProviders: [],
+        notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
+        createdAt: new Date().toISOString(),
+      },
+      password: 'password123',
+    },
+    {
+      user: {
+        id: '2',
+        email: 'recruiter@example.com',
+        emailVerified: true,
+        name: 'Riley Recruiter',
+        provider: 'email',
+        role: 'recruiter',
+        mfaEnabled: false,
+        linkedProviders: [],
+        notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
+        createdAt: new Date().toISOString(),
+      },
+      password: 'password123',
+    },
+    {
+      user: {
+        id: '3',
+        email: 'admin@example.com',
+        emailVerified: true,
+        name: 'Alex Admin',
+        provider: 'email',
+        role: 'admin',
+        mfaEnabled: false,
+        linkedProviders: [],
+        notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
+        createdAt: new Date().toISOString(),
+      },
+      password: 'password123',
+    },
+  ],
+  sessions: {},
+  refreshTokens: {},
+  resetTokens: {},
+  verificationTokens: {},
+  mfaChallenges: {},
+});
+
+// Persisted so sessions survive a reload, the way a real backend's would
+const loadDatabase = (): MockAuthDatabase => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const seed = seedDatabase();
+      const db = { ...seed, ...(JSON.parse(raw) as Partial<MockAuthDatabase>) };
+      // Seed accounts added after the database was first stored still show up
+      const missing = seed.accounts.filter(seeded => !db.accounts.some(a => a.user.id === seeded.user.id));
+      // Users stored before newer User fields existed get their defaults filled in
+      const accounts = [...db.accounts, ...missing].map(a => ({ ...a, user: parseUser(a.user) }));
+      return { ...db, accounts };
+    }
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  return seedDatabase();
+};
+
+const saveDatabase = (db: MockAuthDatabase) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+const MFA_ISSUER = 'Job Application Portal';
+const MFA_CHALLENGE_LIFETIME_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = Array.from(crypto.getRandomValues(new Uint8Array(4)), b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface MockAuthServiceOptions {
+  latency?: number;
+  /** Access-token lifetime in seconds */
+  accessTokenLifetime?: number;
+  /** Refresh-token lifetime in seconds */
+  refreshTokenLifetime?: number;
+  /** Password-reset token lifetime in seconds */
+  resetTokenLifetime?: number;
+  /** Email-verification token lifetime in seconds */
+  verificationTokenLifetime?: number;
+  /** Where verification and reset emails are delivered */
+  outbox?: MailOutbox;
+}
+
+export const createMockAuthService = ({
+  latency = 1000,
+  accessTokenLifetime = 15 * 60,
+  refreshTokenLifetime = 7 * 24 * 60 * 60,
+  resetTokenLifetime = 30 * 60,
+  verificationTokenLifetime = 24 * 60 * 60,
+  outbox = createInMemoryMailOutbox(),
+}: MockAuthServiceOptions = {}): AuthService => {
+  const issueSession = (db: MockAuthDatabase, user: User): AuthResponse => {
+    const token = signMockJwt({ sub: user.id, email: user.email }, accessTokenLifetime);
+    const refreshToken = crypto.randomUUID();
+
+    // Drop anything that can no longer be used so the stored database stays small
+    for (const [key, value] of Object.entries(db.sessions)) {
+      if (isTokenExpired(key)) delete db.sessions[key];
+      else if (!db.accounts.some(a => a.user.id === value)) delete db.sessions[key];
+    }
+    for (const [key, value] of Object.entries(db.refreshTokens)) {
+      if (value.expiresAt <= Date.now()) delete db.refreshTokens[key];
+    }
+
+    db.sessions[token] = user.id;
+    db.refreshTokens[refreshToken] = { userId: user.id, expiresAt: Date.now() + refreshTokenLifetime * 1000 };
+    saveDatabase(db);
+    return { user, token, refreshToken };
+  };
+
+  const sendVerificationEmail = async (db: MockAuthDatabase, user: User) => {
+    // Only the latest link works; older ones are superseded
+    for (const [key, value] of Object.entries(db.verificationTokens)) {
+      if (value.userId === user.id) delete db.verificationTokens[key];
+    }
+    const token = crypto.randomUUID();
+    db.verificationTokens[token] = { userId: user.id, expiresAt: Date.now() + verificationTokenLifetime * 1000 };
+    saveDatabase(db);
+
+    const link = `${window.location.origin}/verify-email?token=${token}`;
+    await outbox.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Hi ${user.name},\n\nConfirm your email address to start submitting applications:\n${link}`,
+      link,
+    });
+  };
+
+  const findSessionAccount = (db: MockAuthDatabase, token: string) =>
+    !isTokenExpired(token) && db.accounts.find(a => a.user.id === db.sessions[token]);
+
+  const requireSessionAccount = (db: MockAuthDatabase, token: string) => {
+    const account = findSessionAccount(db, token);
+    if (!account) {
+      throw new ApiError('unauthorized', 'Session is no longer valid', 401);
+    }
+    return account;
+  };
+
+  // Accounts created by an OAuth sign-in before identities were tracked carry the subject in their id
+  const findIdentityAccount = (db: MockAuthDatabase, provider: OAuthProviderId, subject: string) =>
+    db.accounts.find(a => a.identities?.[provider] === subject || a.user.id === `${provider}-${subject}`);
+
+  const decodeIdToken = (idToken: string) => {
+    try {
+      return jwtDecode<IdTokenClaims>(idToken);
+    } catch {
+      throw new ApiError('unauthorized', 'Invalid ID token', 401);
+    }
+  };
+
+  const revokeSessions = (db: MockAuthDatabase, userId: string) => {
+    for (const [key, value] of Object.entries(db.sessions)) {
+      if (value === userId) delete db.sessions[key];
+    }
+    for (const [key, value] of Object.entries(db.refreshTokens)) {
+      if (value.userId === userId) delete db.refreshTokens[key];
+    }
+  };
+
+  // Accepts a current TOTP code or burns one of the account's recovery codes
+  const checkSecondFactor = async (account: MockAccount, code: string) => {
+    if (!account.mfa) return false;
+    if (await verifyTotp(account.mfa.secret, code)) return true;
+
+    const normalized = code.trim().toLowerCase();
+    const index = account.mfa.recoveryCodes.indexOf(normalized);
+    if (index === -1) return false;
+    account.mfa.recoveryCodes.splice(index, 1);
+    return true;
+  };
+
+  return {
+    login: async (credentials: LoginCredentials): Promise<LoginResponse> => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = db.accounts.find(
+        a => a.user.email.toLowerCase() === credentials.email.toLowerCase() && a.password === credentials.password
+      );
+      if (!account) {
+        throw new ApiError('invalid_credentials', 'Invalid email or password', 401);
+      }
+      if (account.mfa) {
+        const mfaToken = crypto.randomUUID();
+        db.mfaChallenges[mfaToken] = { userId: account.user.id, expiresAt: Date.now() + MFA_CHALLENGE_LIFETIME_MS };
+        saveDatabase(db);
+        return { status: 'mfa_required', mfaToken };
+      }
+      return issueSession(db, account.user);
+    },
+
+    verifyMfa: async (mfaToken: string, code: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const challenge = db.mfaChallenges[mfaToken];
+      const account = challenge && challenge.expiresAt > Date.now() && db.accounts.find(a => a.user.id === challenge.userId);
+      if (!account) {
+        delete db.mfaChallenges[mfaToken];
+        saveDatabase(db);
+        throw new ApiError('invalid_token', 'Your sign-in attempt has expired. Please sign in again.', 401);
+      }
+      if (!(await checkSecondFactor(account, code))) {
+        throw new ApiError('invalid_credentials', 'Invalid authentication code', 401);
+      }
+      delete db.mfaChallenges[mfaToken];
+      return issueSession(db, account.user);
+    },
+
+    signup: async (credentials: SignupCredentials) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      if (db.accounts.some(a => a.user.email.toLowerCase() === credentials.email.toLowerCase())) {
+        throw new ApiError('email_taken', 'An account with this email already exists', 409);
+      }
+      const user: User = {
+        id: Date.now().toString(),
+        email: credentials.email,
+        emailVerified: false,
+        name: credentials.name,
+        provider: 'email',
+        role: 'candidate',
+        mfaEnabled: false,
+        linkedProviders: [],
+        notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
+        createdAt: new Date().toISOString(),
+      };
+      db.accounts.push({ user, password: credentials.password });
+      const session = issueSession(db, user);
+      await sendVerificationEmail(db, user);
+      return session;
+    },
+
+    isEmailRegistered: async (email: string) => {
+      await simulateDelay(latency / 2);
+      return loadDatabase().accounts.some(a => a.user.email.toLowerCase() === email.trim().toLowerCase());
+    },
+
+    oauthLogin: async (provider: OAuthProviderId, idToken: string) => {
+      await simulateDelay(latency);
+      const claims = decodeIdToken(idToken);
+      // Unlike a real backend the mock cannot check signatures; it only trusts the claims' shape
+      const db = loadDatabase();
+      let account = findIdentityAccount(db, provider, claims.sub);
+      if (!account) {
+        account = { user: userFromIdTokenClaims(provider, claims), identities: { [provider]: claims.sub } };
+        db.accounts.push(account);
+      }
+      return issueSession(db, account.user);
+    },
+
+    refresh: async (refreshToken: string) => {
+      const db = loadDatabase();
+      const entry = db.refreshTokens[refreshToken];
+      // Rotation: every refresh token is single-use
+      delete db.refreshTokens[refreshToken];
+      const account = entry && entry.expiresAt > Date.now() && db.accounts.find(a => a.user.id === entry.userId);
+      if (!account) {
+        saveDatabase(db);
+        throw new ApiError('unauthorized', 'Session has expired', 401);
+      }
+      return issueSession(db, account.user);
+    },
+
+    logout: async (token: string) => {
+      const db = loadDatabase();
+      const userId = db.sessions[token];
+      delete db.sessions[token];
+      for (const [key, value] of Object.entries(db.refreshTokens)) {
+        if (value.userId === userId) delete db.refreshTokens[key];
+      }
+      saveDatabase(db);
+    },
+
+    me: async (token: string) => {
+      const db = loadDatabase();
+      const account = findSessionAccount(db, token);
+      if (!account) {
+        throw new ApiError('unauthorized', 'Session is no longer valid', 401);
+      }
+      return account.user;
+    },
+
+    requestPasswordReset: async (email: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = db.accounts.find(a => a.user.email.toLowerCase() === email.toLowerCase() && a.password);
+      if (!account) return;
+
+      const token = crypto.randomUUID();
+      db.resetTokens[token] = { userId: account.user.id, expiresAt: Date.now() + resetTokenLifetime * 1000 };
+      saveDatabase(db);
+
+      const link = `${window.location.origin}/reset-password?token=${token}`;
+      await outbox.send({
+        to: account.user.email,
+        subject: 'Reset your password',
+        text: `Hi ${account.user.name},\n\nUse this link to choose a new password. It expires in ${Math.round(
+          resetTokenLifetime / 60
+        )} minutes and can only be used once:\n${link}`,
+        link,
+      });
+    },
+
+    resetPassword: async (token: string, password: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const entry = db.resetTokens[token];
+      delete db.resetTokens[token];
+      const account = entry && entry.expiresAt > Date.now() && db.accounts.find(a => a.user.id === entry.userId);
+      if (!account) {
+        saveDatabase(db);
+        throw new ApiError('invalid_token', 'This reset link is invalid or has expired', 400);
+      }
+
+      account.password = password;
+      // A reset ends every existing session for the account
+      revokeSessions(db, account.user.id);
+      saveDatabase(db);
+    },
+
+    verifyEmail: async (verificationToken: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const entry = db.verificationTokens[verificationToken];
+      delete db.verificationTokens[verificationToken];
+      const account = entry && entry.expiresAt > Date.now() && db.accounts.find(a => a.user.id === entry.userId);
+      if (!account) {
+        saveDatabase(db);
+        throw new ApiError('invalid_token', 'This verification link is invalid or has expired', 400);
+      }
+      account.user = { ...account.user, emailVerified: true };
+      saveDatabase(db);
+      return account.user;
+    },
+
+    resendVerificationEmail: async (token: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      if (!account.user.emailVerified) {
+        await sendVerificationEmail(db, account.user);
+      }
+    },
+
+    beginMfaEnrollment: async (token: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      const secret = generateTotpSecret();
+      account.pendingMfaSecret = secret;
+      saveDatabase(db);
+      return { secret, otpauthUri: buildOtpauthUri(MFA_ISSUER, account.user.email, secret) };
+    },
+
+    confirmMfaEnrollment: async (token: string, code: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      if (!account.pendingMfaSecret) {
+        throw new ApiError('validation_failed', 'Start enrollment before confirming a code', 400);
+      }
+      if (!(await verifyTotp(account.pendingMfaSecret, code))) {
+        throw new ApiError('invalid_credentials', 'Invalid authentication code', 400);
+      }
+      const recoveryCodes = generateRecoveryCodes();
+      account.mfa = { secret: account.pendingMfaSecret, recoveryCodes };
+      delete account.pendingMfaSecret;
+      account.user = { ...account.user, mfaEnabled: true };
+      saveDatabase(db);
+      return { recoveryCodes };
+    },
+
+    disableMfa: async (token: string, code: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      if (!(await checkSecondFactor(account, code))) {
+        throw new ApiError('invalid_credentials', 'Invalid authentication code', 400);
+      }
+      delete account.mfa;
+      account.user = { ...account.user, mfaEnabled: false };
+      saveDatabase(db);
+      return account.user;
+    },
+
+    changePassword: async (token: string, currentPassword: string, newPassword: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      if (!account.password) {
+        throw new ApiError('validation_failed', 'This account signs in with an identity provider', 400);
+      }
+      if (account.password !== currentPassword) {
+        throw new ApiError('invalid_credentials', 'Current password is incorrect', 403);
+      }
+      account.password = newPassword;
+      saveDatabase(db);
+    },
+
+    linkProvider: async (token: string, provider: OAuthProviderId, idToken: string) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      const claims = decodeIdToken(idToken);
+      const owner = findIdentityAccount(db, provider, claims.sub);
+      if (owner && owner !== account) {
+        throw new ApiError('email_taken', `That ${provider} account is already linked to another user`, 409);
+      }
+      account.identities = { ...account.identities, [provider]: claims.sub };
+      if (!account.user.linkedProviders.includes(provider)) {
+        account.user = { ...account.user, linkedProviders: [...account.user.linkedProviders, provider] };
+      }
+      saveDatabase(db);
+      return account.user;
+    },
+
+    unlinkProvider: async (token: string, provider: OAuthProviderId) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      if (account.user.provider === provider) {
+        throw new ApiError('validation_failed', `You can't unlink the provider this account was created with`, 400);
+      }
+      const identities = { ...account.identities };
+      delete identities[provider];
+      account.identities = identities;
+      account.user = { ...account.user, linkedProviders: account.user.linkedProviders.filter(p => p !== provider) };
+      saveDatabase(db);
+      return account.user;
+    },
+
+    updateNotificationPreferences: async (token: string, preferences: NotificationPreferences) => {
+      await simulateDelay(latency / 2);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+      account.user = { ...account.user, notificationPreferences: { ...preferences } };
+      saveDatabase(db);
+      return account.user;
+    },
+
+    deleteAccount: async (token: string, credentials: ReauthCredentials) => {
+      await simulateDelay(latency);
+      const db = loadDatabase();
+      const account = requireSessionAccount(db, token);
+
+      if ('password' in credentials) {
+        if (!account.password || account.password !== credentials.password) {
+          throw new ApiError('invalid_credentials', 'Password is incorrect', 403);
+        }
+      } else {
+        const claims = decodeIdToken(credentials.idToken);
+        const isFresh = claims.iat !== undefined && Date.now() / 1000 - claims.iat < 5 * 60;
+        if (account.identities?.[credentials.provider] !== claims.sub || !isFresh) {
+          throw new ApiError('invalid_credentials', 'Please confirm your identity again', 403);
+        }
+      }
+
+      revokeSessions(db, account.user.id);
+      db.accounts = db.accounts.filter(a => a !== account);
+      saveDatabase(db);
+    },
+  };
+};
@@ -0,0 +1,102 @@
+import { CoverLetterTemplate, CoverLetterTemplateInput } from '../types/coverLetter';
+import { CoverLetterTemplateService, parseCoverLetterTemplate } from './coverLetterTemplateService';
+import { ApiError } from './http';
+import { readMockJwtSubject } from './mockJwt';
+
+const STORAGE_KEY = 'mock_cover_letter_templates_db';
+
+/** Templates per user id */
+type MockTemplateDatabase = Record<string, CoverLetterTemplate[]>;
+
+const loadDatabase = (): MockTemplateDatabase => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const db: MockTemplateDatabase = {};
+    for (const [userId, templates] of Object.entries(JSON.parse(raw) as Record<string, unknown[]>)) {
+      db[userId] = templates.map(parseCoverLetterTemplate);
+    }
+    return db;
+  } catch {
+    return {};
+  }
+};
+
+const saveDatabase = (db: MockTemplateDatabase) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const newestFirst = (a: CoverLetterTemplate, b: CoverLetterTemplate) => b.updatedAt.localeCompare(a.updatedAt);
+
+/** Names are compared ignoring case and surrounding spaces, so "Default" and "default " clash. */
+const checkName = (templates: CoverLetterTemplate[], name: string, templateId?: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ApiError('validation_failed', 'Please give the template a name', 422);
+  }
+  if (templates.some(t => t.id !== templateId && t.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new ApiError('validation_failed', `You already have a template called "${trimmed}"`, 422);
+  }
+  return trimmed;
+};
+
+export interface MockCoverLetterTemplateServiceOptions {
+  latency?: number;
+}
+
+/** Offline stand-in for the cover letter templates API, keyed by the user id in the mock access token. */
+export const createMockCoverLetterTemplateService = ({
+  latency = 300,
+}: MockCoverLetterTemplateServiceOptions = {}): CoverLetterTemplateService => ({
+  listTemplates: async (token: string) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    return [...(loadDatabase()[userId] ?? [])].sort(newestFirst);
+  },
+
+  createTemplate: async (token: string, template: CoverLetterTemplateInput) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    const db = loadDatabase();
+    const templates = db[userId] ?? [];
+    const created: CoverLetterTemplate = {
+      id: `template-${crypto.randomUUID()}`,
+      name: checkName(templates, template.name),
+      body: template.body,
+      updatedAt: new Date().toISOString(),
+    };
+    db[userId] = [...templates, created];
+    saveDatabase(db);
+    return created;
+  },
+
+  updateTemplate: async (token: string, templateId: string, template: CoverLetterTemplateInput) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    const db = loadDatabase();
+    const templates = db[userId] ?? [];
+    if (!templates.some(t => t.id === templateId)) {
+      throw new ApiError('not_found', 'This template could not be found', 404);
+    }
+    const updated: CoverLetterTemplate = {
+      id: templateId,
+      name: checkName(templates, template.name, templateId),
+      body: template.body,
+      updatedAt: new Date().toISOString(),
+    };
+    db[userId] = templates.map(t => (t.id === templateId ? updated : t));
+    saveDatabase(db);
+    return updated;
+  },
+
+  deleteTemplate: async (token: string, templateId: string) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    const db = loadDatabase();
+    if (!db[userId]) return;
+    db[userId] = db[userId].filter(t => t.id !== templateId);
+    saveDatabase(db);
+  },
+});
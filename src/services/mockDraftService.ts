@@ -0,0 +1,62 @@
+import { ApplicationDraft } from '../types/application';
+import { DraftService, parseApplicationDraft } from './draftService';
+import { readMockJwtSubject } from './mockJwt';
+
+const STORAGE_KEY = 'mock_drafts_db';
+
+/** Drafts per user id, keyed by job id */
+type MockDraftDatabase = Record<string, Record<string, ApplicationDraft>>;
+
+const loadDatabase = (): MockDraftDatabase => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const db: MockDraftDatabase = {};
+    for (const [userId, drafts] of Object.entries(JSON.parse(raw) as Record<string, Record<string, unknown>>)) {
+      db[userId] = {};
+      for (const [jobId, draft] of Object.entries(drafts)) {
+        db[userId][jobId] = parseApplicationDraft(draft);
+      }
+    }
+    return db;
+  } catch {
+    return {};
+  }
+};
+
+const saveDatabase = (db: MockDraftDatabase) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface MockDraftServiceOptions {
+  latency?: number;
+}
+
+/** Offline stand-in for the drafts API, keyed by the user id in the mock access token. */
+export const createMockDraftService = ({ latency = 300 }: MockDraftServiceOptions = {}): DraftService => ({
+  listDrafts: async (token: string) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    return Object.values(loadDatabase()[userId] ?? {});
+  },
+
+  saveDraft: async (token: string, draft: ApplicationDraft) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    const db = loadDatabase();
+    db[userId] = { ...db[userId], [draft.jobId]: draft };
+    saveDatabase(db);
+    return draft;
+  },
+
+  deleteDraft: async (token: string, jobId: string) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    const db = loadDatabase();
+    if (!db[userId]) return;
+    delete db[userId][jobId];
+    saveDatabase(db);
+  },
+});
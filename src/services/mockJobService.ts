@@ -0,0 +1,511 @@
+import {
+  EXPERIENCE_LEVELS,
+  FacetCount,
+  Job,
+  JobSearchQuery,
+  JobSearchResult,
+  SALARY_BANDS,
+  WORKPLACE_TYPES,
+} from '../types/job';
+import { FormFieldOption, FormSchema } from '../types/formSchema';
+import { ScreeningQuestion } from '../types/screening';
+import { JobService } from './jobService';
+import { ApiError } from './http';
+import { readMockJwtSubject } from './mockJwt';
+import {
+  EXPERIENCE_LEVEL_IDS,
+  JOB_SEARCH_FACET_PARAMS,
+  JobSearchFacetKey,
+  SALARY_BAND_IDS,
+} from '../utils/jobSearch';
+import { DEFAULT_APPLICATION_FORM } from '../utils/applicationForm';
+
+const [declarationSection] = DEFAULT_APPLICATION_FORM.sections.slice(-1);
+
+// One job asks questions of its own, added just before the declaration
+const frontendApplicationForm: FormSchema = {
+  sections: [
+    ...DEFAULT_APPLICATION_FORM.sections.slice(0, -1),
+    {
+      id: 'role',
+      title: 'About This Role',
+      icon: 'question',
+      fields: [
+        {
+          name: 'portfolioUrl',
+          type: 'text',
+          label: 'Portfolio or GitHub URL',
+          placeholder: 'https://',
+          rules: [
+            {
+              type: 'pattern',
+              value: '^https?://\\S+$',
+              message: 'Please enter a link starting with http:// or https://',
+            },
+          ],
+        },
+        {
+          name: 'willingToRelocate',
+          type: 'radio',
+          label: 'Are you willing to relocate to San Francisco?',
+          options: [
+            { value: 'yes', label: 'Yes' },
+            { value: 'no', label: 'No' },
+            { value: 'already-local', label: 'I already live nearby' },
+          ],
+          rules: [{ type: 'required', message: 'Please answer the relocation question' }],
+        },
+        {
+          name: 'relocationTimeline',
+          type: 'select',
+          label: 'How soon could you relocate?',
+          visibleWhen: { field: 'willingToRelocate', equals: 'yes' },
+          options: [
+            { value: 'within-1-month', label: 'Within a month' },
+            { value: '1-3-months', label: 'In 1–3 months' },
+            { value: 'over-3-months', label: 'In more than 3 months' },
+          ],
+          rules: [{ type: 'required', message: 'Please choose a relocation timeline' }],
+        },
+        {
+          name: 'designSystemExperience',
+          type: 'textarea',
+          label: 'Tell us about a design system you have built or maintained',
+          maxLength: 1000,
+          rules: [{ type: 'minLength', value: 50, message: 'Please write at least 50 characters' }],
+        },
+        {
+          name: 'workSample',
+          type: 'file',
+          label: 'Work sample',
+          hint: 'PDF, up to 5 MB',
+          accept: 'application/pdf',
+          rules: [
+            { type: 'fileTypes', value: ['application/pdf'], message: 'Please upload a PDF' },
+            { type: 'maxFileSize', value: 5 * 1024 * 1024 },
+          ],
+        },
+      ],
+    },
+    declarationSection,
+  ],
+};
+
+const YES_NO_OPTIONS: FormFieldOption[] = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+];
+
+const frontendScreeningQuestions: ScreeningQuestion[] = [
+  {
+    field: {
+      name: 'workAuthorization',
+      type: 'select',
+      label: 'Work authorization in the US',
+      options: [
+        { value: 'authorized', label: 'Authorized to work' },
+        { value: 'needs-sponsorship', label: 'Will need visa sponsorship' },
+      ],
+      rules: [{ type: 'required', message: 'Please tell us about your work authorization' }],
+    },
+    expected: { type: 'equals', value: 'authorized' },
+    rule: { type: 'knockout' },
+  },
+  {
+    field: {
+      name: 'reactYears',
+      type: 'number',
+      label: 'How many years of professional React experience do you have?',
+      maxLength: 2,
+      rules: [{ type: 'required', message: 'Please tell us how many years' }],
+    },
+    expected: { type: 'atLeast', value: 3 },
+    rule: { type: 'score', weight: 3 },
+  },
+  {
+    field: {
+      name: 'designSystemOwnership',
+      type: 'radio',
+      label: 'Have you led the development of a design system?',
+      options: YES_NO_OPTIONS,
+      rules: [{ type: 'required', message: 'Please answer this question' }],
+    },
+    expected: { type: 'equals', value: 'yes' },
+    rule: { type: 'score', weight: 1 },
+  },
+  {
+    field: {
+      name: 'hybridSchedule',
+      type: 'radio',
+      label: 'Can you work from our San Francisco office three days a week?',
+      options: YES_NO_OPTIONS,
+      rules: [{ type: 'required', message: 'Please answer this question' }],
+    },
+    expected: { type: 'equals', value: 'yes' },
+    rule: { type: 'flag' },
+  },
+];
+
+const backendScreeningQuestions: ScreeningQuestion[] = [
+  {
+    field: {
+      name: 'usWorkAuthorization',
+      type: 'radio',
+      label: 'Are you legally authorized to work in the United States?',
+      options: YES_NO_OPTIONS,
+      rules: [{ type: 'required', message: 'Please answer this question' }],
+    },
+    expected: { type: 'equals', value: 'yes' },
+    rule: { type: 'knockout' },
+  },
+  {
+    field: {
+      name: 'javaYears',
+      type: 'number',
+      label: 'How many years of professional Java experience do you have?',
+      maxLength: 2,
+      rules: [{ type: 'required', message: 'Please tell us how many years' }],
+    },
+    expected: { type: 'atLeast', value: 3 },
+    rule: { type: 'score', weight: 2 },
+  },
+  {
+    field: {
+      name: 'onCallRotation',
+      type: 'radio',
+      label: 'Are you comfortable joining an on-call rotation?',
+      options: YES_NO_OPTIONS,
+      rules: [{ type: 'required', message: 'Please answer this question' }],
+    },
+    expected: { type: 'equals', value: 'yes' },
+    rule: { type: 'flag' },
+  },
+  {
+    field: {
+      name: 'paymentsExperience',
+      type: 'radio',
+      label: 'Have you worked on payment systems before?',
+      options: YES_NO_OPTIONS,
+      rules: [{ type: 'required', message: 'Please answer this question' }],
+    },
+    expected: { type: 'equals', value: 'yes' },
+    rule: { type: 'score', weight: 1 },
+  },
+];
+
+/** A job as the server keeps it, with its screening questions' expected answers and rules. */
+export type MockJob = Omit<Job, 'screeningQuestions'> & { screeningQuestions?: ScreeningQuestion[] };
+
+const seedJobs: MockJob[] = [
+  {
+    id: 'job-1001',
+    title: 'Senior Frontend Engineer',
+    company: 'Acme Corp',
+    location: 'San Francisco, CA',
+    workplaceType: 'hybrid',
+    employmentType: 'full-time',
+    experienceRange: { min: 5, max: null },
+    salaryRange: { min: 150000, max: 190000, currency: 'USD' },
+    requiredSkills: ['React', 'AWS'],
+    description: 'Lead the design system and build the customer dashboard used by thousands of teams.',
+    status: 'open',
+    postedAt: '2024-05-02T09:00:00.000Z',
+    applicationForm: frontendApplicationForm,
+    coverLetterWordLimit: 300,
+    screeningQuestions: frontendScreeningQuestions,
+  },
+  {
+    id: 'job-1002',
+    title: 'Backend Engineer',
+    company: 'Globex',
+    location: 'New York, NY',
+    workplaceType: 'on-site',
+    employmentType: 'full-time',
+    experienceRange: { min: 3, max: 6 },
+    salaryRange: { min: 130000, max: 165000, currency: 'USD' },
+    requiredSkills: ['Java', 'SQL'],
+    description: 'Own payment services end to end, from schema design to on-call.',
+    status: 'open',
+    postedAt: '2024-05-06T14:30:00.000Z',
+    screeningQuestions: backendScreeningQuestions,
+  },
+  {
+    id: 'job-1003',
+    title: 'Data Analyst',
+    company: 'Initech',
+    location: 'Austin, TX',
+    workplaceType: 'hybrid',
+    employmentType: 'full-time',
+    experienceRange: { min: 1, max: 3 },
+    salaryRange: { min: 85000, max: 110000, currency: 'USD' },
+    requiredSkills: ['Python', 'SQL'],
+    description: 'Turn product usage data into weekly insights for the growth team.',
+    status: 'open',
+    postedAt: '2024-04-22T11:15:00.000Z',
+  },
+  {
+    id: 'job-1004',
+    title: 'Cloud Infrastructure Engineer',
+    company: 'Umbrella Systems',
+    location: 'United States',
+    workplaceType: 'remote',
+    employmentType: 'contract',
+    experienceRange: { min: 4, max: 8 },
+    salaryRange: { min: 120000, max: 150000, currency: 'USD' },
+    requiredSkills: ['AWS', 'Python'],
+    description: 'Six-month engagement migrating batch workloads to managed AWS services.',
+    status: 'open',
+    postedAt: '2024-05-10T08:00:00.000Z',
+  },
+  {
+    id: 'job-1005',
+    title: 'Full Stack Developer',
+    company: 'Hooli',
+    location: 'London, UK',
+    workplaceType: 'hybrid',
+    employmentType: 'full-time',
+    experienceRange: { min: 2, max: 5 },
+    salaryRange: { min: 65000, max: 85000, currency: 'GBP' },
+    requiredSkills: ['React', 'Java', 'SQL'],
+    description: 'Ship features across our React front end and Spring services in small, autonomous squads.',
+    status: 'open',
+    postedAt: '2024-04-30T10:45:00.000Z',
+  },
+  {
+    id: 'job-1006',
+    title: 'Software Engineering Intern',
+    company: 'Acme Corp',
+    location: 'San Francisco, CA',
+    workplaceType: 'on-site',
+    employmentType: 'internship',
+    experienceRange: { min: 0, max: 1 },
+    salaryRange: { min: 45000, max: 55000, currency: 'USD' },
+    requiredSkills: ['Python'],
+    description: 'Twelve-week summer internship pairing with a mentor on production work.',
+    status: 'open',
+    postedAt: '2024-03-18T16:00:00.000Z',
+  },
+  {
+    id: 'job-1007',
+    title: 'Part-time QA Engineer',
+    company: 'Globex',
+    location: 'United States',
+    workplaceType: 'remote',
+    employmentType: 'part-time',
+    experienceRange: { min: 1, max: 3 },
+    salaryRange: { min: 40000, max: 50000, currency: 'USD' },
+    requiredSkills: ['Java'],
+    description: 'Write and maintain automated regression suites, twenty hours a week.',
+    status: 'open',
+    postedAt: '2024-05-08T12:00:00.000Z',
+  },
+  {
+    id: 'job-1008',
+    title: 'Machine Learning Engineer',
+    company: 'Initech',
+    location: 'New York, NY',
+    workplaceType: 'on-site',
+    employmentType: 'full-time',
+    experienceRange: { min: 6, max: null },
+    salaryRange: { min: 160000, max: 210000, currency: 'USD' },
+    requiredSkills: ['Python', 'AWS', 'SQL'],
+    description: 'Train and serve ranking models behind our recommendations feed.',
+    status: 'closed',
+    postedAt: '2024-02-12T09:30:00.000Z',
+  },
+  {
+    id: 'job-1009',
+    title: 'Staff Software Engineer, Platform',
+    company: 'Hooli',
+    location: 'San Francisco, CA',
+    workplaceType: 'hybrid',
+    employmentType: 'full-time',
+    experienceRange: { min: 10, max: null },
+    salaryRange: { min: 210000, max: 260000, currency: 'USD' },
+    requiredSkills: ['Java', 'AWS'],
+    description: 'Set technical direction for the services every product team builds on.',
+    status: 'open',
+    postedAt: '2024-05-12T15:00:00.000Z',
+  },
+  {
+    id: 'job-1010',
+    title: 'Junior Data Engineer',
+    company: 'Umbrella Systems',
+    location: 'Austin, TX',
+    workplaceType: 'on-site',
+    employmentType: 'full-time',
+    experienceRange: { min: 0, max: 2 },
+    salaryRange: { min: 70000, max: 90000, currency: 'USD' },
+    requiredSkills: ['Python', 'SQL'],
+    description: 'Build and monitor the pipelines that feed our reporting warehouse.',
+    status: 'open',
+    postedAt: '2024-05-01T13:20:00.000Z',
+  },
+  {
+    id: 'job-1011',
+    title: 'React Native Developer',
+    company: 'Pied Piper',
+    location: 'United Kingdom',
+    workplaceType: 'remote',
+    employmentType: 'contract',
+    experienceRange: { min: 3, max: 5 },
+    salaryRange: { min: 55000, max: 70000, currency: 'GBP' },
+    requiredSkills: ['React'],
+    description: 'Help us ship the first version of our mobile app on iOS and Android.',
+    status: 'open',
+    postedAt: '2024-05-09T09:10:00.000Z',
+  },
+  {
+    id: 'job-1012',
+    title: 'Database Administrator',
+    company: 'Globex',
+    location: 'New York, NY',
+    workplaceType: 'on-site',
+    employmentType: 'part-time',
+    experienceRange: { min: 5, max: 9 },
+    salaryRange: { min: 60000, max: 75000, currency: 'USD' },
+    requiredSkills: ['SQL'],
+    description: 'Keep our PostgreSQL fleet healthy, tuned and backed up, three days a week.',
+    status: 'open',
+    postedAt: '2024-04-15T10:00:00.000Z',
+  },
+];
+
+const rangesOverlap = (aMin: number, aMax: number | null, bMin: number, bMax: number | null) =>
+  (aMax === null || aMax >= bMin) && (bMax === null || bMax >= aMin);
+
+/** The values a job has for each facet; a job can fall into several experience or salary buckets. */
+const facetValues = (job: Job): Record<JobSearchFacetKey, string[]> => ({
+  locations: [job.location],
+  workplaceTypes: [job.workplaceType],
+  experienceLevels: EXPERIENCE_LEVELS.filter(level =>
+    rangesOverlap(job.experienceRange.min, job.experienceRange.max, level.min, level.max)
+  ).map(level => level.id),
+  salaryBands: SALARY_BANDS.filter(band =>
+    rangesOverlap(job.salaryRange.min, job.salaryRange.max, band.min, band.max)
+  ).map(band => band.id),
+  skills: job.requiredSkills,
+});
+
+const matchesText = (job: Job, terms: string[]) => {
+  const haystack = `${job.title} ${job.company} ${job.description}`.toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Selections within a facet are alternatives; selections across facets must all hold
+const matchesFacets = (job: Job, query: JobSearchQuery, except?: JobSearchFacetKey) => {
+  const values = facetValues(job);
+  return (Object.keys(JOB_SEARCH_FACET_PARAMS) as JobSearchFacetKey[]).every(
+    key => key === except || query[key].length === 0 || query[key].some(selected => values[key].includes(selected))
+  );
+};
+
+const countFacet = <T extends string>(jobs: Job[], query: JobSearchQuery, key: JobSearchFacetKey, options: readonly T[]) => {
+  const candidates = jobs.filter(job => matchesFacets(job, query, key));
+  return options.map(
+    (value): FacetCount<T> => ({
+      value,
+      count: candidates.filter(job => facetValues(job)[key].includes(value)).length,
+    })
+  );
+};
+
+type CursorPosition = Pick<Job, 'postedAt' | 'id'>;
+
+const encodeCursor = ({ postedAt, id }: CursorPosition) => btoa(JSON.stringify({ postedAt, id }));
+
+const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const position = JSON.parse(atob(cursor)) as CursorPosition;
+    if (typeof position.postedAt === 'string' && typeof position.id === 'string') return position;
+  } catch {
+    // reported below
+  }
+  throw new ApiError('validation_failed', 'This page of results is no longer available', 400);
+};
+
+// Newest first; the id breaks ties so every job has a unique position for cursors
+const compareJobs = (a: CursorPosition, b: CursorPosition) => b.postedAt.localeCompare(a.postedAt) || b.id.localeCompare(a.id);
+
+// Candidates are only told what each screening question asks
+const forCandidate = ({ screeningQuestions, ...job }: MockJob): Job => ({
+  ...job,
+  screeningQuestions: screeningQuestions?.map(({ field }) => ({ field })),
+});
+
+/**
+ * Runs a search over an in-memory catalog the way the search API does: text and facet
+ * filtering, per-facet counts that ignore the facet's own selection, and keyset paging.
+ */
+const searchJobCatalog = (catalog: MockJob[], query: JobSearchQuery, pageSize: number): JobSearchResult => {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const textMatches = catalog.filter(job => job.status === 'open' && matchesText(job, terms));
+
+  const matches = textMatches.filter(job => matchesFacets(job, query)).sort(compareJobs);
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? matches.filter(job => compareJobs(job, after) > 0) : matches;
+  const page = remaining.slice(0, pageSize);
+
+  // Selected locations stay listed even when the text no longer matches any job there
+  const locations = [...new Set([...textMatches.map(job => job.location), ...query.locations])].sort();
+  // Every skill the catalog asks for is offered, so the filter list doesn't jump around while typing
+  const skills = [...new Set([...catalog.flatMap(job => job.requiredSkills), ...query.skills])].sort();
+
+  return {
+    jobs: page.map(forCandidate),
+    total: matches.length,
+    nextCursor: remaining.length > pageSize ? encodeCursor(page[page.length - 1]) : null,
+    facets: {
+      locations: countFacet(textMatches, query, 'locations', locations),
+      workplaceTypes: countFacet(textMatches, query, 'workplaceTypes', WORKPLACE_TYPES),
+      experienceLevels: countFacet(textMatches, query, 'experienceLevels', EXPERIENCE_LEVEL_IDS),
+      salaryBands: countFacet(textMatches, query, 'salaryBands', SALARY_BAND_IDS),
+      skills: countFacet(textMatches, query, 'skills', skills),
+    },
+  };
+};
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface MockJobServiceOptions {
+  latency?: number;
+  jobs?: MockJob[];
+  /** Search results per page */
+  pageSize?: number;
+}
+
+export interface MockJobService extends JobService {
+  /** The job's screening questions with their expected answers, which only the server sees; empty if it has none. */
+  getScreeningQuestions: (jobId: string) => Promise<ScreeningQuestion[]>;
+}
+
+/** Offline stand-in for the jobs API backed by a fixed catalog. */
+export const createMockJobService = ({
+  latency = 300,
+  jobs = seedJobs,
+  pageSize = 5,
+}: MockJobServiceOptions = {}): MockJobService => ({
+  listJobs: async (token: string) => {
+    await simulateDelay(latency);
+    readMockJwtSubject(token);
+    return [...jobs].sort(compareJobs).map(forCandidate);
+  },
+
+  searchJobs: async (token: string, query: JobSearchQuery) => {
+    await simulateDelay(latency);
+    readMockJwtSubject(token);
+    return searchJobCatalog(jobs, query, pageSize);
+  },
+
+  getJob: async (token: string, jobId: string) => {
+    await simulateDelay(latency);
+    readMockJwtSubject(token);
+    const job = jobs.find(j => j.id === jobId);
+    if (!job) {
+      throw new ApiError('not_found', 'This job could not be found', 404);
+    }
+    return forCandidate(job);
+  },
+
+  getScreeningQuestions: async (jobId: string) => jobs.find(j => j.id === jobId)?.screeningQuestions ?? [],
+});
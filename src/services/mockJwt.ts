@@ -0,0 +1,39 @@
+import { jwtDecode, JwtPayload } from 'jwt-decode';
+import { ApiError } from './http';
+import { isTokenExpired } from '../utils/token';
+
+const base64UrlEncode = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Builds an unsigned JWT for the offline adapters. It decodes like a real token
+ * (so expiry handling is exercised) but carries no signature and must never be trusted.
+ */
+export const signMockJwt = (claims: Record<string, unknown>, lifetimeSeconds: number): string => {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64UrlEncode(
+    JSON.stringify({ ...claims, iat, exp: iat + lifetimeSeconds, jti: crypto.randomUUID() })
+  );
+  return `${header}.${payload}.`;
+};
+
+/**
+ * Returns the user id a mock access token was issued for. Offline adapters other than
+ * the auth mock use this instead of sharing its session table.
+ */
+export const readMockJwtSubject = (token: string): string => {
+  if (isTokenExpired(token)) {
+    throw new ApiError('unauthorized', 'Session is no longer valid', 401);
+  }
+  try {
+    const { sub } = jwtDecode<JwtPayload>(token);
+    if (sub) return sub;
+  } catch {
+    // fall through to the error below
+  }
+  throw new ApiError('unauthorized', 'Session is no longer valid', 401);
+};
@@ -0,0 +1,54 @@
+import { CandidateProfile, CandidateProfileInput } from '../types/profile';
+import { ProfileService, parseCandidateProfile } from './profileService';
+import { readMockJwtSubject } from './mockJwt';
+
+const STORAGE_KEY = 'mock_profile_db';
+
+type MockProfileDatabase = Record<string, CandidateProfile>;
+
+const loadDatabase = (): MockProfileDatabase => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const db: MockProfileDatabase = {};
+    for (const [userId, profile] of Object.entries(JSON.parse(raw) as Record<string, unknown>)) {
+      db[userId] = parseCandidateProfile(profile);
+    }
+    return db;
+  } catch {
+    return {};
+  }
+};
+
+const saveDatabase = (db: MockProfileDatabase) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface MockProfileServiceOptions {
+  latency?: number;
+}
+
+/** Offline stand-in for the profile API, keyed by the user id in the mock access token. */
+export const createMockProfileService = ({ latency = 300 }: MockProfileServiceOptions = {}): ProfileService => ({
+  getProfile: async (token: string) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    return loadDatabase()[userId] ?? null;
+  },
+
+  saveProfile: async (token: string, profile: CandidateProfileInput) => {
+    await simulateDelay(latency);
+    const userId = readMockJwtSubject(token);
+    const db = loadDatabase();
+    db[userId] = {
+      ...profile,
+      skills: profile.skills.map(entry => ({ ...entry })),
+      userId,
+      updatedAt: new Date().toISOString(),
+    };
+    saveDatabase(db);
+    return db[userId];
+  },
+});
@@ -0,0 +1,84 @@
+import { RESUME_MAX_BYTES, ResumeFile } from '../types/application';
+import { ApiError } from './http';
+import { readMockJwtSubject } from './mockJwt';
+import { ResumeService } from './resumeService';
+import { resumeMimeType, validateResumeFile } from '../utils/resumeParser';
+
+// Files are far too big for localStorage's quota, so the offline store keeps them in IndexedDB
+const DATABASE_NAME = 'job-portal-mock-resumes';
+const DATABASE_VERSION = 1;
+const RESUMES_STORE = 'resumes';
+
+interface StoredResume extends ResumeFile {
+  ownerId: string;
+  contents: Blob;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(RESUMES_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completed = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Open lazily and once; a failed open is retried on the next call
+const objectStore = async (mode: IDBTransactionMode) => {
+  if (!database) {
+    database = openDatabase().catch(error => {
+      database = null;
+      throw error;
+    });
+  }
+  return (await database).transaction(RESUMES_STORE, mode).objectStore(RESUMES_STORE);
+};
+
+const simulateDelay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface MockResumeServiceOptions {
+  latency?: number;
+}
+
+/** Offline stand-in for the resume upload API. */
+export const createMockResumeService = ({ latency = 400 }: MockResumeServiceOptions = {}): ResumeService => ({
+  uploadResume: async (token: string, file: File) => {
+    await simulateDelay(latency);
+    const ownerId = readMockJwtSubject(token);
+    const invalid = validateResumeFile(file);
+    if (invalid) {
+      throw new ApiError('validation_failed', invalid, file.size > RESUME_MAX_BYTES ? 413 : 422);
+    }
+
+    const resume: ResumeFile = {
+      id: `resume-${crypto.randomUUID()}`,
+      fileName: file.name,
+      mimeType: resumeMimeType(file),
+      size: file.size,
+    };
+    const stored: StoredResume = { ...resume, ownerId, contents: file };
+    await completed((await objectStore('readwrite')).put(stored));
+    return resume;
+  },
+
+  // The real API lets candidates fetch their own files and reviewers those attached to applications;
+  // offline, the route guards are all there is
+  downloadResume: async (token: string, resumeId: string) => {
+    await simulateDelay(latency / 2);
+    readMockJwtSubject(token);
+    const stored = (await completed((await objectStore('readonly')).get(resumeId))) as StoredResume | undefined;
+    if (!stored) {
+      throw new ApiError('not_found', 'This resume could not be found', 404);
+    }
+    return new Blob([stored.contents], { type: stored.mimeType });
+  },
+});
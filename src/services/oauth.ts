@@ -0,0 +1,273 @@
+import { jwtDecode } from 'jwt-decode';
+import { DEFAULT_NOTIFICATION_PREFERENCES, OAuthProviderId, ReauthCredentials, User } from '../types/auth';
+import { ApiError } from './http';
+
+export interface OAuthProviderConfig {
+  id: OAuthProviderId;
+  issuer: string;
+  clientId: string;
+  scopes: string[];
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+/** What the callback should do with the ID token once the redirect returns. */
+export type OAuthIntent = 'login' | 'link' | 'reauthenticate';
+
+interface PendingAuthorization {
+  provider: OAuthProviderId;
+  intent: OAuthIntent;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+const PENDING_KEY = 'oauth_pending';
+const REAUTH_KEY = 'oauth_reauth';
+// Re-authentication proofs go stale quickly so an unattended tab cannot be used later
+const REAUTH_LIFETIME_MS = 5 * 60 * 1000;
+
+// Issuers that are well known enough to need no configuration; everything else comes from env
+const defaultIssuers: Partial<Record<OAuthProviderId, string>> = {
+  google: 'https://accounts.google.com',
+};
+
+export const CALLBACK_PATH = '/auth/callback';
+
+/**
+ * Reads VITE_OAUTH_<PROVIDER>_CLIENT_ID / VITE_OAUTH_<PROVIDER>_ISSUER so a provider
+ * (or a local stand-in identity provider) can be pointed anywhere without code changes.
+ */
+export const getOAuthProviderConfig = (id: OAuthProviderId): OAuthProviderConfig | null => {
+  const prefix = `VITE_OAUTH_${id.toUpperCase()}`;
+  const clientId: string | undefined = import.meta.env[`${prefix}_CLIENT_ID`];
+  const issuer: string | undefined = import.meta.env[`${prefix}_ISSUER`] || defaultIssuers[id];
+  if (!clientId || !issuer) return null;
+  return { id, issuer: issuer.replace(/\/+$/, ''), clientId, scopes: ['openid', 'email', 'profile'] };
+};
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomString = (byteLength = 32) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const createCodeChallenge = async (verifier: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+const discover = async (config: OAuthProviderConfig): Promise<DiscoveryDocument> => {
+  let response: Response;
+  try {
+    response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+  } catch {
+    throw new ApiError('network_error', `Unable to reach the ${config.id} sign-in service`);
+  }
+  if (!response.ok) {
+    throw new ApiError('server_error', `The ${config.id} sign-in service is unavailable`, response.status);
+  }
+  const document = (await response.json()) as Partial<DiscoveryDocument>;
+  if (!document.authorization_endpoint || !document.token_endpoint) {
+    throw new ApiError('invalid_response', `The ${config.id} sign-in service returned an invalid configuration`);
+  }
+  return document as DiscoveryDocument;
+};
+
+const requireConfig = (provider: OAuthProviderId) => {
+  const config = getOAuthProviderConfig(provider);
+  if (!config) {
+    throw new ApiError('unknown', `Sign-in with ${provider} is not configured`);
+  }
+  return config;
+};
+
+export interface BeginAuthorizationOptions {
+  intent?: OAuthIntent;
+  returnTo?: string;
+}
+
+/** Starts the Authorization Code + PKCE flow by redirecting the browser to the provider. */
+export const beginAuthorization = async (
+  provider: OAuthProviderId,
+  { intent = 'login', returnTo = '/dashboard' }: BeginAuthorizationOptions = {}
+) => {
+  const config = requireConfig(provider);
+  const discovery = await discover(config);
+
+  const pending: PendingAuthorization = {
+    provider,
+    intent,
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(48),
+    redirectUri: `${window.location.origin}${CALLBACK_PATH}`,
+    returnTo,
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: config.scopes.join(' '),
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+    // Re-authentication must not be satisfied by an existing provider session
+    ...(intent === 'reauthenticate' ? { prompt: 'login', max_age: '0' } : {}),
+  }).toString();
+
+  window.location.assign(url.toString());
+};
+
+const validateClaims = (claims: IdTokenClaims, config: OAuthProviderConfig, nonce: string) => {
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss.replace(/\/+$/, '') !== config.issuer) {
+    throw new ApiError('invalid_response', 'ID token was issued by an unexpected issuer');
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new ApiError('invalid_response', 'ID token was issued for a different client');
+  }
+  if (claims.nonce !== nonce) {
+    throw new ApiError('invalid_response', 'ID token nonce does not match the sign-in request');
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    throw new ApiError('invalid_response', 'ID token has expired');
+  }
+};
+
+export interface CompletedAuthorization {
+  provider: OAuthProviderId;
+  intent: OAuthIntent;
+  idToken: string;
+  returnTo: string;
+}
+
+/**
+ * Finishes the flow on the callback route: checks `state`, exchanges the code with the
+ * PKCE verifier and sanity-checks the ID token. Signature verification is left to the
+ * backend, which receives the raw ID token.
+ */
+export const completeAuthorization = async (params: URLSearchParams): Promise<CompletedAuthorization> => {
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  if (!raw) {
+    throw new ApiError('validation_failed', 'No sign-in is in progress. Please try again.');
+  }
+  const pending = JSON.parse(raw) as PendingAuthorization;
+
+  const error = params.get('error');
+  if (error) {
+    throw new ApiError(
+      error === 'access_denied' ? 'forbidden' : 'unknown',
+      params.get('error_description') || 'Sign-in was cancelled'
+    );
+  }
+
+  const code = params.get('code');
+  if (!code || params.get('state') !== pending.state) {
+    throw new ApiError('validation_failed', 'Sign-in response could not be verified. Please try again.');
+  }
+
+  const config = requireConfig(pending.provider);
+  const discovery = await discover(config);
+
+  let response: Response;
+  try {
+    response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: pending.redirectUri,
+        client_id: config.clientId,
+        code_verifier: pending.codeVerifier,
+      }),
+    });
+  } catch {
+    throw new ApiError('network_error', `Unable to reach the ${config.id} sign-in service`);
+  }
+
+  const body = (await response.json().catch(() => ({}))) as { id_token?: string; error_description?: string };
+  if (!response.ok || !body.id_token) {
+    throw new ApiError('unauthorized', body.error_description || 'Sign-in code could not be exchanged', response.status);
+  }
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwtDecode<IdTokenClaims>(body.id_token);
+  } catch {
+    throw new ApiError('invalid_response', 'The sign-in service returned a malformed ID token');
+  }
+  validateClaims(claims, config, pending.nonce);
+
+  return { provider: pending.provider, intent: pending.intent, idToken: body.id_token, returnTo: pending.returnTo };
+};
+
+/** Parks a fresh ID token from a re-authentication redirect for the page that asked for it. */
+export const storeReauthentication = (provider: OAuthProviderId, idToken: string) => {
+  sessionStorage.setItem(REAUTH_KEY, JSON.stringify({ provider, idToken, storedAt: Date.now() }));
+};
+
+/** Returns (and forgets) a re-authentication proof if one is still fresh. */
+export const takeReauthentication = (): ReauthCredentials | null => {
+  const raw = sessionStorage.getItem(REAUTH_KEY);
+  sessionStorage.removeItem(REAUTH_KEY);
+  if (!raw) return null;
+  try {
+    const { provider, idToken, storedAt } = JSON.parse(raw) as {
+      provider: OAuthProviderId;
+      idToken: string;
+      storedAt: number;
+    };
+    return Date.now() - storedAt < REAUTH_LIFETIME_MS ? { provider, idToken } : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Maps standard OIDC claims onto our User shape. */
+export const userFromIdTokenClaims = (provider: OAuthProviderId, claims: IdTokenClaims): User => {
+  const name =
+    claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || claims.email || claims.sub;
+  return {
+    id: `${provider}-${claims.sub}`,
+    email: claims.email ?? '',
+    emailVerified: claims.email_verified === true,
+    name,
+    avatar: claims.picture,
+    provider,
+    role: 'candidate',
+    mfaEnabled: false,
+    linkedProviders: [provider],
+    notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
+    createdAt: new Date((claims.iat ?? Math.floor(Date.now() / 1000)) * 1000).toISOString(),
+  };
+};
@@ -0,0 +1,43 @@
+import { CandidateProfile, CandidateProfileInput } from '../types/profile';
+import { ApiError } from './http';
+import { parseEducation, parseWorkHistory } from '../utils/career';
+import { isRecord } from '../utils/guards';
+import { parseSkillEntries } from '../utils/skills';
+
+export interface ProfileService {
+  /** Resolves with null when the candidate has not saved a profile yet. */
+  getProfile: (token: string) => Promise<CandidateProfile | null>;
+  saveProfile: (token: string, profile: CandidateProfileInput) => Promise<CandidateProfile>;
+}
+
+export const parseCandidateProfile = (value: unknown): CandidateProfile => {
+  if (
+    !isRecord(value) ||
+    typeof value.userId !== 'string' ||
+    typeof value.fullName !== 'string' ||
+    typeof value.phone !== 'string' ||
+    typeof value.updatedAt !== 'string'
+  ) {
+    throw new ApiError('invalid_response', 'The server returned an invalid profile');
+  }
+
+  const currentCompany = typeof value.currentCompany === 'string' ? value.currentCompany : '';
+  const workHistory = parseWorkHistory(value.workHistory);
+
+  // Profiles saved before work history keep their experience, employment and company as stored
+  // until the candidate adds roles to replace them
+  return {
+    userId: value.userId,
+    fullName: value.fullName,
+    // Numbers saved before country codes were asked for stay as they are until the candidate confirms one
+    phone: value.phone,
+    yearsOfExperience: typeof value.yearsOfExperience === 'number' ? value.yearsOfExperience : null,
+    currentlyEmployed: typeof value.currentlyEmployed === 'boolean' ? value.currentlyEmployed : null,
+    currentCompany,
+    // Skills saved before entries had proficiency and years are plain names
+    skills: parseSkillEntries(value.skills),
+    workHistory,
+    education: parseEducation(value.education),
+    updatedAt: value.updatedAt,
+  };
+};
@@ -0,0 +1,26 @@
+import { ResumeFile } from '../types/application';
+import { ApiError } from './http';
+import { isFileAnswer } from '../utils/formSchema';
+import { isRecord } from '../utils/guards';
+
+/** Resume files, uploaded once so applications and drafts can refer to them without carrying their contents. */
+export interface ResumeService {
+  /** Rejects with `validation_failed` when the file is too large or not a PDF or Word document. */
+  uploadResume: (token: string, file: File) => Promise<ResumeFile>;
+  /** The file's contents; rejects with `not_found` for unknown ids. */
+  downloadResume: (token: string, resumeId: string) => Promise<Blob>;
+}
+
+// Resumes stored inline before uploads had ids have no file to fetch, so they read as none
+export const parseResumeFile = (value: unknown): ResumeFile | null =>
+  isFileAnswer(value) && isRecord(value) && typeof value.id === 'string' && value.id
+    ? { id: value.id, fileName: value.fileName, mimeType: value.mimeType, size: value.size }
+    : null;
+
+export const parseUploadedResume = (value: unknown): ResumeFile => {
+  const resume = parseResumeFile(value);
+  if (!resume) {
+    throw new ApiError('invalid_response', 'The server returned an invalid resume');
+  }
+  return resume;
+};
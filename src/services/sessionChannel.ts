@@ -0,0 +1,57 @@
+export type SessionEvent =
+  | { type: 'login' }
+  | { type: 'refresh' }
+  | { type: 'logout' }
+  | { type: 'user-updated' };
+
+export interface SessionChannel {
+  post: (event: SessionEvent) => void;
+  subscribe: (listener: (event: SessionEvent) => void) => () => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'job-portal-auth';
+const STORAGE_EVENT_KEY = 'auth_session_event';
+
+/**
+ * Tells other tabs of this origin that the session changed. The session itself always
+ * lives in localStorage; events only say "go re-read it". Uses BroadcastChannel where
+ * available and falls back to `storage` events, which fire in every other tab on write.
+ */
+export const createSessionChannel = (): SessionChannel => {
+  const listeners = new Set<(event: SessionEvent) => void>();
+  const notify = (event: SessionEvent) => listeners.forEach(listener => listener(event));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (message: MessageEvent<SessionEvent>) => notify(message.data);
+    return {
+      post: event => channel.postMessage(event),
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return;
+    try {
+      notify((JSON.parse(e.newValue) as { event: SessionEvent }).event);
+    } catch {
+      // ignore malformed events written by other code
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    // The nonce makes repeated identical events still count as a change
+    post: event => localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, nonce: crypto.randomUUID() })),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
@@ -0,0 +1,142 @@
+import { EducationEntry, WorkHistoryEntry } from './career';
+import { FileAnswer, FormValue, FormValues } from './formSchema';
+import { ScreeningResult } from './screening';
+import { SkillEntry } from './skill';
+
+export const APPLICATION_STATUSES = ['submitted', 'under_review', 'interview', 'offer', 'rejected', 'withdrawn'] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  interview: 'Interview',
+  offer: 'Offer',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+/** Statuses from which the application can still move forward, and be withdrawn */
+export const ACTIVE_APPLICATION_STATUSES: ApplicationStatus[] = ['submitted', 'under_review', 'interview'];
+
+/** Answers can only be amended until a recruiter starts reviewing them */
+export const AMENDABLE_APPLICATION_STATUSES: ApplicationStatus[] = ['submitted'];
+
+/** The questions every application form asks, which also feed the candidate's profile. */
+export interface CoreApplicationAnswers {
+  fullName: string;
+  email: string;
+  /** E.164, e.g. "+14155550123" */
+  phone: string;
+  /** Whole years, worked out from `workHistory` when the form asks for it rather than for a number */
+  experience: string;
+  /** Whether `workHistory` has a current role, when the form asks for it */
+  employmentStatus: '' | 'yes' | 'no';
+  /** The employer of the current role in `workHistory`, when the form asks for it */
+  currentCompany: string;
+  skills: SkillEntry[];
+  workHistory: WorkHistoryEntry[];
+  education: EducationEntry[];
+}
+
+/** An answer to one of the job's own questions, copied with its label so it still reads well if the form changes. */
+export interface CustomAnswer {
+  name: string;
+  label: string;
+  value: FormValue;
+  /** The value as the candidate saw it, e.g. option labels rather than their values */
+  displayValue: string;
+}
+
+/** What the candidate filled in on the application form. */
+export interface ApplicationAnswers extends CoreApplicationAnswers {
+  /** Sanitized rich-text HTML with placeholders filled in; empty when the candidate didn't write one */
+  coverLetter: string;
+  /** Answers to questions outside the core set, in the order the form asked them */
+  customAnswers: CustomAnswer[];
+}
+
+export const RESUME_MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+} as const;
+
+export const RESUME_MAX_BYTES = 2 * 1024 * 1024;
+
+/**
+ * The candidate's resume, uploaded once on its own; applications and drafts only refer to it,
+ * and its contents are fetched by id when someone downloads it.
+ */
+export interface ResumeFile extends FileAnswer {
+  id: string;
+}
+
+/** The closing declaration as the candidate saw it, and when they confirmed it. */
+export interface ApplicationDeclaration {
+  text: string;
+  acceptedAt: string;
+}
+
+export interface ApplicationSubmission {
+  jobId: string;
+  answers: ApplicationAnswers;
+  resume?: ResumeFile | null;
+  /** The declaration the candidate confirmed, if the form has one; the service records when */
+  declaration?: string | null;
+}
+
+export interface ApplicationRevision {
+  /** 1 for the original submission, then one more per amendment */
+  revision: number;
+  answers: ApplicationAnswers;
+  savedAt: string;
+  /** Null for forms without a declaration, and for revisions saved before declarations were recorded */
+  declaration: ApplicationDeclaration | null;
+}
+
+export interface ApplicationStatusChange {
+  status: ApplicationStatus;
+  changedAt: string;
+  /** Optional message shown to the candidate alongside the change */
+  note?: string;
+}
+
+export interface JobApplication {
+  id: string;
+  /** Short and readable, for candidates to quote, e.g. "JA-20240507-K3F9QX" */
+  referenceNumber: string;
+  jobId: string;
+  candidateId: string;
+  /** Copied from the job at submission so the history still reads well if the job changes */
+  jobTitle: string;
+  company: string;
+  /** The latest revision's answers */
+  answers: ApplicationAnswers;
+  /** Oldest first; the last entry matches `answers` */
+  revisions: ApplicationRevision[];
+  status: ApplicationStatus;
+  submittedAt: string;
+  /** Oldest first; the last entry matches `status` */
+  statusHistory: ApplicationStatusChange[];
+  /** The candidate's optional reason, once withdrawn */
+  withdrawalReason?: string;
+  resume: ResumeFile | null;
+  /**
+   * How the latest answers fared against the job's screening questions, as the server checked them. Only
+   * reviewers see it, so it is null in the candidate's own applications, and for jobs without screening questions.
+   */
+  screening: ScreeningResult | null;
+}
+
+/** An application the candidate has started but not yet submitted. */
+export interface ApplicationDraft {
+  jobId: string;
+  /** Copied from the job so the drafts list reads well without loading every job */
+  jobTitle: string;
+  company: string;
+  values: FormValues;
+  /** The wizard step the candidate was on, to resume from */
+  step: string | null;
+  resume: ResumeFile | null;
+  savedAt: string;
+}
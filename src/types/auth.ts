@@ -1,15 +1,52 @@
+/** OAuth/OIDC identity providers; add an id here (plus its client configuration) to offer a new sign-in button. */
+export const OAUTH_PROVIDERS = ['google'] as const;
+
+export type OAuthProviderId = (typeof OAUTH_PROVIDERS)[number];
+
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProviderId, string> = {
+  google: 'Google',
+};
+
+export type AuthProviderId = 'email' | OAuthProviderId;
+
+export const USER_ROLES = ['candidate', 'recruiter', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface NotificationPreferences {
+  applicationUpdates: boolean;
+  jobAlerts: boolean;
+  productNews: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  applicationUpdates: true,
+  jobAlerts: true,
+  productNews: false,
+};
+
 export interface User {
   id: string;
   email: string;
+  emailVerified: boolean;
   name: string;
   avatar?: string;
-  provider: 'email' | 'google';
+  provider: AuthProviderId;
+  role: UserRole;
+  mfaEnabled: boolean;
+  /** Identity providers that can sign in to this account, including the one it was created with */
+  linkedProviders: OAuthProviderId[];
+  notificationPreferences: NotificationPreferences;
   createdAt: string;
 }
 
 export interface AuthState {
   user: User | null;
   token: string | null;
+  /** Access-token expiry in epoch milliseconds; null for tokens without an `exp` claim */
+  expiresAt: number | null;
+  /** Set after a correct password when a second factor is still required */
+  mfaChallenge: MfaChallenge | null;
   isLoading: boolean;
   isAuthenticated: boolean;
 }
@@ -26,7 +63,34 @@ export interface SignupCredentials {
   confirmPassword: string;
 }
 
+export interface ResetPasswordCredentials {
+  token: string;
+  password: string;
+  confirmPassword: string;
+}
+
+/** Proof of identity required before destructive account changes. */
+export type ReauthCredentials = { password: string } | { provider: OAuthProviderId; idToken: string };
+
 export interface AuthResponse {
   user: User;
   token: string;
-}
\ No newline at end of file
+  refreshToken?: string;
+}
+
+export interface MfaChallenge {
+  status: 'mfa_required';
+  /** Short-lived token proving the password step succeeded */
+  mfaToken: string;
+}
+
+export type LoginResponse = AuthResponse | MfaChallenge;
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaEnrollmentResult {
+  recoveryCodes: string[];
+}
@@ -0,0 +1,24 @@
+/** One job in a candidate's work history, on their profile or an application. */
+export interface WorkHistoryEntry {
+  /** Stable across edits and reordering; only used to tell entries apart */
+  id: string;
+  employer: string;
+  title: string;
+  /** "YYYY-MM" */
+  startDate: string;
+  /** "YYYY-MM"; null while the role is current */
+  endDate: string | null;
+  /** At most one entry is current; its employer is the candidate's current company */
+  isCurrent: boolean;
+  description: string;
+}
+
+/** One qualification in a candidate's education history. */
+export interface EducationEntry {
+  id: string;
+  institution: string;
+  degree: string;
+  fieldOfStudy: string;
+  /** Expected year for qualifications still in progress; null when not given */
+  graduationYear: number | null;
+}
@@ -0,0 +1,19 @@
+/** A reusable cover letter the candidate keeps on their account. */
+export interface CoverLetterTemplate {
+  id: string;
+  name: string;
+  /** Rich-text HTML, with placeholders such as `{{job.title}}` left to fill in per application */
+  body: string;
+  updatedAt: string;
+}
+
+export type CoverLetterTemplateInput = Pick<CoverLetterTemplate, 'name' | 'body'>;
+
+/** Placeholders a letter can use, with what each is filled in from */
+export const COVER_LETTER_PLACEHOLDERS = {
+  'job.title': "The job's title",
+  'job.company': 'The hiring company',
+  'user.name': 'Your name',
+} as const;
+
+export type CoverLetterPlaceholder = keyof typeof COVER_LETTER_PLACEHOLDERS;
@@ -0,0 +1,130 @@
+import { EducationEntry, WorkHistoryEntry } from './career';
+import { SkillEntry } from './skill';
+
+export const FORM_FIELD_TYPES = [
+  'text',
+  'number',
+  'phone',
+  'email',
+  'select',
+  'multi-select',
+  'radio',
+  'checkbox',
+  'textarea',
+  'file',
+  'skills',
+  'work-history',
+  'education',
+  'cover-letter',
+] as const;
+
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+}
+
+/** What a file field holds once the candidate has picked a file. */
+export interface FileAnswer {
+  fileName: string;
+  mimeType: string;
+  /** In bytes */
+  size: number;
+}
+
+/**
+ * A single field's value: text-like fields, selects and radios hold a string, multi-selects a list,
+ * checkboxes a boolean, file fields the chosen file (or null), skills fields the rated skills and
+ * work-history and education fields their entries in the candidate's order; cover letters are sanitized HTML.
+ */
+export type FormValue =
+  | string
+  | string[]
+  | SkillEntry[]
+  | WorkHistoryEntry[]
+  | EducationEntry[]
+  | boolean
+  | FileAnswer
+  | null;
+
+export type FormValues = Record<string, FormValue>;
+
+/** Error message per field name; fields without an error are absent. */
+export type FormErrors = Record<string, string | undefined>;
+
+export const VALIDATION_RULE_TYPES = [
+  'required',
+  'minLength',
+  'maxLength',
+  'maxWords',
+  'min',
+  'max',
+  'pattern',
+  'minSelected',
+  'maxFileSize',
+  'fileTypes',
+] as const;
+
+/** Rules run in order and the first failure wins; all but `required` skip empty values. */
+export type ValidationRule =
+  | { type: 'required'; message?: string }
+  | { type: 'minLength'; value: number; message?: string }
+  | { type: 'maxLength'; value: number; message?: string }
+  /** Counts the words of the text, ignoring any rich-text markup */
+  | { type: 'maxWords'; value: number; message?: string }
+  | { type: 'min'; value: number; message?: string }
+  | { type: 'max'; value: number; message?: string }
+  /** `value` is a regular expression source, since schemas arrive as JSON; it runs with the `u` flag */
+  | { type: 'pattern'; value: string; message: string }
+  | { type: 'minSelected'; value: number; message?: string }
+  /** In bytes */
+  | { type: 'maxFileSize'; value: number; message?: string }
+  /** Accepted MIME types */
+  | { type: 'fileTypes'; value: string[]; message?: string };
+
+/** Shows a field only while another field holds a value; for multi-selects, while it includes the value. */
+export interface VisibilityCondition {
+  field: string;
+  equals: string | boolean;
+}
+
+export const FORM_SECTION_ICONS = ['user', 'briefcase', 'education', 'code', 'letter', 'file', 'question'] as const;
+
+export type FormSectionIcon = (typeof FORM_SECTION_ICONS)[number];
+
+export interface FormField {
+  /** Unique across the schema; also the key the answer is stored under */
+  name: string;
+  type: FormFieldType;
+  label: string;
+  /** Short note shown beside the label, e.g. "Letters only" */
+  hint?: string;
+  placeholder?: string;
+  /** Choices for select, multi-select and radio fields */
+  options?: FormFieldOption[];
+  rules?: ValidationRule[];
+  visibleWhen?: VisibilityCondition;
+  /**
+   * Regular expression character class, with the `u` flag; anything typed outside it is dropped,
+   * e.g. "\\p{L}\\s\\-'"
+   */
+  allowedCharacters?: string;
+  maxLength?: number;
+  /** Half-width fields sit side by side on wide screens */
+  width?: 'half' | 'full';
+  /** For file fields, passed through to the input's `accept` attribute */
+  accept?: string;
+}
+
+export interface FormSection {
+  id: string;
+  title: string;
+  icon?: FormSectionIcon;
+  fields: FormField[];
+}
+
+/** A declarative form: the sections and fields to render, how to validate them and when to show them. */
+export interface FormSchema {
+  sections: FormSection[];
+}
@@ -0,0 +1,118 @@
+import { FormSchema } from './formSchema';
+import { AskedScreeningQuestion } from './screening';
+
+export const EMPLOYMENT_TYPES = ['full-time', 'part-time', 'contract', 'internship'] as const;
+
+export type EmploymentType = (typeof EMPLOYMENT_TYPES)[number];
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  contract: 'Contract',
+  internship: 'Internship',
+};
+
+export const WORKPLACE_TYPES = ['on-site', 'hybrid', 'remote'] as const;
+
+export type WorkplaceType = (typeof WORKPLACE_TYPES)[number];
+
+export const WORKPLACE_TYPE_LABELS: Record<WorkplaceType, string> = {
+  'on-site': 'On-site',
+  hybrid: 'Hybrid',
+  remote: 'Remote',
+};
+
+export const JOB_STATUSES = ['open', 'closed'] as const;
+
+/** Only open jobs accept applications; closed ones stay listed for reference. */
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface SalaryRange {
+  /** Yearly amounts in whole currency units */
+  min: number;
+  max: number;
+  /** ISO 4217 code */
+  currency: string;
+}
+
+export interface ExperienceRange {
+  /** Years of experience asked for */
+  min: number;
+  /** null when there is no upper bound */
+  max: number | null;
+}
+
+export interface Job {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  workplaceType: WorkplaceType;
+  employmentType: EmploymentType;
+  experienceRange: ExperienceRange;
+  salaryRange: SalaryRange;
+  requiredSkills: string[];
+  description: string;
+  status: JobStatus;
+  postedAt: string;
+  /** The job's own application questions; jobs without one use the standard form */
+  applicationForm?: FormSchema;
+  /** Most words the cover letter may have; no limit when absent */
+  coverLetterWordLimit?: number;
+  /** Asked of every applicant on a step of their own; the server checks the answers when they are submitted */
+  screeningQuestions?: AskedScreeningQuestion[];
+}
+
+/** Buckets offered by the experience facet; a job matches every bucket its range overlaps. */
+export const EXPERIENCE_LEVELS = [
+  { id: '0-2', label: '0–2 years', min: 0, max: 2 },
+  { id: '3-5', label: '3–5 years', min: 3, max: 5 },
+  { id: '6-9', label: '6–9 years', min: 6, max: 9 },
+  { id: '10+', label: '10+ years', min: 10, max: null },
+] as const;
+
+export type ExperienceLevelId = (typeof EXPERIENCE_LEVELS)[number]['id'];
+
+/** Yearly salary buckets, compared in each job's own currency. */
+export const SALARY_BANDS = [
+  { id: 'under-50k', label: 'Under 50K', min: 0, max: 49999 },
+  { id: '50k-100k', label: '50K–100K', min: 50000, max: 99999 },
+  { id: '100k-150k', label: '100K–150K', min: 100000, max: 149999 },
+  { id: '150k-plus', label: '150K+', min: 150000, max: null },
+] as const;
+
+export type SalaryBandId = (typeof SALARY_BANDS)[number]['id'];
+
+export interface JobSearchQuery {
+  /** Free text matched against title, company and description */
+  text: string;
+  locations: string[];
+  workplaceTypes: WorkplaceType[];
+  experienceLevels: ExperienceLevelId[];
+  salaryBands: SalaryBandId[];
+  skills: string[];
+  /** Opaque position returned as `nextCursor` by the previous page */
+  cursor: string | null;
+}
+
+export interface FacetCount<T extends string = string> {
+  value: T;
+  /** Matching jobs if this value were selected, given the other facets' selections */
+  count: number;
+}
+
+export interface JobSearchFacets {
+  locations: FacetCount[];
+  workplaceTypes: FacetCount<WorkplaceType>[];
+  experienceLevels: FacetCount<ExperienceLevelId>[];
+  salaryBands: FacetCount<SalaryBandId>[];
+  skills: FacetCount[];
+}
+
+export interface JobSearchResult {
+  jobs: Job[];
+  /** Total matches across all pages */
+  total: number;
+  nextCursor: string | null;
+  facets: JobSearchFacets;
+}
@@ -0,0 +1,23 @@
+import { EducationEntry, WorkHistoryEntry } from './career';
+import { SkillEntry } from './skill';
+
+/** Details a candidate keeps on file so applications can be pre-filled. */
+export interface CandidateProfile {
+  userId: string;
+  fullName: string;
+  /** E.164, e.g. "+14155550123"; empty when not given */
+  phone: string;
+  /** Worked out from `workHistory`; while it is empty, as stored before work history was asked for, else null */
+  yearsOfExperience: number | null;
+  /** Whether `workHistory` has a current role; while it is empty, as stored before, else null */
+  currentlyEmployed: boolean | null;
+  /** The employer of the current role; while `workHistory` is empty, as stored before, else empty */
+  currentCompany: string;
+  skills: SkillEntry[];
+  /** In the candidate's order, usually most recent first */
+  workHistory: WorkHistoryEntry[];
+  education: EducationEntry[];
+  updatedAt: string;
+}
+
+export type CandidateProfileInput = Omit<CandidateProfile, 'userId' | 'updatedAt'>;
@@ -0,0 +1,55 @@
+import { FormField } from './formSchema';
+
+export const SCREENING_RULE_TYPES = ['knockout', 'score', 'flag'] as const;
+
+/**
+ * What happens when an answer misses the expected one: a knock-out marks the applicant as not meeting the
+ * job's requirements, a scored question only adds its weight when met, and a flag asks a recruiter to look.
+ */
+export type ScreeningRule = { type: 'knockout' } | { type: 'score'; weight: number } | { type: 'flag' };
+
+export const SCREENING_EXPECTATION_TYPES = ['equals', 'oneOf', 'atLeast', 'atMost'] as const;
+
+/** The answer a qualified applicant gives; for multi-selects, `equals` and `oneOf` look for the options chosen. */
+export type ScreeningExpectation =
+  | { type: 'equals'; value: string | boolean }
+  | { type: 'oneOf'; value: string[] }
+  /** For number fields */
+  | { type: 'atLeast'; value: number }
+  | { type: 'atMost'; value: number };
+
+/** A question the job asks every applicant, e.g. "Are you authorized to work in the US?". */
+export interface ScreeningQuestion {
+  /** Shown in the form's screening step; its name must be unique across the job's form */
+  field: FormField;
+  expected: ScreeningExpectation;
+  rule: ScreeningRule;
+}
+
+/** A screening question as candidates get it: what is asked, never the expected answer or what missing it does. */
+export type AskedScreeningQuestion = Pick<ScreeningQuestion, 'field'>;
+
+/** How one answer fared, copied with its wording so it still reads well if the job's questions change. */
+export interface ScreeningOutcome {
+  name: string;
+  label: string;
+  /** The answer as the candidate saw it */
+  answer: string;
+  /** The expected answer, in the same terms */
+  expectedAnswer: string;
+  rule: ScreeningRule;
+  passed: boolean;
+}
+
+/** The screening questions' verdict on an application; only ever shown to reviewers. */
+export interface ScreeningResult {
+  /** In the order the form asked them; questions hidden from the candidate are left out */
+  outcomes: ScreeningOutcome[];
+  /** The share of scored weight the answers earned, 0–100; null when no question is scored */
+  score: number | null;
+  /** Some knock-out question was missed */
+  knockedOut: boolean;
+  /** Some flagged question was missed */
+  flagged: boolean;
+  evaluatedAt: string;
+}
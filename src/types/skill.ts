@@ -0,0 +1,90 @@
+export const SKILL_CATEGORIES = ['languages', 'frontend', 'backend', 'data', 'cloud', 'practices'] as const;
+
+export type SkillCategory = (typeof SKILL_CATEGORIES)[number];
+
+export const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  languages: 'Programming Languages',
+  frontend: 'Frontend',
+  backend: 'Backend',
+  data: 'Data & Databases',
+  cloud: 'Cloud & DevOps',
+  practices: 'Practices & Tools',
+};
+
+/** One skill in the shared taxonomy; entries refer to it by `id`, so renaming it never orphans them. */
+export interface SkillDefinition {
+  id: string;
+  name: string;
+  category: SkillCategory;
+  /** Other names people search for or write on resumes, e.g. "JS" for JavaScript */
+  aliases: string[];
+}
+
+export const SKILL_TAXONOMY: SkillDefinition[] = [
+  { id: 'javascript', name: 'JavaScript', category: 'languages', aliases: ['JS', 'ECMAScript', 'ES6'] },
+  { id: 'typescript', name: 'TypeScript', category: 'languages', aliases: ['TS'] },
+  { id: 'python', name: 'Python', category: 'languages', aliases: ['Python 3', 'Py'] },
+  { id: 'java', name: 'Java', category: 'languages', aliases: ['J2EE', 'JDK'] },
+  { id: 'csharp', name: 'C#', category: 'languages', aliases: ['C Sharp', 'CSharp'] },
+  { id: 'cpp', name: 'C++', category: 'languages', aliases: ['CPP'] },
+  { id: 'go', name: 'Go', category: 'languages', aliases: ['Golang'] },
+  { id: 'rust', name: 'Rust', category: 'languages', aliases: [] },
+  { id: 'ruby', name: 'Ruby', category: 'languages', aliases: [] },
+  { id: 'php', name: 'PHP', category: 'languages', aliases: [] },
+  { id: 'kotlin', name: 'Kotlin', category: 'languages', aliases: [] },
+  { id: 'swift', name: 'Swift', category: 'languages', aliases: [] },
+  { id: 'react', name: 'React', category: 'frontend', aliases: ['ReactJS', 'React.js'] },
+  { id: 'angular', name: 'Angular', category: 'frontend', aliases: ['AngularJS', 'Angular.js'] },
+  { id: 'vue', name: 'Vue', category: 'frontend', aliases: ['VueJS', 'Vue.js'] },
+  { id: 'html-css', name: 'HTML & CSS', category: 'frontend', aliases: ['HTML', 'CSS', 'HTML5', 'CSS3'] },
+  { id: 'tailwind', name: 'Tailwind CSS', category: 'frontend', aliases: ['Tailwind'] },
+  { id: 'react-native', name: 'React Native', category: 'frontend', aliases: ['RN'] },
+  { id: 'nodejs', name: 'Node.js', category: 'backend', aliases: ['Node', 'NodeJS'] },
+  { id: 'spring', name: 'Spring', category: 'backend', aliases: ['Spring Boot', 'Spring Framework'] },
+  { id: 'django', name: 'Django', category: 'backend', aliases: [] },
+  { id: 'rails', name: 'Ruby on Rails', category: 'backend', aliases: ['Rails', 'RoR'] },
+  { id: 'dotnet', name: '.NET', category: 'backend', aliases: ['ASP.NET', 'dotnet', '.NET Core'] },
+  { id: 'graphql', name: 'GraphQL', category: 'backend', aliases: [] },
+  { id: 'rest-apis', name: 'REST APIs', category: 'backend', aliases: ['REST', 'RESTful'] },
+  { id: 'sql', name: 'SQL', category: 'data', aliases: ['Structured Query Language'] },
+  { id: 'postgresql', name: 'PostgreSQL', category: 'data', aliases: ['Postgres', 'PSQL'] },
+  { id: 'mysql', name: 'MySQL', category: 'data', aliases: ['MariaDB'] },
+  { id: 'mongodb', name: 'MongoDB', category: 'data', aliases: ['Mongo'] },
+  { id: 'pandas', name: 'pandas', category: 'data', aliases: [] },
+  { id: 'machine-learning', name: 'Machine Learning', category: 'data', aliases: ['ML'] },
+  { id: 'spark', name: 'Apache Spark', category: 'data', aliases: ['Spark', 'PySpark'] },
+  { id: 'aws', name: 'AWS', category: 'cloud', aliases: ['Amazon Web Services'] },
+  { id: 'azure', name: 'Azure', category: 'cloud', aliases: ['Microsoft Azure'] },
+  { id: 'gcp', name: 'Google Cloud', category: 'cloud', aliases: ['GCP', 'Google Cloud Platform'] },
+  { id: 'docker', name: 'Docker', category: 'cloud', aliases: ['Containers'] },
+  { id: 'kubernetes', name: 'Kubernetes', category: 'cloud', aliases: ['K8s'] },
+  { id: 'terraform', name: 'Terraform', category: 'cloud', aliases: ['HCL'] },
+  { id: 'ci-cd', name: 'CI/CD', category: 'cloud', aliases: ['Continuous Integration', 'GitHub Actions', 'Jenkins'] },
+  { id: 'git', name: 'Git', category: 'practices', aliases: ['GitHub', 'GitLab'] },
+  { id: 'testing', name: 'Automated Testing', category: 'practices', aliases: ['Unit Testing', 'TDD', 'Jest'] },
+  { id: 'agile', name: 'Agile', category: 'practices', aliases: ['Scrum', 'Kanban'] },
+  { id: 'ux-design', name: 'UX Design', category: 'practices', aliases: ['UX', 'UI Design', 'Figma'] },
+];
+
+export const SKILL_PROFICIENCIES = ['beginner', 'intermediate', 'advanced', 'expert'] as const;
+
+export type SkillProficiency = (typeof SKILL_PROFICIENCIES)[number];
+
+export const SKILL_PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+/** One skill a candidate claims, on their profile or an application. */
+export interface SkillEntry {
+  /** The taxonomy skill, or null for one the candidate added themselves */
+  skillId: string | null;
+  /** The taxonomy name, or the custom skill as the candidate typed it */
+  name: string;
+  /** null for skills recorded before proficiency was asked, or suggested from a resume and not yet rated */
+  proficiency: SkillProficiency | null;
+  /** Years of use; null when not given */
+  years: number | null;
+}
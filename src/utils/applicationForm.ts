@@ -0,0 +1,264 @@
+import { ApplicationAnswers, CoreApplicationAnswers } from '../types/application';
+import { FormSchema, FormValues } from '../types/formSchema';
+import { Job } from '../types/job';
+import { AskedScreeningQuestion } from '../types/screening';
+import { currentRole, yearsOfExperience } from './career';
+import {
+  educationOf,
+  emptyFormValue,
+  formatFormValue,
+  isFieldVisible,
+  schemaFields,
+  skillEntriesOf,
+  workHistoryOf,
+} from './formSchema';
+import { isRichTextEmpty, sanitizeRichText } from './richText';
+import { SCREENING_SECTION_ID } from './screening';
+import { NAME_CHARACTERS, NAME_PATTERN } from './validation';
+
+/** The closing confirmation; it gates submission and its wording is recorded, but it is not stored as an answer. */
+export const DECLARATION_FIELD = 'declaration';
+
+export const DEFAULT_DECLARATION_TEXT =
+  'I confirm that the above information is true and accurate to the best of my knowledge.';
+
+/** Stored as the answers' cover letter rather than as a custom answer. */
+export const COVER_LETTER_FIELD = 'coverLetter';
+
+const CORE_ANSWER_KEYS: (keyof CoreApplicationAnswers)[] = [
+  'fullName',
+  'email',
+  'phone',
+  'experience',
+  'employmentStatus',
+  'currentCompany',
+  'skills',
+  'workHistory',
+  'education',
+];
+
+const isCoreAnswerKey = (name: string): name is keyof CoreApplicationAnswers =>
+  CORE_ANSWER_KEYS.includes(name as keyof CoreApplicationAnswers);
+
+const NAME_ERROR = 'Full name must contain only letters, spaces, hyphens, and apostrophes';
+
+/** Used for jobs that don't define their own form. */
+export const DEFAULT_APPLICATION_FORM: FormSchema = {
+  sections: [
+    {
+      id: 'personal',
+      title: 'Personal Information',
+      icon: 'user',
+      fields: [
+        {
+          name: 'fullName',
+          type: 'text',
+          label: 'Full Name',
+          hint: 'Letters only',
+          placeholder: 'Enter your full name',
+          allowedCharacters: NAME_CHARACTERS,
+          width: 'half',
+          rules: [
+            { type: 'required', message: 'Full name is required' },
+            { type: 'pattern', value: NAME_PATTERN.source, message: NAME_ERROR },
+            { type: 'minLength', value: 2, message: NAME_ERROR },
+          ],
+        },
+        {
+          name: 'email',
+          type: 'email',
+          label: 'Email Address',
+          placeholder: 'Enter your email address',
+          width: 'half',
+          rules: [{ type: 'required', message: 'Email is required' }],
+        },
+        {
+          name: 'phone',
+          type: 'phone',
+          label: 'Phone Number',
+          hint: 'Choose your country code',
+          placeholder: 'Enter your phone number',
+          rules: [{ type: 'required', message: 'Phone number is required' }],
+        },
+      ],
+    },
+    {
+      id: 'professional',
+      title: 'Professional Information',
+      icon: 'briefcase',
+      fields: [
+        {
+          name: 'workHistory',
+          type: 'work-history',
+          label: 'Work History',
+          hint: 'Most recent first; your years of experience are worked out from it',
+        },
+      ],
+    },
+    {
+      id: 'education',
+      title: 'Education',
+      icon: 'education',
+      fields: [
+        {
+          name: 'education',
+          type: 'education',
+          label: 'Education',
+          hint: 'Degrees, diplomas and certifications',
+        },
+      ],
+    },
+    {
+      id: 'skills',
+      title: 'Skills',
+      icon: 'code',
+      fields: [
+        {
+          name: 'skills',
+          type: 'skills',
+          label: 'Add your skills (at least one)',
+          hint: 'Rate each one and say how long you have used it',
+          rules: [
+            { type: 'required', message: 'Please select at least one skill' },
+            { type: 'minSelected', value: 1, message: 'Please select at least one skill' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'coverLetter',
+      title: 'Cover Letter',
+      icon: 'letter',
+      fields: [
+        {
+          name: COVER_LETTER_FIELD,
+          type: 'cover-letter',
+          label: 'Cover Letter',
+          hint: 'Optional; tell the hiring team why you are applying',
+        },
+      ],
+    },
+    {
+      id: 'declaration',
+      title: 'Declaration',
+      icon: 'file',
+      fields: [
+        {
+          name: DECLARATION_FIELD,
+          type: 'checkbox',
+          label: DEFAULT_DECLARATION_TEXT,
+          rules: [{ type: 'required', message: 'You must confirm the information is true' }],
+        },
+      ],
+    },
+  ],
+};
+
+/** Adds the job's screening questions as a step of their own, just before the declaration if the form has one. */
+const withScreeningSection = (schema: FormSchema, questions: AskedScreeningQuestion[]): FormSchema => {
+  if (questions.length === 0) return schema;
+  const declarationIndex = schema.sections.findIndex(section =>
+    section.fields.some(field => field.name === DECLARATION_FIELD)
+  );
+  const at = declarationIndex === -1 ? schema.sections.length : declarationIndex;
+  return {
+    sections: [
+      ...schema.sections.slice(0, at),
+      {
+        id: SCREENING_SECTION_ID,
+        title: 'Screening Questions',
+        icon: 'question',
+        fields: questions.map(question => question.field),
+      },
+      ...schema.sections.slice(at),
+    ],
+  };
+};
+
+/** The job's form, or the standard one, with its screening questions and cover letter word limit applied. */
+export const applicationFormFor = (job: Job): FormSchema => {
+  const schema = withScreeningSection(job.applicationForm ?? DEFAULT_APPLICATION_FORM, job.screeningQuestions ?? []);
+  const limit = job.coverLetterWordLimit;
+  if (!limit) return schema;
+  return {
+    sections: schema.sections.map(section => ({
+      ...section,
+      fields: section.fields.map(field =>
+        field.type === 'cover-letter'
+          ? {
+              ...field,
+              rules: [...(field.rules ?? []).filter(rule => rule.type !== 'maxWords'), { type: 'maxWords', value: limit }],
+            }
+          : field
+      ),
+    })),
+  };
+};
+
+/** Form values for editing previously submitted answers. */
+export const answersToFormValues = ({ customAnswers, ...core }: ApplicationAnswers): FormValues => ({
+  ...core,
+  skills: core.skills.map(entry => ({ ...entry })),
+  workHistory: core.workHistory.map(entry => ({ ...entry })),
+  education: core.education.map(entry => ({ ...entry })),
+  ...Object.fromEntries(customAnswers.map(answer => [answer.name, answer.value])),
+});
+
+/**
+ * The answers to submit: core questions by name, everything else as custom answers.
+ * Hidden fields are left out, so a company typed in before answering "not employed" is not sent.
+ */
+export const formValuesToAnswers = (schema: FormSchema, values: FormValues): ApplicationAnswers => {
+  const fields = schemaFields(schema).filter(field => isFieldVisible(field, values));
+  const visibleValue = (name: string) => (fields.some(field => field.name === name) ? values[name] : undefined);
+  const text = (name: string) => {
+    const value = visibleValue(name);
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const skills = visibleValue('skills');
+  const coverLetter = text(COVER_LETTER_FIELD);
+  const workHistory = workHistoryOf(visibleValue('workHistory') ?? null).map(entry => ({
+    ...entry,
+    employer: entry.employer.trim(),
+    title: entry.title.trim(),
+    description: entry.description.trim(),
+  }));
+  const current = currentRole(workHistory);
+  // Worked out from the work history when the form asks for that instead of the question itself
+  const fromHistory = (name: keyof CoreApplicationAnswers) =>
+    visibleValue('workHistory') !== undefined && !schemaFields(schema).some(field => field.name === name);
+  const employmentStatus = fromHistory('employmentStatus') ? (current ? 'yes' : 'no') : text('employmentStatus');
+
+  return {
+    fullName: text('fullName'),
+    email: text('email'),
+    phone: text('phone'),
+    experience: fromHistory('experience') ? String(yearsOfExperience(workHistory)) : text('experience'),
+    employmentStatus: employmentStatus === 'yes' || employmentStatus === 'no' ? employmentStatus : '',
+    currentCompany: fromHistory('currentCompany') ? (current?.employer ?? '') : text('currentCompany'),
+    skills: skillEntriesOf(skills ?? null).map(entry => ({ ...entry, name: entry.name.trim() })),
+    workHistory,
+    education: educationOf(visibleValue('education') ?? null).map(entry => ({
+      ...entry,
+      institution: entry.institution.trim(),
+      degree: entry.degree.trim(),
+      fieldOfStudy: entry.fieldOfStudy.trim(),
+    })),
+    coverLetter: coverLetter && !isRichTextEmpty(coverLetter) ? sanitizeRichText(coverLetter) : '',
+    customAnswers: fields
+      .filter(
+        field => !isCoreAnswerKey(field.name) && field.name !== DECLARATION_FIELD && field.name !== COVER_LETTER_FIELD
+      )
+      .map(field => {
+        const raw = values[field.name] ?? emptyFormValue(field);
+        const value = typeof raw === 'string' ? raw.trim() : raw;
+        return { name: field.name, label: field.label, value, displayValue: formatFormValue(field, value) };
+      }),
+  };
+};
+
+/** The wording of the declaration the candidate ticked, or null when the form has none or it is unticked. */
+export const declarationText = (schema: FormSchema, values: FormValues): string | null => {
+  const field = schemaFields(schema).find(f => f.name === DECLARATION_FIELD);
+  return field && isFieldVisible(field, values) && values[DECLARATION_FIELD] === true ? field.label : null;
+};
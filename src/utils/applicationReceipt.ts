@@ -0,0 +1,98 @@
+import { APPLICATION_STATUS_LABELS, CoreApplicationAnswers, JobApplication } from '../types/application';
+import { APPLICATION_ANSWER_LABELS, formatAnswer } from './applications';
+import { formatWorkHistoryEntry } from './career';
+import { downloadBlob } from './download';
+import { createPdfDocument, PdfDocument } from './pdf';
+import { createPrintDocument } from './printDocument';
+import { richTextToPlainText } from './richText';
+import { formatSkillEntry } from './skills';
+
+const APPLICANT_KEYS: (keyof CoreApplicationAnswers)[] = ['fullName', 'email', 'phone'];
+
+const EXPERIENCE_KEYS: (keyof CoreApplicationAnswers)[] = ['experience', 'employmentStatus', 'currentCompany', 'education'];
+
+/** e.g. "May 7, 2024 at 12:00:00 PM UTC"; the time zone is spelled out since the receipt may be read anywhere */
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'long' });
+
+type ReceiptWriter = Pick<PdfDocument, 'text' | 'heading' | 'field' | 'space'>;
+
+const receiptOptions = ({ referenceNumber }: JobApplication, generatedAt: Date) => ({
+  title: `Application receipt ${referenceNumber}`,
+  footer: `Reference ${referenceNumber} · Generated ${formatTimestamp(generatedAt.toISOString())}`,
+});
+
+/**
+ * Everything the candidate sent with the latest revision: their details and answers, the declaration they
+ * confirmed and when, under the application's reference number.
+ */
+const writeReceipt = (receipt: ReceiptWriter, application: JobApplication) => {
+  const { answers, referenceNumber } = application;
+  const latest = application.revisions[application.revisions.length - 1];
+
+  receipt.text('Application Receipt', { size: 20, bold: true });
+  receipt.text(`${application.jobTitle} at ${application.company}`, { size: 12, color: 'muted' });
+  receipt.space(12);
+  receipt.field('Reference Number', referenceNumber);
+  receipt.field('Submitted', formatTimestamp(application.submittedAt));
+  if (latest && latest.revision > 1) {
+    receipt.field('Last Updated', `${formatTimestamp(latest.savedAt)} (revision ${latest.revision})`);
+  }
+  receipt.field('Status', APPLICATION_STATUS_LABELS[application.status]);
+
+  receipt.heading('Applicant');
+  APPLICANT_KEYS.forEach(key => receipt.field(APPLICATION_ANSWER_LABELS[key], formatAnswer(answers, key)));
+  receipt.field('Resume', application.resume?.fileName ?? 'None attached');
+
+  receipt.heading('Experience and Education');
+  // Unlike the one-line summaries elsewhere, the receipt keeps each role's description
+  receipt.field(
+    APPLICATION_ANSWER_LABELS.workHistory,
+    answers.workHistory.length > 0
+      ? answers.workHistory
+          .map(entry => [formatWorkHistoryEntry(entry), entry.description].filter(Boolean).join('\n'))
+          .join('\n\n')
+      : '—'
+  );
+  EXPERIENCE_KEYS.forEach(key => receipt.field(APPLICATION_ANSWER_LABELS[key], formatAnswer(answers, key)));
+
+  receipt.heading('Skills');
+  receipt.text(answers.skills.length > 0 ? answers.skills.map(formatSkillEntry).join('\n') : '—');
+
+  if (answers.customAnswers.length > 0) {
+    receipt.heading('Additional Questions');
+    answers.customAnswers.forEach(answer => receipt.field(answer.label, answer.displayValue || '—'));
+  }
+
+  if (answers.coverLetter) {
+    receipt.heading('Cover Letter');
+    receipt.text(richTextToPlainText(answers.coverLetter));
+  }
+
+  receipt.heading('Declaration');
+  if (latest?.declaration) {
+    receipt.text(latest.declaration.text);
+    receipt.space(6);
+    receipt.field('Accepted', formatTimestamp(latest.declaration.acceptedAt));
+  } else {
+    receipt.text('No declaration was recorded with this application.', { color: 'muted' });
+  }
+};
+
+/**
+ * Saves the application's receipt as a PDF through the browser's usual download. Answers in scripts the
+ * PDF's fonts don't have, e.g. Devanagari or Chinese, would print as "?", so those receipts open the print
+ * dialog instead, where they can still be saved as a PDF.
+ */
+export const downloadApplicationReceipt = (application: JobApplication, generatedAt: Date = new Date()) => {
+  const pdf = createPdfDocument(receiptOptions(application, generatedAt));
+  writeReceipt(pdf, application);
+  if (!pdf.hasMissingCharacters()) {
+    downloadBlob(pdf.toBlob(), `application-receipt-${application.referenceNumber}.pdf`);
+    return;
+  }
+
+  const printable = createPrintDocument(receiptOptions(application, generatedAt));
+  writeReceipt(printable, application);
+  printable.print();
+};
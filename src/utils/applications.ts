@@ -0,0 +1,57 @@
+import { ApplicationAnswers, ApplicationRevision, CoreApplicationAnswers } from '../types/application';
+import { formatEducationEntry, formatWorkHistoryEntry } from './career';
+import { formatPhoneNumber } from './phone';
+import { formatSkillEntry } from './skills';
+
+export const APPLICATION_ANSWER_LABELS: Record<keyof CoreApplicationAnswers, string> = {
+  fullName: 'Full Name',
+  email: 'Email Address',
+  phone: 'Phone Number',
+  experience: 'Experience (years)',
+  employmentStatus: 'Currently Employed',
+  currentCompany: 'Current Company',
+  skills: 'Skills',
+  workHistory: 'Work History',
+  education: 'Education',
+};
+
+/** A read-only rendering of one core answer; work history and education put each entry on its own line. */
+export const formatAnswer = (answers: CoreApplicationAnswers, key: keyof CoreApplicationAnswers): string => {
+  switch (key) {
+    case 'skills':
+      return answers.skills.length > 0 ? answers.skills.map(formatSkillEntry).join(', ') : '—';
+    case 'workHistory':
+      return answers.workHistory.length > 0 ? answers.workHistory.map(formatWorkHistoryEntry).join('\n') : '—';
+    case 'education':
+      return answers.education.length > 0 ? answers.education.map(formatEducationEntry).join('\n') : '—';
+    case 'employmentStatus':
+      return answers.employmentStatus === 'yes' ? 'Yes' : answers.employmentStatus === 'no' ? 'No' : '—';
+    case 'phone':
+      return answers.phone ? formatPhoneNumber(answers.phone) : '—';
+    default:
+      return answers[key] || '—';
+  }
+};
+
+// Reordering skills is not a change worth flagging; reordering work history or education is
+const comparable = (answers: CoreApplicationAnswers, key: keyof CoreApplicationAnswers) =>
+  key === 'skills' ? answers.skills.map(formatSkillEntry).sort().join('\n') : formatAnswer(answers, key);
+
+/** Core fields whose value differs between two revisions. */
+export const changedAnswerFields = (
+  previous: ApplicationAnswers,
+  current: ApplicationAnswers
+): (keyof CoreApplicationAnswers)[] =>
+  (Object.keys(APPLICATION_ANSWER_LABELS) as (keyof CoreApplicationAnswers)[]).filter(
+    key => comparable(previous, key) !== comparable(current, key)
+  );
+
+/** Names of the job's own questions whose answer differs between two revisions. */
+export const changedCustomAnswers = (previous: ApplicationAnswers, current: ApplicationAnswers): string[] =>
+  current.customAnswers
+    .filter(answer => previous.customAnswers.find(p => p.name === answer.name)?.displayValue !== answer.displayValue)
+    .map(answer => answer.name);
+
+/** The revision before the latest one, or null when the application was never amended. */
+export const previousRevision = (revisions: ApplicationRevision[]): ApplicationRevision | null =>
+  revisions.length > 1 ? revisions[revisions.length - 2] : null;
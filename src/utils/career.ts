@@ -0,0 +1,175 @@
+import { EducationEntry, WorkHistoryEntry } from '../types/career';
+import { isRecord } from './guards';
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+/** Earliest graduation year accepted; anything before is almost certainly a typo */
+export const MIN_GRADUATION_YEAR = 1950;
+
+/** How far ahead an expected graduation year may be */
+const MAX_YEARS_TO_GRADUATION = 8;
+
+/** The month `date` falls in, as "YYYY-MM". */
+export const monthOf = (date: Date): string => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const isMonth = (value: unknown): value is string => typeof value === 'string' && MONTH_PATTERN.test(value);
+
+/** Months since year 0, so that month ranges can be compared and subtracted. */
+const monthNumber = (month: string): number => {
+  const [, year, monthOfYear] = MONTH_PATTERN.exec(month) ?? [];
+  return Number(year) * 12 + Number(monthOfYear) - 1;
+};
+
+export const newWorkHistoryEntry = (): WorkHistoryEntry => ({
+  id: crypto.randomUUID(),
+  employer: '',
+  title: '',
+  startDate: '',
+  endDate: null,
+  isCurrent: false,
+  description: '',
+});
+
+export const newEducationEntry = (): EducationEntry => ({
+  id: crypto.randomUUID(),
+  institution: '',
+  degree: '',
+  fieldOfStudy: '',
+  graduationYear: null,
+});
+
+export const isWorkHistoryEntry = (value: unknown): value is WorkHistoryEntry =>
+  isRecord(value) && typeof value.employer === 'string' && typeof value.title === 'string';
+
+export const isEducationEntry = (value: unknown): value is EducationEntry =>
+  isRecord(value) && typeof value.institution === 'string' && typeof value.degree === 'string';
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const idOf = (value: Record<string, unknown>) =>
+  typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID();
+
+/** Reads stored work history, dropping malformed entries; only the first entry flagged current stays current. */
+export const parseWorkHistory = (value: unknown): WorkHistoryEntry[] => {
+  if (!Array.isArray(value)) return [];
+  let hasCurrent = false;
+  return value.flatMap(item => {
+    if (!isRecord(item) || !isWorkHistoryEntry(item)) return [];
+    const isCurrent = item.isCurrent === true && !hasCurrent;
+    hasCurrent = hasCurrent || isCurrent;
+    return [
+      {
+        id: idOf(item),
+        employer: item.employer,
+        title: item.title,
+        startDate: isMonth(item.startDate) ? item.startDate : '',
+        endDate: !isCurrent && isMonth(item.endDate) ? item.endDate : null,
+        isCurrent,
+        description: text(item.description),
+      },
+    ];
+  });
+};
+
+export const parseEducation = (value: unknown): EducationEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!isRecord(item) || !isEducationEntry(item)) return [];
+    return [
+      {
+        id: idOf(item),
+        institution: item.institution,
+        degree: item.degree,
+        fieldOfStudy: text(item.fieldOfStudy),
+        graduationYear: typeof item.graduationYear === 'number' ? Math.floor(item.graduationYear) : null,
+      },
+    ];
+  });
+};
+
+/** The role flagged current, if any. */
+export const currentRole = (history: WorkHistoryEntry[]): WorkHistoryEntry | undefined =>
+  history.find(entry => entry.isCurrent);
+
+/**
+ * Whole years worked, counting each month once, so overlapping roles are not double counted.
+ * Entries without valid dates are skipped; current roles run to `today`.
+ */
+export const yearsOfExperience = (history: WorkHistoryEntry[], today: Date = new Date()): number => {
+  const thisMonth = monthNumber(monthOf(today));
+  const ranges = history
+    .flatMap(entry => {
+      const end = entry.isCurrent ? monthOf(today) : entry.endDate;
+      if (!isMonth(entry.startDate) || !isMonth(end)) return [];
+      const range = { start: monthNumber(entry.startDate), end: Math.min(monthNumber(end), thisMonth) };
+      return range.end >= range.start ? [range] : [];
+    })
+    .sort((a, b) => a.start - b.start);
+
+  let months = 0;
+  let coveredUntil = -Infinity;
+  for (const { start, end } of ranges) {
+    // Both ends are inclusive, so a role from January to December is twelve months
+    if (end > coveredUntil) {
+      months += end - Math.max(start, coveredUntil + 1) + 1;
+      coveredUntil = end;
+    }
+  }
+  return Math.floor(months / 12);
+};
+
+/** Every role needs an employer, a title and its dates; returns an error message or undefined. */
+export const validateWorkHistory = (history: WorkHistoryEntry[], today: Date = new Date()): string | undefined => {
+  const thisMonth = monthNumber(monthOf(today));
+  for (const [index, entry] of history.entries()) {
+    const employer = entry.employer.trim();
+    if (!employer) return `Enter the employer for role ${index + 1}`;
+    if (!entry.title.trim()) return `Enter your job title at ${employer}`;
+    if (!isMonth(entry.startDate)) return `Enter the month you started at ${employer}`;
+    if (monthNumber(entry.startDate) > thisMonth) return `Your start date at ${employer} can't be in the future`;
+    if (entry.isCurrent) continue;
+    if (!isMonth(entry.endDate)) return `Enter the month you left ${employer}, or mark it as your current role`;
+    if (monthNumber(entry.endDate) < monthNumber(entry.startDate)) {
+      return `Your end date at ${employer} can't be before your start date`;
+    }
+    if (monthNumber(entry.endDate) > thisMonth) return `Your end date at ${employer} can't be in the future`;
+  }
+  if (history.filter(entry => entry.isCurrent).length > 1) return 'Only one role can be marked as current';
+  return undefined;
+};
+
+/** Every entry needs an institution, a degree and a plausible graduation year; returns an error message or undefined. */
+export const validateEducation = (education: EducationEntry[], today: Date = new Date()): string | undefined => {
+  const latestYear = today.getFullYear() + MAX_YEARS_TO_GRADUATION;
+  for (const [index, entry] of education.entries()) {
+    const institution = entry.institution.trim();
+    if (!institution) return `Enter the institution for qualification ${index + 1}`;
+    if (!entry.degree.trim()) return `Enter the degree or qualification you studied for at ${institution}`;
+    if (entry.graduationYear === null) return `Enter your graduation year at ${institution}`;
+    if (entry.graduationYear < MIN_GRADUATION_YEAR || entry.graduationYear > latestYear) {
+      return `Graduation year at ${institution} must be between ${MIN_GRADUATION_YEAR} and ${latestYear}`;
+    }
+  }
+  return undefined;
+};
+
+/** e.g. "Mar 2021" */
+export const formatMonth = (month: string): string => {
+  if (!isMonth(month)) return month;
+  const [year, monthOfYear] = month.split('-').map(Number);
+  return new Date(year, monthOfYear - 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+/** e.g. "Data Analyst at Initech (Mar 2021 – Present)" */
+export const formatWorkHistoryEntry = (entry: WorkHistoryEntry): string => {
+  const end = entry.isCurrent ? 'Present' : entry.endDate ? formatMonth(entry.endDate) : '?';
+  const dates = entry.startDate ? ` (${formatMonth(entry.startDate)} – ${end})` : '';
+  return `${entry.title.trim() || 'Role'} at ${entry.employer.trim() || 'unknown employer'}${dates}`;
+};
+
+/** e.g. "BSc Computer Science, State University (2019)" */
+export const formatEducationEntry = (entry: EducationEntry): string => {
+  const qualification = [entry.degree.trim(), entry.fieldOfStudy.trim()].filter(Boolean).join(' ');
+  const year = entry.graduationYear === null ? '' : ` (${entry.graduationYear})`;
+  return `${qualification || 'Qualification'}, ${entry.institution.trim()}${year}`;
+};
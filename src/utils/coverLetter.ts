@@ -0,0 +1,29 @@
+import { User } from '../types/auth';
+import { CoverLetterPlaceholder } from '../types/coverLetter';
+import { Job } from '../types/job';
+import { escapeHtml } from './richText';
+
+export type PlaceholderValues = Record<CoverLetterPlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export const placeholderValuesFor = (job: Job, user: User | null): PlaceholderValues => ({
+  'job.title': job.title,
+  'job.company': job.company,
+  'user.name': user?.name ?? '',
+});
+
+/** Every `{{...}}` placeholder left in the text, once each and in order of appearance. */
+export const findPlaceholders = (text: string): string[] => [
+  ...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[0])),
+];
+
+/**
+ * Fills in the placeholders it has values for, escaped for HTML.
+ * Unknown ones, and ones without a value, are left for the candidate to notice and fix.
+ */
+export const fillPlaceholders = (html: string, values: PlaceholderValues): string =>
+  html.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    const value = Object.prototype.hasOwnProperty.call(values, key) ? values[key as CoverLetterPlaceholder] : '';
+    return value ? escapeHtml(value) : placeholder;
+  });
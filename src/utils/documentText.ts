@@ -0,0 +1,200 @@
+/**
+ * Best-effort plain text from PDF and DOCX files, entirely in the browser. Good enough to pick
+ * contact details out of a typical resume; layout, images and unusual font encodings are lost.
+ */
+
+const inflate = async (bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Latin-1 maps every byte to one character, so string offsets line up with byte offsets
+const latin1 = new TextDecoder('latin1');
+
+// --- DOCX: a ZIP archive whose body text lives in word/document.xml ---
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+const readZipEntry = async (bytes: Uint8Array, entryName: string): Promise<Uint8Array | null> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end-of-directory record sits in the last 64 KB (it may be followed by a comment)
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 65557); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount && view.getUint32(offset, true) === ZIP_DIRECTORY_ENTRY; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = latin1.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === entryName) {
+      // The local header repeats the name and may carry a different extra field
+      const dataStart =
+        localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === ZIP_STORED) return data;
+      if (method === ZIP_DEFLATED) return inflate(data, 'deflate-raw');
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+export const extractDocxText = async (bytes: Uint8Array): Promise<string> => {
+  const documentXml = await readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) throw new Error('Not a Word document');
+
+  const xml = new DOMParser().parseFromString(new TextDecoder('utf-8').decode(documentXml), 'application/xml');
+  return Array.from(xml.getElementsByTagName('w:p'))
+    .map(paragraph =>
+      Array.from(paragraph.getElementsByTagName('*'))
+        .map(node => (node.tagName === 'w:t' ? node.textContent : node.tagName === 'w:tab' ? '\t' : ''))
+        .join('')
+    )
+    .join('\n');
+};
+
+// --- PDF: text drawn by the show-text operators inside each page's content streams ---
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/** Decodes a literal string starting just after its opening parenthesis; returns it and where it ends. */
+const readPdfString = (content: string, start: number): [string, number] => {
+  let text = '';
+  let depth = 1;
+  let i = start;
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4));
+      if (octal) {
+        text += String.fromCharCode(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      if (next === '\r' || next === '\n') {
+        // An escaped line break continues the string
+      } else {
+        text += PDF_ESCAPES[next] ?? next;
+      }
+      i += 2;
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) return [text, i + 1];
+    text += char;
+    i++;
+  }
+  return [text, i];
+};
+
+// Hex strings are usually glyph ids in embedded fonts; keep them only when they read as plain text
+const readPdfHexString = (hex: string): string => {
+  const digits = hex.replace(/\s/g, '');
+  let text = '';
+  for (let i = 0; i < digits.length; i += 2) {
+    text += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+  return /^[\x20-\x7e\s]*$/.test(text) ? text : '';
+};
+
+const extractContentText = (content: string): string => {
+  let text = '';
+  let pending: string[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '(') {
+      const [value, end] = readPdfString(content, i + 1);
+      pending.push(value);
+      i = end;
+    } else if (char === '<' && content[i + 1] === '<') {
+      i += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      if (end === -1) break;
+      pending.push(readPdfHexString(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (char === '/') {
+      // Names such as font resources are never text
+      i = i + 1 + (/^[^\s/[\]()<>{}%]*/.exec(content.slice(i + 1))?.[0].length ?? 0);
+    } else if (char === '%') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 3))?.[0] ?? char;
+      if (operator === 'Tj' || operator === 'TJ') {
+        text += pending.join('');
+      } else if (operator === "'" || operator === '"') {
+        text += '\n' + pending.join('');
+      } else if (operator === 'T*' || operator === 'Td' || operator === 'TD' || operator === 'Tm' || operator === 'ET') {
+        // Moving to another line or block; collapsed again when lines are trimmed
+        text += '\n';
+      }
+      pending = [];
+      i += operator.length;
+    } else {
+      i++;
+    }
+  }
+  return text;
+};
+
+export const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const raw = latin1.decode(bytes);
+  if (!raw.startsWith('%PDF-')) throw new Error('Not a PDF document');
+
+  const pieces: string[] = [];
+  const streamKeyword = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamKeyword.exec(raw))) {
+    const start = match.index + match[0].length;
+    const endKeyword = raw.indexOf('endstream', start);
+    if (endKeyword === -1) break;
+    streamKeyword.lastIndex = endKeyword + 'endstream'.length;
+    // The stream's dictionary is whatever its object holds before the keyword
+    const dictionary = raw.slice(raw.lastIndexOf(' obj', match.index), match.index);
+
+    // Decompressors reject trailing bytes, so stop at the stated length or before the line break
+    const length = /\/Length\s+(\d+)\b(?!\s+\d+\s+R)/.exec(dictionary);
+    let end = length ? Math.min(start + Number(length[1]), endKeyword) : endKeyword;
+    if (!length) {
+      while (end > start && (raw[end - 1] === '\n' || raw[end - 1] === '\r')) end--;
+    }
+
+    // Fonts, images and other binary streams are skipped; only plain or deflated content is read
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1|\/Type\s*\/XRef/.test(dictionary)) continue;
+    const filters = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary)?.[1] ?? '';
+    const filterNames = filters.match(/\/\w+/g) ?? [];
+    if (filterNames.some(name => name !== '/FlateDecode')) continue;
+
+    let content = raw.slice(start, end);
+    if (filterNames.length > 0) {
+      try {
+        content = latin1.decode(await inflate(bytes.subarray(start, end), 'deflate'));
+      } catch {
+        continue;
+      }
+    }
+    if (/\bBT\b/.test(content)) pieces.push(extractContentText(content));
+  }
+  return pieces.join('\n');
+};
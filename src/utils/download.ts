@@ -0,0 +1,10 @@
+/** Saves a file through the browser's usual download. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The download has started by the next tick, so the file can be let go
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
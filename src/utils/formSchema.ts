@@ -0,0 +1,196 @@
+import { FileAnswer, FormErrors, FormField, FormSchema, FormValue, FormValues, ValidationRule } from '../types/formSchema';
+import { EducationEntry, WorkHistoryEntry } from '../types/career';
+import { SkillEntry } from '../types/skill';
+import {
+  formatEducationEntry,
+  formatWorkHistoryEntry,
+  isEducationEntry,
+  isWorkHistoryEntry,
+  validateEducation,
+  validateWorkHistory,
+} from './career';
+import { isRecord } from './guards';
+import { formatPhoneNumber, validatePhoneNumber } from './phone';
+import { formatSkillEntry, isSkillEntry, validateSkillEntries } from './skills';
+import { findPlaceholders } from './coverLetter';
+import { countWords, richTextToPlainText } from './richText';
+import { EMAIL_PATTERN } from './validation';
+
+export const isFileAnswer = (value: unknown): value is FileAnswer =>
+  isRecord(value) &&
+  typeof value.fileName === 'string' &&
+  typeof value.mimeType === 'string' &&
+  typeof value.size === 'number';
+
+/** The chosen options of a multi-select value. */
+export const stringListOf = (value: FormValue): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/** The entries of a skills value. */
+export const skillEntriesOf = (value: FormValue): SkillEntry[] => (Array.isArray(value) ? value.filter(isSkillEntry) : []);
+
+/** The roles of a work-history value. */
+export const workHistoryOf = (value: FormValue): WorkHistoryEntry[] =>
+  Array.isArray(value) ? value.filter(isWorkHistoryEntry) : [];
+
+/** The qualifications of an education value. */
+export const educationOf = (value: FormValue): EducationEntry[] =>
+  Array.isArray(value) ? value.filter(isEducationEntry) : [];
+
+/** Every field in the schema, in display order. */
+export const schemaFields = (schema: FormSchema): FormField[] => schema.sections.flatMap(section => section.fields);
+
+export const emptyFormValue = (field: FormField): FormValue => {
+  switch (field.type) {
+    case 'multi-select':
+    case 'skills':
+    case 'work-history':
+    case 'education':
+      return [];
+    case 'checkbox':
+      return false;
+    case 'file':
+      return null;
+    default:
+      return '';
+  }
+};
+
+/** A value for every field in the schema, taken from `seed` where it has one. */
+export const initialFormValues = (schema: FormSchema, seed: FormValues = {}): FormValues =>
+  Object.fromEntries(schemaFields(schema).map(field => [field.name, seed[field.name] ?? emptyFormValue(field)]));
+
+export const isFieldVisible = (field: FormField, values: FormValues): boolean => {
+  const condition = field.visibleWhen;
+  if (!condition) return true;
+  const value = values[condition.field];
+  if (Array.isArray(value)) return typeof condition.equals === 'string' && stringListOf(value).includes(condition.equals);
+  return value === condition.equals;
+};
+
+const isEmptyValue = (value: FormValue): boolean =>
+  value === null ||
+  value === false ||
+  (typeof value === 'string' && !value.trim()) ||
+  (Array.isArray(value) && value.length === 0);
+
+/** Checks a field's own type before any rules, e.g. that an email field holds an address. */
+const typeError = (field: FormField, value: FormValue): string | undefined => {
+  if (field.type === 'skills') return validateSkillEntries(skillEntriesOf(value));
+  if (field.type === 'work-history') return validateWorkHistory(workHistoryOf(value));
+  if (field.type === 'education') return validateEducation(educationOf(value));
+  if (field.type === 'cover-letter' && typeof value === 'string') {
+    const [placeholder] = findPlaceholders(value);
+    return placeholder ? `Fill in or remove ${placeholder} before you continue` : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  switch (field.type) {
+    case 'email':
+      return EMAIL_PATTERN.test(value.trim()) ? undefined : 'Please enter a valid email address';
+    case 'phone':
+      return validatePhoneNumber(value);
+    case 'number':
+      return /^\d+$/.test(value.trim()) ? undefined : `${field.label} must be a whole number`;
+    default:
+      return undefined;
+  }
+};
+
+const ruleError = (field: FormField, rule: ValidationRule, value: FormValue): string | undefined => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  switch (rule.type) {
+    case 'required':
+      return isEmptyValue(value) ? (rule.message ?? `${field.label} is required`) : undefined;
+    case 'minLength':
+      return text.length < rule.value
+        ? (rule.message ?? `${field.label} must be at least ${rule.value} characters`)
+        : undefined;
+    case 'maxLength':
+      return text.length > rule.value
+        ? (rule.message ?? `${field.label} must be at most ${rule.value} characters`)
+        : undefined;
+    case 'maxWords': {
+      const words = countWords(field.type === 'cover-letter' ? richTextToPlainText(text) : text);
+      return words > rule.value ? (rule.message ?? `${field.label} must be ${rule.value} words or fewer`) : undefined;
+    }
+    case 'min':
+      return Number(text) < rule.value ? (rule.message ?? `${field.label} must be ${rule.value} or greater`) : undefined;
+    case 'max':
+      return Number(text) > rule.value ? (rule.message ?? `${field.label} must be ${rule.value} or less`) : undefined;
+    case 'pattern':
+      return new RegExp(rule.value, 'u').test(text) ? undefined : rule.message;
+    case 'minSelected':
+      return Array.isArray(value) && value.length < rule.value
+        ? (rule.message ?? `Please select at least ${rule.value}`)
+        : undefined;
+    case 'maxFileSize':
+      return isFileAnswer(value) && value.size > rule.value
+        ? (rule.message ?? `File must be ${Math.round(rule.value / (1024 * 1024))} MB or smaller`)
+        : undefined;
+    case 'fileTypes':
+      return isFileAnswer(value) && !rule.value.includes(value.mimeType)
+        ? (rule.message ?? 'This file type is not accepted')
+        : undefined;
+  }
+};
+
+/** The first problem with a field's value, or undefined when it is valid. */
+export const validateField = (field: FormField, value: FormValue): string | undefined => {
+  const rules = field.rules ?? [];
+  const required = rules.find(rule => rule.type === 'required');
+  if (isEmptyValue(value)) {
+    return required ? ruleError(field, required, value) : undefined;
+  }
+
+  const invalidType = typeError(field, value);
+  if (invalidType) return invalidType;
+
+  for (const rule of rules) {
+    const error = ruleError(field, rule, value);
+    if (error) return error;
+  }
+  return undefined;
+};
+
+/** Errors for the visible fields among `fields`; hidden fields are never validated. */
+export const validateFormValues = (fields: FormField[], values: FormValues): FormErrors => {
+  const errors: FormErrors = {};
+  for (const field of fields) {
+    if (!isFieldVisible(field, values)) continue;
+    const error = validateField(field, values[field.name] ?? emptyFormValue(field));
+    if (error) errors[field.name] = error;
+  }
+  return errors;
+};
+
+/** Applies a field's input restrictions to what was typed, e.g. digits only for numbers. */
+export const sanitizeFieldInput = (field: FormField, input: string): string => {
+  let value = field.type === 'number' ? input.replace(/\D/g, '') : input;
+  if (field.allowedCharacters) {
+    value = value.replace(new RegExp(`[^${field.allowedCharacters}]`, 'gu'), '');
+  }
+  return field.maxLength ? value.slice(0, field.maxLength) : value;
+};
+
+/** A read-only rendering of a value, using option labels where the field has them; one line per history entry. */
+export const formatFormValue = (field: FormField, value: FormValue): string => {
+  const optionLabel = (option: string) => field.options?.find(o => o.value === option)?.label ?? option;
+  if (isFileAnswer(value)) return value.fileName;
+  if (field.type === 'skills') {
+    const entries = skillEntriesOf(value);
+    return entries.length > 0 ? entries.map(formatSkillEntry).join(', ') : '—';
+  }
+  if (field.type === 'work-history') {
+    const entries = workHistoryOf(value);
+    return entries.length > 0 ? entries.map(formatWorkHistoryEntry).join('\n') : '—';
+  }
+  if (field.type === 'education') {
+    const entries = educationOf(value);
+    return entries.length > 0 ? entries.map(formatEducationEntry).join('\n') : '—';
+  }
+  if (Array.isArray(value)) return value.length > 0 ? stringListOf(value).map(optionLabel).join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field.type === 'cover-letter') return (value && richTextToPlainText(value)) || '—';
+  if (field.type === 'phone' && value) return formatPhoneNumber(value);
+  return value ? optionLabel(value) : '—';
+};
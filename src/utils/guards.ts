@@ -0,0 +1,3 @@
+/** Narrows untrusted JSON (API responses, stored data) to an object before reading its fields. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
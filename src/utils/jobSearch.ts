@@ -0,0 +1,61 @@
+import {
+  EXPERIENCE_LEVELS,
+  ExperienceLevelId,
+  JobSearchFacets,
+  JobSearchQuery,
+  SALARY_BANDS,
+  SalaryBandId,
+  WORKPLACE_TYPES,
+  WorkplaceType,
+} from '../types/job';
+
+export const EMPTY_JOB_SEARCH: JobSearchQuery = {
+  text: '',
+  locations: [],
+  workplaceTypes: [],
+  experienceLevels: [],
+  salaryBands: [],
+  skills: [],
+  cursor: null,
+};
+
+export type JobSearchFacetKey = keyof JobSearchFacets;
+
+// Query-string names; repeated keys carry multiple selections (?skill=React&skill=SQL)
+export const JOB_SEARCH_FACET_PARAMS: Record<JobSearchFacetKey, string> = {
+  locations: 'location',
+  workplaceTypes: 'workplace',
+  experienceLevels: 'experience',
+  salaryBands: 'salary',
+  skills: 'skill',
+};
+
+export const EXPERIENCE_LEVEL_IDS: ExperienceLevelId[] = EXPERIENCE_LEVELS.map(level => level.id);
+export const SALARY_BAND_IDS: SalaryBandId[] = SALARY_BANDS.map(band => band.id);
+
+/** Reads a search from the URL, dropping values this client doesn't know. */
+export const jobSearchQueryFromParams = (params: URLSearchParams): JobSearchQuery => ({
+  text: params.get('q') ?? '',
+  locations: params.getAll(JOB_SEARCH_FACET_PARAMS.locations),
+  workplaceTypes: params
+    .getAll(JOB_SEARCH_FACET_PARAMS.workplaceTypes)
+    .filter((value): value is WorkplaceType => WORKPLACE_TYPES.includes(value as WorkplaceType)),
+  experienceLevels: params
+    .getAll(JOB_SEARCH_FACET_PARAMS.experienceLevels)
+    .filter((value): value is ExperienceLevelId => EXPERIENCE_LEVEL_IDS.includes(value as ExperienceLevelId)),
+  salaryBands: params
+    .getAll(JOB_SEARCH_FACET_PARAMS.salaryBands)
+    .filter((value): value is SalaryBandId => SALARY_BAND_IDS.includes(value as SalaryBandId)),
+  skills: params.getAll(JOB_SEARCH_FACET_PARAMS.skills),
+  cursor: params.get('cursor'),
+});
+
+export const jobSearchQueryToParams = (query: JobSearchQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.text.trim()) params.set('q', query.text.trim());
+  (Object.keys(JOB_SEARCH_FACET_PARAMS) as JobSearchFacetKey[]).forEach(key => {
+    query[key].forEach(value => params.append(JOB_SEARCH_FACET_PARAMS[key], value));
+  });
+  if (query.cursor) params.set('cursor', query.cursor);
+  return params;
+};
@@ -0,0 +1,22 @@
+import { ExperienceRange, SalaryRange } from '../types/job';
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+/** e.g. "$120K – $150K a year" */
+export const formatSalaryRange = ({ min, max, currency }: SalaryRange): string =>
+  min === max
+    ? `${formatAmount(min, currency)} a year`
+    : `${formatAmount(min, currency)} – ${formatAmount(max, currency)} a year`;
+
+/** e.g. "3–5 years", "10+ years", "Entry level" */
+export const formatExperienceRange = ({ min, max }: ExperienceRange): string => {
+  if (max === null) return min === 0 ? 'Any experience' : `${min}+ years`;
+  if (max === 0) return 'Entry level';
+  return min === max ? `${min} year${min === 1 ? '' : 's'}` : `${min}–${max} years`;
+};
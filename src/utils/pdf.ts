@@ -0,0 +1,282 @@
+/**
+ * A minimal PDF writer for text documents: A4 pages of wrapped Helvetica text, headings, label/value
+ * rows and rules, entirely in the browser. It uses the standard fonts every PDF reader has, so text is
+ * limited to the Windows-1252 character set; other Latin letters lose their accents and anything else
+ * prints as "?", which `hasMissingCharacters` reports so callers can offer another way to print.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+/** Room kept at the bottom of every page for the footer */
+const FOOTER_HEIGHT = 28;
+const LABEL_WIDTH = 150;
+const LABEL_GAP = 12;
+
+// Advance widths of the printable ASCII characters (32-126), in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+/** Windows-1252 codes for the punctuation it adds to Latin-1, with their (approximate) widths */
+const WIN_ANSI_EXTRAS: Record<string, [code: number, width: number]> = {
+  '€': [0x80, 556],
+  '…': [0x85, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '™': [0x99, 1000],
+  Š: [0x8a, 667],
+  Œ: [0x8c, 1000],
+  Ž: [0x8e, 611],
+  š: [0x9a, 500],
+  œ: [0x9c, 944],
+  ž: [0x9e, 500],
+  Ÿ: [0x9f, 667],
+};
+const EXTRA_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRAS));
+
+/** Letters with a stroke rather than an accent, which Unicode doesn't decompose */
+const STROKED_LETTERS: Record<string, string> = { Ł: 'L', ł: 'l', Đ: 'D', đ: 'd', Ħ: 'H', ħ: 'h', ı: 'i' };
+
+const QUESTION_MARK = 0x3f;
+
+/** A character's Windows-1252 code, or the closest one for letters outside it. */
+const winAnsiCode = (char: string): number => {
+  // Tabs and the narrow spaces some locales put in dates and times print as plain spaces
+  if (/\s/.test(char)) return 0x20;
+  const code = char.codePointAt(0) ?? QUESTION_MARK;
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa1 && code <= 0xff)) return code;
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char][0];
+  if (STROKED_LETTERS[char]) return STROKED_LETTERS[char].charCodeAt(0);
+  // e.g. "ă" has no code of its own, so it prints as "a"
+  const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return base.length === 1 && base !== char ? winAnsiCode(base) : QUESTION_MARK;
+};
+
+const encode = (text: string): number[] => Array.from(text).map(winAnsiCode);
+
+/** Whether the text prints without any "?" standing in for characters the fonts don't have. */
+const canEncode = (text: string): boolean =>
+  Array.from(text).every(char => char === '?' || winAnsiCode(char) !== QUESTION_MARK);
+
+const codeWidth = (code: number, bold: boolean): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 0x20 && code <= 0x7e) return widths[code - 0x20];
+  const extra = EXTRA_WIDTHS.get(code);
+  if (extra !== undefined) return extra;
+  // Accented Latin-1 letters are as wide as the letter without the accent
+  const base = String.fromCharCode(code).normalize('NFD')[0];
+  const baseCode = base.charCodeAt(0);
+  return baseCode >= 0x20 && baseCode <= 0x7e ? widths[baseCode - 0x20] : 556;
+};
+
+const textWidth = (text: string, size: number, bold: boolean): number =>
+  (encode(text).reduce((total, code) => total + codeWidth(code, bold), 0) * size) / 1000;
+
+/** A PDF literal string; everything outside printable ASCII is written as an octal escape. */
+const pdfString = (text: string): string =>
+  `(${encode(text)
+    .map(code => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      if (code < 0x20 || code > 0x7e) return `\\${code.toString(8).padStart(3, '0')}`;
+      return String.fromCharCode(code);
+    })
+    .join('')})`;
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/** Breaks text into lines no wider than `width`; newlines always start a new line. */
+const wrap = (text: string, width: number, size: number, bold: boolean): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/[ \t]+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word longer than the line is split wherever it has to be
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, size, bold) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+
+export type PdfColor = 'text' | 'muted' | 'accent';
+
+const COLORS: Record<PdfColor, string> = {
+  text: '0.07 0.09 0.15',
+  muted: '0.42 0.45 0.5',
+  accent: '0.15 0.39 0.92',
+};
+
+export interface PdfTextOptions {
+  /** In points; 10 by default */
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+export interface PdfDocument {
+  /** Wrapped text starting on a new line. */
+  text: (text: string, options?: PdfTextOptions) => void;
+  /** A section heading, kept on the same page as the lines that follow it. */
+  heading: (text: string) => void;
+  /** A label in the left column with its value wrapped beside it. */
+  field: (label: string, value: string) => void;
+  /** A thin line across the page. */
+  rule: () => void;
+  /** Vertical space, in points. */
+  space: (points: number) => void;
+  /** Whether some text so far, the title and footer included, has characters that print as "?". */
+  hasMissingCharacters: () => boolean;
+  /** The finished file. */
+  toBlob: () => Blob;
+}
+
+export interface PdfDocumentOptions {
+  /** Shown as the document title by PDF readers */
+  title: string;
+  /** Printed at the bottom of every page, next to the page number */
+  footer?: string;
+}
+
+export const createPdfDocument = ({ title, footer = '' }: PdfDocumentOptions): PdfDocument => {
+  // Each page is a list of content stream operators
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  let missingCharacters = !canEncode(title) || !canEncode(footer);
+
+  const page = () => pages[pages.length - 1];
+
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN + FOOTER_HEIGHT) return;
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const drawLine = (text: string, x: number, baseline: number, size: number, bold: boolean, color: PdfColor) => {
+    if (!text) return;
+    if (!canEncode(text)) missingCharacters = true;
+    page().push(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${COLORS[color]} rg ${num(x)} ${num(baseline)} Td ${pdfString(text)} Tj ET`
+    );
+  };
+
+  const lineHeight = (size: number) => size * 1.4;
+
+  const text = (content: string, { size = 10, bold = false, color = 'text' }: PdfTextOptions = {}) => {
+    for (const line of wrap(content, CONTENT_WIDTH, size, bold)) {
+      ensureSpace(lineHeight(size));
+      y -= lineHeight(size);
+      drawLine(line, MARGIN, y + size * 0.3, size, bold, color);
+    }
+  };
+
+  const rule = () => {
+    ensureSpace(8);
+    y -= 4;
+    page().push(`0.82 0.84 0.86 RG 0.5 w ${num(MARGIN)} ${num(y)} m ${num(PAGE_WIDTH - MARGIN)} ${num(y)} l S`);
+    y -= 4;
+  };
+
+  const space = (points: number) => {
+    y -= points;
+  };
+
+  const heading = (content: string) => {
+    // A heading alone at the foot of a page reads badly, so it needs room for a few lines after it
+    ensureSpace(lineHeight(12) + 8 + 3 * lineHeight(10));
+    space(10);
+    text(content, { size: 12, bold: true, color: 'accent' });
+    rule();
+  };
+
+  const field = (label: string, value: string) => {
+    const size = 10;
+    const labelLines = wrap(label, LABEL_WIDTH, size, true);
+    const valueLines = wrap(value, CONTENT_WIDTH - LABEL_WIDTH - LABEL_GAP, size, false);
+    // Long values carry on over the page; the label stays with the value's first lines
+    ensureSpace(Math.min(labelLines.length, 4) * lineHeight(size));
+    for (let i = 0; i < Math.max(labelLines.length, valueLines.length); i++) {
+      ensureSpace(lineHeight(size));
+      y -= lineHeight(size);
+      const baseline = y + size * 0.3;
+      drawLine(labelLines[i] ?? '', MARGIN, baseline, size, true, 'muted');
+      drawLine(valueLines[i] ?? '', MARGIN + LABEL_WIDTH + LABEL_GAP, baseline, size, false, 'text');
+    }
+    y -= 4;
+  };
+
+  const toBlob = () => {
+    const objects: string[] = [];
+    const addObject = (body: string) => objects.push(body);
+
+    const firstPageObject = 6;
+    const pageRefs = pages.map((_, index) => `${firstPageObject + index * 2} 0 R`);
+    addObject('<< /Type /Catalog /Pages 2 0 R >>');
+    addObject(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const created = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    addObject(`<< /Title ${pdfString(title)} /CreationDate (D:${created}Z) >>`);
+
+    pages.forEach((operators, index) => {
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      const footerSize = 8;
+      const footerOperators = [
+        `BT /F1 ${footerSize} Tf ${COLORS.muted} rg ${num(MARGIN)} ${num(MARGIN)} Td ${pdfString(footer)} Tj ET`,
+        `BT /F1 ${footerSize} Tf ${COLORS.muted} rg ${num(PAGE_WIDTH - MARGIN - textWidth(pageLabel, footerSize, false))} ${num(MARGIN)} Td ${pdfString(pageLabel)} Tj ET`,
+      ];
+      const content = [...operators, ...footerOperators].join('\n');
+      addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + index * 2 + 1} 0 R >>`
+      );
+      addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Every string above is ASCII, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return new Blob([output], { type: 'application/pdf' });
+  };
+
+  const hasMissingCharacters = () => missingCharacters;
+
+  return { text, heading, field, rule, space, hasMissingCharacters, toBlob };
+};
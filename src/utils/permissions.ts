@@ -0,0 +1,17 @@
+import { UserRole } from '../types/auth';
+
+export type Permission =
+  | 'application:create'
+  | 'profile:edit'
+  | 'application:review'
+  | 'job:manage'
+  | 'user:manage';
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  candidate: ['application:create', 'profile:edit'],
+  recruiter: ['application:review', 'job:manage'],
+  admin: ['application:review', 'job:manage', 'user:manage'],
+};
+
+export const roleHasPermission = (role: UserRole, permission: Permission): boolean =>
+  rolePermissions[role].includes(permission);
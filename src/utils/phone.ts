@@ -0,0 +1,138 @@
+/** Dialling rules for one country; national numbers are counted without the trunk prefix. */
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 */
+  code: string;
+  name: string;
+  /** Without the leading "+" */
+  dialCode: string;
+  /** Accepted lengths of the national number */
+  nationalLengths: number[];
+  /** Digit groups for display; digits beyond them join the last group */
+  groups: number[];
+  /** Dialled before national numbers at home but dropped internationally, e.g. the UK's leading 0 */
+  trunkPrefix?: string;
+  /** Further format rules for the national number, beyond its length */
+  nationalPattern?: RegExp;
+}
+
+/** Countries sharing a dial code share its rules; the first listed is the one assumed when reading a stored number. */
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  // Area codes never start with 0 or 1
+  { code: 'US', name: 'United States', dialCode: '1', nationalLengths: [10], groups: [3, 3, 4], nationalPattern: /^[2-9]/ },
+  { code: 'CA', name: 'Canada', dialCode: '1', nationalLengths: [10], groups: [3, 3, 4], nationalPattern: /^[2-9]/ },
+  { code: 'MX', name: 'Mexico', dialCode: '52', nationalLengths: [10], groups: [2, 4, 4] },
+  { code: 'BR', name: 'Brazil', dialCode: '55', nationalLengths: [10, 11], groups: [2, 4, 4], trunkPrefix: '0' },
+  { code: 'AR', name: 'Argentina', dialCode: '54', nationalLengths: [10, 11], groups: [2, 4, 4], trunkPrefix: '0' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', nationalLengths: [9, 10], groups: [4, 6], trunkPrefix: '0' },
+  { code: 'IE', name: 'Ireland', dialCode: '353', nationalLengths: [7, 8, 9], groups: [2, 3, 4], trunkPrefix: '0' },
+  { code: 'FR', name: 'France', dialCode: '33', nationalLengths: [9], groups: [1, 2, 2, 2, 2], trunkPrefix: '0' },
+  { code: 'DE', name: 'Germany', dialCode: '49', nationalLengths: [7, 8, 9, 10, 11], groups: [3, 4, 4], trunkPrefix: '0' },
+  { code: 'ES', name: 'Spain', dialCode: '34', nationalLengths: [9], groups: [3, 3, 3] },
+  { code: 'IT', name: 'Italy', dialCode: '39', nationalLengths: [9, 10], groups: [3, 3, 4] },
+  { code: 'NL', name: 'Netherlands', dialCode: '31', nationalLengths: [9], groups: [1, 4, 4], trunkPrefix: '0' },
+  { code: 'SE', name: 'Sweden', dialCode: '46', nationalLengths: [7, 8, 9], groups: [2, 3, 4], trunkPrefix: '0' },
+  { code: 'PL', name: 'Poland', dialCode: '48', nationalLengths: [9], groups: [3, 3, 3] },
+  { code: 'NG', name: 'Nigeria', dialCode: '234', nationalLengths: [8, 10], groups: [3, 3, 4], trunkPrefix: '0' },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', nationalLengths: [9], groups: [2, 3, 4], trunkPrefix: '0' },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971', nationalLengths: [8, 9], groups: [2, 3, 4], trunkPrefix: '0' },
+  { code: 'IL', name: 'Israel', dialCode: '972', nationalLengths: [8, 9], groups: [2, 3, 4], trunkPrefix: '0' },
+  { code: 'IN', name: 'India', dialCode: '91', nationalLengths: [10], groups: [5, 5], trunkPrefix: '0' },
+  { code: 'CN', name: 'China', dialCode: '86', nationalLengths: [10, 11], groups: [3, 4, 4], trunkPrefix: '0' },
+  { code: 'JP', name: 'Japan', dialCode: '81', nationalLengths: [9, 10], groups: [2, 4, 4], trunkPrefix: '0' },
+  { code: 'KR', name: 'South Korea', dialCode: '82', nationalLengths: [8, 9, 10], groups: [2, 4, 4], trunkPrefix: '0' },
+  { code: 'SG', name: 'Singapore', dialCode: '65', nationalLengths: [8], groups: [4, 4] },
+  { code: 'PH', name: 'Philippines', dialCode: '63', nationalLengths: [10], groups: [3, 3, 4], trunkPrefix: '0' },
+  { code: 'AU', name: 'Australia', dialCode: '61', nationalLengths: [9], groups: [1, 4, 4], trunkPrefix: '0' },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64', nationalLengths: [8, 9, 10], groups: [2, 3, 4], trunkPrefix: '0' },
+];
+
+/** E.164 allows at most 15 digits after the "+" */
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+export const findPhoneCountry = (code: string): PhoneCountry | undefined =>
+  PHONE_COUNTRIES.find(country => country.code === code);
+
+/** The browser's region when we have rules for it, else the United States. */
+export const defaultPhoneCountry = (): PhoneCountry => {
+  const region = typeof navigator === 'undefined' ? undefined : navigator.language.split('-')[1]?.toUpperCase();
+  return (region && findPhoneCountry(region)) || PHONE_COUNTRIES[0];
+};
+
+/**
+ * The E.164 form of what was typed for `country`, e.g. "+447911123456"; empty when no digits were typed.
+ * Incomplete numbers are kept as typed so `validatePhoneNumber` can say what's wrong with them.
+ */
+export const toE164 = (country: PhoneCountry, input: string): string => {
+  let digits = input.replace(/\D/g, '');
+  const maxLength = Math.max(...country.nationalLengths);
+  // Pasted numbers often carry the country code or the domestic trunk prefix
+  if (digits.startsWith(country.dialCode) && digits.length > maxLength) {
+    digits = digits.slice(country.dialCode.length);
+  }
+  if (country.trunkPrefix && digits.startsWith(country.trunkPrefix)) {
+    digits = digits.slice(country.trunkPrefix.length);
+  }
+  return digits ? `+${country.dialCode}${digits}` : '';
+};
+
+/**
+ * Numbers saved before international numbers were supported have no country code; a bare 10-digit number
+ * could be North American or Indian, so the candidate has to confirm which before it is used again.
+ */
+export const isLegacyPhoneNumber = (value: string): boolean => value !== '' && !value.startsWith('+');
+
+/** Splits a stored E.164 number into its country and national number. `preferred` settles shared dial codes. */
+export const splitPhoneNumber = (
+  value: string,
+  preferred?: PhoneCountry
+): { country: PhoneCountry; national: string } | null => {
+  if (!value.startsWith('+')) return null;
+
+  const digits = value.slice(1);
+  const matches = PHONE_COUNTRIES.filter(country => digits.startsWith(country.dialCode));
+  if (matches.length === 0) return null;
+  // Longest dial code first, so "+353" is Ireland rather than some "+3" country
+  const longest = Math.max(...matches.map(country => country.dialCode.length));
+  const candidates = matches.filter(country => country.dialCode.length === longest);
+  const country = candidates.find(c => c.code === preferred?.code) ?? candidates[0];
+  return { country, national: digits.slice(country.dialCode.length) };
+};
+
+/** Groups the national number for display, e.g. "+44 7911 123456". */
+export const formatNationalNumber = (country: PhoneCountry, national: string): string => {
+  const groups: string[] = [];
+  let rest = national;
+  country.groups.forEach((size, index) => {
+    if (!rest) return;
+    const isLast = index === country.groups.length - 1;
+    groups.push(isLast ? rest : rest.slice(0, size));
+    rest = isLast ? '' : rest.slice(size);
+  });
+  return groups.join(' ');
+};
+
+/** A stored number as people write it; numbers we can't read are shown as stored. */
+export const formatPhoneNumber = (value: string): string => {
+  const parts = splitPhoneNumber(value);
+  return parts ? `+${parts.country.dialCode} ${formatNationalNumber(parts.country, parts.national)}` : value;
+};
+
+/** Checks a stored number against its country's rules; returns an error message or undefined. */
+export const validatePhoneNumber = (value: string): string | undefined => {
+  if (isLegacyPhoneNumber(value)) return 'Please confirm the country code for this phone number';
+  const parts = splitPhoneNumber(value);
+  if (!parts || !E164_PATTERN.test(`+${parts.country.dialCode}${parts.national}`)) {
+    return 'Please enter a valid phone number';
+  }
+  const { country, national } = parts;
+  if (!country.nationalLengths.includes(national.length)) {
+    const lengths = country.nationalLengths;
+    const expected =
+      lengths.length === 1 ? `${lengths[0]}` : `${lengths.slice(0, -1).join(', ')} or ${lengths[lengths.length - 1]}`;
+    return `${country.name} phone numbers have ${expected} digits after +${country.dialCode}`;
+  }
+  if (country.nationalPattern && !country.nationalPattern.test(national)) {
+    return `This doesn't look like a valid phone number for ${country.name}`;
+  }
+  return undefined;
+};
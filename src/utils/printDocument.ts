@@ -0,0 +1,73 @@
+import { PdfDocument, PdfDocumentOptions } from './pdf';
+import { escapeHtml } from './richText';
+
+const STYLESHEET = `
+  @page { size: A4; margin: 20mm; }
+  body { margin: 0; font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; font-size: 10pt; color: #111827; }
+  p { margin: 0; line-height: 1.4; white-space: pre-wrap; overflow-wrap: anywhere; }
+  h2 { margin: 10pt 0 0; padding-bottom: 4pt; border-bottom: 0.5pt solid #d1d5db; font-size: 12pt; color: #2563eb; break-after: avoid; }
+  .muted { color: #6b7280; }
+  .accent { color: #2563eb; }
+  .field { display: grid; grid-template-columns: 150pt 1fr; column-gap: 12pt; margin-bottom: 4pt; }
+  .field > p:first-child { font-weight: bold; color: #6b7280; }
+  hr { border: 0; border-top: 0.5pt solid #d1d5db; margin: 4pt 0; }
+  footer { margin-top: 24pt; font-size: 8pt; color: #6b7280; }
+`;
+
+export type PrintDocument = Omit<PdfDocument, 'hasMissingCharacters' | 'toBlob'> & {
+  /** Opens the print dialog, where the candidate can also save the document as a PDF. */
+  print: () => void;
+};
+
+/**
+ * The same kind of text document as the PDF writer, laid out as HTML and handed to the browser's print
+ * dialog instead. It is slower to get to a file, but the browser's fonts cover every script, so it is the
+ * fallback for text the PDF's fonts can't print.
+ */
+export const createPrintDocument = ({ title, footer = '' }: PdfDocumentOptions): PrintDocument => {
+  const blocks: string[] = [];
+
+  const text: PrintDocument['text'] = (content, { size = 10, bold = false, color = 'text' } = {}) => {
+    const style = `font-size: ${size}pt;${bold ? ' font-weight: bold;' : ''}`;
+    const className = color === 'text' ? '' : ` class="${color}"`;
+    blocks.push(`<p${className} style="${style}">${escapeHtml(content)}</p>`);
+  };
+
+  const heading = (content: string) => {
+    blocks.push(`<h2>${escapeHtml(content)}</h2>`);
+  };
+
+  const field = (label: string, value: string) => {
+    blocks.push(`<div class="field"><p>${escapeHtml(label)}</p><p>${escapeHtml(value)}</p></div>`);
+  };
+
+  const rule = () => {
+    blocks.push('<hr>');
+  };
+
+  const space = (points: number) => {
+    blocks.push(`<div style="height: ${points}pt"></div>`);
+  };
+
+  const print = () => {
+    // A hidden frame keeps the page the candidate is on as it was, and isn't stopped by popup blockers
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0;';
+    frame.srcdoc =
+      `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+      `<style>${STYLESHEET}</style></head><body>${blocks.join('')}` +
+      (footer ? `<footer>${escapeHtml(footer)}</footer>` : '') +
+      '</body></html>';
+    frame.onload = () => {
+      const printWindow = frame.contentWindow;
+      if (!printWindow) return;
+      printWindow.addEventListener('afterprint', () => frame.remove());
+      printWindow.focus();
+      printWindow.print();
+    };
+    document.body.appendChild(frame);
+  };
+
+  return { text, heading, field, rule, space, print };
+};
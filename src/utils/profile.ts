@@ -0,0 +1,91 @@
+import { EducationEntry, WorkHistoryEntry } from '../types/career';
+import { CandidateProfile, CandidateProfileInput } from '../types/profile';
+import { SkillEntry } from '../types/skill';
+import { currentRole, yearsOfExperience } from './career';
+import { isSameSkill } from './skills';
+
+/** Profile fields as the forms hold them; experience and employment are worked out from the work history. */
+export interface ProfileFormFields {
+  fullName: string;
+  phone: string;
+  skills: SkillEntry[];
+  workHistory: WorkHistoryEntry[];
+  education: EducationEntry[];
+}
+
+export const EMPTY_PROFILE_FIELDS: ProfileFormFields = {
+  fullName: '',
+  phone: '',
+  skills: [],
+  workHistory: [],
+  education: [],
+};
+
+export const profileToFormFields = (profile: CandidateProfile | null): ProfileFormFields => {
+  if (!profile) return EMPTY_PROFILE_FIELDS;
+  return {
+    fullName: profile.fullName,
+    phone: profile.phone,
+    skills: profile.skills.map(entry => ({ ...entry })),
+    workHistory: profile.workHistory.map(entry => ({ ...entry })),
+    education: profile.education.map(entry => ({ ...entry })),
+  };
+};
+
+/**
+ * The profile to save. `previous` is the stored profile: if it has no roles either, the experience, employment
+ * and company it recorded before work history was asked for are kept rather than cleared.
+ */
+export const formFieldsToProfile = (
+  fields: ProfileFormFields,
+  previous: CandidateProfile | null = null
+): CandidateProfileInput => {
+  const workHistory = fields.workHistory.map(entry => ({
+    ...entry,
+    employer: entry.employer.trim(),
+    title: entry.title.trim(),
+    description: entry.description.trim(),
+  }));
+  const current = currentRole(workHistory);
+  const hasHistory = workHistory.length > 0;
+  // An empty history says nothing either way: keep what a profile without roles stored, else leave it unanswered
+  const legacy = !hasHistory && previous?.workHistory.length === 0 ? previous : null;
+  return {
+    fullName: fields.fullName.trim(),
+    phone: fields.phone,
+    yearsOfExperience: hasHistory ? yearsOfExperience(workHistory) : (legacy?.yearsOfExperience ?? null),
+    currentlyEmployed: hasHistory ? current !== undefined : (legacy?.currentlyEmployed ?? null),
+    currentCompany: hasHistory ? (current?.employer ?? '') : (legacy?.currentCompany ?? ''),
+    skills: fields.skills.map(entry => ({ ...entry })),
+    workHistory,
+    education: fields.education.map(entry => ({
+      ...entry,
+      institution: entry.institution.trim(),
+      degree: entry.degree.trim(),
+      fieldOfStudy: entry.fieldOfStudy.trim(),
+    })),
+  };
+};
+
+// Entry ids only tell entries apart while editing, so two histories are the same if everything else matches
+const withoutIds = (entries: (WorkHistoryEntry | EducationEntry)[]) =>
+  JSON.stringify(entries, (key, value) => (key === 'id' ? undefined : value));
+
+/** Whether saving these form fields would change the stored profile. */
+export const differsFromProfile = (profile: CandidateProfile | null, fields: ProfileFormFields): boolean => {
+  const next = formFieldsToProfile(fields, profile);
+  if (!profile) return true;
+  return (
+    next.fullName !== profile.fullName ||
+    next.phone !== profile.phone ||
+    withoutIds(next.workHistory) !== withoutIds(profile.workHistory) ||
+    withoutIds(next.education) !== withoutIds(profile.education) ||
+    next.skills.length !== profile.skills.length ||
+    next.skills.some(
+      skill =>
+        !profile.skills.some(
+          saved => isSameSkill(saved, skill) && saved.proficiency === skill.proficiency && saved.years === skill.years
+        )
+    )
+  );
+};
@@ -0,0 +1,104 @@
+import { RESUME_MAX_BYTES, RESUME_MIME_TYPES } from '../types/application';
+import { SKILL_TAXONOMY, SkillEntry } from '../types/skill';
+import { extractDocxText, extractPdfText } from './documentText';
+import { defaultPhoneCountry, toE164, validatePhoneNumber } from './phone';
+import { skillEntryFor } from './skills';
+import { EMAIL_PATTERN, NAME_PATTERN } from './validation';
+
+/** Values found in a resume, keyed by the application field they would fill. */
+export interface ResumeSuggestions {
+  fullName?: string;
+  email?: string;
+  phone?: string;
+  experience?: string;
+  /** Taxonomy skills mentioned anywhere, unrated */
+  skills: SkillEntry[];
+}
+
+type ResumeKind = keyof typeof RESUME_MIME_TYPES;
+
+// Some browsers report an empty type for Word documents, so fall back to the extension
+const resumeKind = (file: File): ResumeKind | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (file.type === RESUME_MIME_TYPES.pdf || extension === 'pdf') return 'pdf';
+  if (file.type === RESUME_MIME_TYPES.docx || extension === 'docx') return 'docx';
+  return null;
+};
+
+/** Why the file can't be used as a resume, or undefined when it can. */
+export const validateResumeFile = (file: File): string | undefined => {
+  if (!resumeKind(file)) {
+    return 'Please upload your resume as a PDF or Word (.docx) file';
+  }
+  if (file.size > RESUME_MAX_BYTES) {
+    return `Resume must be ${RESUME_MAX_BYTES / (1024 * 1024)} MB or smaller`;
+  }
+  if (file.size === 0) {
+    return 'This file is empty';
+  }
+  return undefined;
+};
+
+/** The resume's MIME type, from its extension when the browser doesn't report one. Call `validateResumeFile` first. */
+export const resumeMimeType = (file: File): string => RESUME_MIME_TYPES[resumeKind(file) ?? 'pdf'];
+
+export const extractResumeText = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return resumeKind(file) === 'docx' ? extractDocxText(bytes) : extractPdfText(bytes);
+};
+
+const HEADING_WORDS = /\b(resume|résumé|curriculum|vitae|cv|profile|summary|contact)\b/i;
+
+// The name is normally the first short line that looks like one
+const findName = (lines: string[]): string | undefined =>
+  lines
+    .slice(0, 10)
+    .find(line => {
+      const words = line.split(/\s+/);
+      return words.length >= 2 && words.length <= 4 && NAME_PATTERN.test(line) && !HEADING_WORDS.test(line);
+    });
+
+const findEmail = (text: string): string | undefined =>
+  text.match(/[^\s@<>()[\]:;,]+@[^\s@<>()[\]:;,]+\.[A-Za-z]{2,}/g)?.find(candidate => EMAIL_PATTERN.test(candidate));
+
+// Numbers written without a country code are read as local to the candidate's browser
+const findPhone = (text: string): string | undefined => {
+  for (const candidate of text.match(/\+?[\d().\- \t]{7,20}\d/g) ?? []) {
+    const digits = candidate.replace(/\D/g, '');
+    const value = candidate.trim().startsWith('+') ? `+${digits}` : toE164(defaultPhoneCountry(), digits);
+    if (!validatePhoneNumber(value)) return value;
+  }
+  return undefined;
+};
+
+const findYearsOfExperience = (text: string): string | undefined => {
+  const match = /(\d{1,2})\+?\s*(?:years?|yrs?)(?:\s+of)?\s+(?:professional\s+|relevant\s+|industry\s+|work\s+)?experience/i.exec(text);
+  return match ? String(parseInt(match[1], 10)) : undefined;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Short names like "Go" or "TS" only count in their usual capitalisation
+const mentions = (text: string, term: string) =>
+  new RegExp(`(^|[^\\w+#.])${escapeRegExp(term)}(?![\\w+#])`, term.length <= 3 ? '' : 'i').test(text);
+
+const findSkills = (text: string): SkillEntry[] =>
+  SKILL_TAXONOMY.filter(skill => [skill.name, ...skill.aliases].some(term => mentions(text, term))).map(skill =>
+    skillEntryFor(skill.name)
+  );
+
+/** Picks application details out of a resume's text; anything not found is left out. */
+export const parseResumeText = (text: string): ResumeSuggestions => {
+  const lines = text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  return {
+    fullName: findName(lines),
+    email: findEmail(text),
+    phone: findPhone(text),
+    experience: findYearsOfExperience(text),
+    skills: findSkills(text),
+  };
+};
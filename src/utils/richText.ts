@@ -0,0 +1,82 @@
+/** Elements kept as they are, or as their closest allowed equivalent. */
+const ALLOWED_TAGS: Record<string, string> = {
+  P: 'p',
+  DIV: 'p',
+  BLOCKQUOTE: 'p',
+  H1: 'h2',
+  H2: 'h2',
+  H3: 'h3',
+  H4: 'h3',
+  H5: 'h3',
+  H6: 'h3',
+  UL: 'ul',
+  OL: 'ol',
+  LI: 'li',
+  STRONG: 'strong',
+  B: 'strong',
+  EM: 'em',
+  I: 'em',
+  A: 'a',
+  BR: 'br',
+};
+
+/** Elements whose content goes too; everything else not allowed is replaced by its content. */
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'OBJECT', 'EMBED', 'SVG', 'MATH', 'HEAD']);
+
+const BLOCK_TAGS = new Set(['p', 'h2', 'h3', 'ul', 'ol', 'li']);
+
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i;
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const serializeNode = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent ?? '');
+  if (!(node instanceof Element)) return '';
+
+  const sourceTag = node.tagName.toUpperCase();
+  if (DROPPED_TAGS.has(sourceTag)) return '';
+  const content = Array.from(node.childNodes).map(serializeNode).join('');
+  const tag = ALLOWED_TAGS[sourceTag];
+  if (!tag) return content;
+  if (tag === 'br') return '<br>';
+  if (tag === 'a') {
+    const href = node.getAttribute('href')?.trim() ?? '';
+    // Links open away from the application, and never run script
+    return SAFE_HREF.test(href)
+      ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">${content}</a>`
+      : content;
+  }
+  return `<${tag}>${content}</${tag}>`;
+};
+
+/**
+ * Reduces HTML to what the rich-text editor can produce: paragraphs, two heading levels, lists,
+ * bold, italics and http(s)/mailto links. Attributes, styles, scripts and anything else are removed.
+ */
+export const sanitizeRichText = (html: string): string => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.body.childNodes).map(serializeNode).join('');
+};
+
+const plainTextOf = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+  if (!(node instanceof Element)) return '';
+  const tag = node.tagName.toLowerCase();
+  if (tag === 'br') return '\n';
+  const text = Array.from(node.childNodes).map(plainTextOf).join('');
+  // Blocks end a line, so words in neighbouring paragraphs don't run together
+  return BLOCK_TAGS.has(tag) || tag === 'div' ? `${text}\n` : text;
+};
+
+/** The text of rich-text HTML, one line per block. */
+export const richTextToPlainText = (html: string): string => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return plainTextOf(doc.body).replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+export const isRichTextEmpty = (html: string): boolean => richTextToPlainText(html) === '';
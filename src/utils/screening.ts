@@ -0,0 +1,89 @@
+import { FormField, FormValue, FormValues } from '../types/formSchema';
+import { ScreeningExpectation, ScreeningOutcome, ScreeningQuestion, ScreeningResult, ScreeningRule } from '../types/screening';
+import { emptyFormValue, formatFormValue, isFieldVisible, stringListOf } from './formSchema';
+
+/** The form step the job's screening questions are asked in. */
+export const SCREENING_SECTION_ID = 'screening';
+
+const meetsExpectation = (expected: ScreeningExpectation, value: FormValue): boolean => {
+  switch (expected.type) {
+    case 'equals':
+      return Array.isArray(value)
+        ? typeof expected.value === 'string' && stringListOf(value).includes(expected.value)
+        : value === expected.value;
+    case 'oneOf':
+      return Array.isArray(value)
+        ? stringListOf(value).some(option => expected.value.includes(option))
+        : typeof value === 'string' && expected.value.includes(value);
+    case 'atLeast':
+    case 'atMost': {
+      // Unanswered questions never meet a number, even a minimum of zero
+      if (typeof value !== 'string' || !value.trim()) return false;
+      const number = Number(value);
+      return expected.type === 'atLeast' ? number >= expected.value : number <= expected.value;
+    }
+  }
+};
+
+/** The expected answer in the candidate's terms, e.g. "Authorized to work" or "At least 3". */
+export const formatExpectation = (field: FormField, expected: ScreeningExpectation): string => {
+  switch (expected.type) {
+    case 'equals':
+      return formatFormValue(field, expected.value);
+    case 'oneOf':
+      return expected.value.map(option => formatFormValue(field, option)).join(' or ');
+    case 'atLeast':
+      return `At least ${expected.value}`;
+    case 'atMost':
+      return `At most ${expected.value}`;
+  }
+};
+
+/** e.g. "Knock-out", "Score ×2" or "Flag for review". */
+export const formatScreeningRule = (rule: ScreeningRule): string => {
+  switch (rule.type) {
+    case 'knockout':
+      return 'Knock-out';
+    case 'score':
+      return `Score ×${rule.weight}`;
+    case 'flag':
+      return 'Flag for review';
+  }
+};
+
+/**
+ * Checks the answers against the job's screening questions. Questions hidden from the candidate are skipped;
+ * the score is the share of scored weight whose question was answered as expected.
+ */
+export const evaluateScreening = (
+  questions: ScreeningQuestion[],
+  values: FormValues,
+  evaluatedAt: Date = new Date()
+): ScreeningResult => {
+  const outcomes: ScreeningOutcome[] = questions
+    .filter(({ field }) => isFieldVisible(field, values))
+    .map(({ field, expected, rule }) => {
+      const raw = values[field.name] ?? emptyFormValue(field);
+      const value = typeof raw === 'string' ? raw.trim() : raw;
+      return {
+        name: field.name,
+        label: field.label,
+        answer: formatFormValue(field, value),
+        expectedAnswer: formatExpectation(field, expected),
+        rule,
+        passed: meetsExpectation(expected, value),
+      };
+    });
+
+  const weightOf = ({ rule }: ScreeningOutcome) => (rule.type === 'score' ? rule.weight : 0);
+  const totalWeight = outcomes.reduce((sum, outcome) => sum + weightOf(outcome), 0);
+  const earnedWeight = outcomes.filter(o => o.passed).reduce((sum, outcome) => sum + weightOf(outcome), 0);
+
+  return {
+    outcomes,
+    score: totalWeight > 0 ? Math.round((earnedWeight / totalWeight) * 100) : null,
+    knockedOut: outcomes.some(o => o.rule.type === 'knockout' && !o.passed),
+    flagged: outcomes.some(o => o.rule.type === 'flag' && !o.passed),
+    evaluatedAt: evaluatedAt.toISOString(),
+  };
+};
@@ -0,0 +1,138 @@
+import {
+  SKILL_PROFICIENCIES,
+  SKILL_PROFICIENCY_LABELS,
+  SKILL_TAXONOMY,
+  SkillDefinition,
+  SkillEntry,
+  SkillProficiency,
+} from '../types/skill';
+import { isRecord } from './guards';
+
+/** More than this is almost certainly a typo */
+export const MAX_SKILL_YEARS = 50;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+export const findSkill = (skillId: string): SkillDefinition | undefined =>
+  SKILL_TAXONOMY.find(skill => skill.id === skillId);
+
+/** The taxonomy skill with this exact name or alias, ignoring case. */
+export const matchSkill = (text: string): SkillDefinition | undefined => {
+  const wanted = normalize(text);
+  return SKILL_TAXONOMY.find(
+    skill => normalize(skill.name) === wanted || skill.aliases.some(alias => normalize(alias) === wanted)
+  );
+};
+
+export interface SkillSearchResult {
+  skill: SkillDefinition;
+  /** Set when the query matched an alias rather than the name, to explain the result */
+  matchedAlias?: string;
+}
+
+/** Taxonomy skills matching what was typed: name prefixes first, then alias prefixes, then anywhere. */
+export const searchSkills = (query: string, excludeIds: string[] = [], limit = 8): SkillSearchResult[] => {
+  const wanted = normalize(query);
+  if (!wanted) return [];
+
+  const ranked: { result: SkillSearchResult; rank: number }[] = [];
+  for (const skill of SKILL_TAXONOMY) {
+    if (excludeIds.includes(skill.id)) continue;
+    const name = normalize(skill.name);
+    const alias = skill.aliases.find(a => normalize(a).startsWith(wanted));
+    if (name.startsWith(wanted)) {
+      ranked.push({ result: { skill }, rank: 0 });
+    } else if (alias) {
+      ranked.push({ result: { skill, matchedAlias: alias }, rank: 1 });
+    } else if (name.includes(wanted)) {
+      ranked.push({ result: { skill }, rank: 2 });
+    }
+  }
+  // Sorting is stable, so each rank keeps the taxonomy's order
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ result }) => result);
+};
+
+/** A new, unrated entry: the taxonomy skill when the text names one, else a custom skill. */
+export const skillEntryFor = (text: string): SkillEntry => {
+  const skill = matchSkill(text);
+  return {
+    skillId: skill?.id ?? null,
+    name: skill?.name ?? text.trim().replace(/\s+/g, ' '),
+    proficiency: null,
+    years: null,
+  };
+};
+
+/** Whether two entries are the same skill; custom skills match by name. */
+export const isSameSkill = (a: SkillEntry, b: SkillEntry): boolean =>
+  a.skillId !== null || b.skillId !== null ? a.skillId === b.skillId : normalize(a.name) === normalize(b.name);
+
+export const isSkillEntry = (value: unknown): value is SkillEntry =>
+  isRecord(value) && typeof value.name === 'string' && (value.skillId === null || typeof value.skillId === 'string');
+
+const isProficiency = (value: unknown): value is SkillProficiency =>
+  SKILL_PROFICIENCIES.includes(value as SkillProficiency);
+
+/**
+ * Reads stored skills, upgrading the plain names saved before skills were structured.
+ * Entries are matched to the taxonomy again, so aliases stored as custom skills are picked up.
+ */
+export const parseSkillEntries = (value: unknown): SkillEntry[] => {
+  if (!Array.isArray(value)) return [];
+  const entries: SkillEntry[] = [];
+  for (const item of value) {
+    let entry: SkillEntry | null = null;
+    if (typeof item === 'string' && item.trim()) {
+      entry = skillEntryFor(item);
+    } else if (isSkillEntry(item) && item.name.trim()) {
+      const skill = (item.skillId !== null && findSkill(item.skillId)) || matchSkill(item.name);
+      entry = {
+        skillId: skill ? skill.id : null,
+        name: skill ? skill.name : item.name.trim(),
+        proficiency: isProficiency(item.proficiency) ? item.proficiency : null,
+        years: typeof item.years === 'number' && item.years >= 0 ? Math.floor(item.years) : null,
+      };
+    }
+    if (entry && !entries.some(existing => isSameSkill(existing, entry))) entries.push(entry);
+  }
+  return entries;
+};
+
+/** e.g. "React (Advanced, 3 years)" */
+export const formatSkillEntry = (entry: SkillEntry): string => {
+  const details = [
+    entry.proficiency ? SKILL_PROFICIENCY_LABELS[entry.proficiency] : null,
+    entry.years === null ? null : `${entry.years} year${entry.years === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+  return details.length > 0 ? `${entry.name} (${details.join(', ')})` : entry.name;
+};
+
+/** Every entry needs a proficiency and years of use; returns an error message or undefined. */
+export const validateSkillEntries = (entries: SkillEntry[]): string | undefined => {
+  for (const entry of entries) {
+    if (!entry.proficiency) return `Choose your proficiency in ${entry.name}`;
+    if (entry.years === null) return `Enter how many years you have used ${entry.name}`;
+    if (entry.years > MAX_SKILL_YEARS) return `Years using ${entry.name} must be ${MAX_SKILL_YEARS} or less`;
+  }
+  return undefined;
+};
+
+/**
+ * Whether the entries include a taxonomy skill, at `minimum` proficiency or above when given.
+ * Unrated entries never meet a minimum.
+ */
+export const hasSkillAtLeast = (
+  entries: SkillEntry[],
+  skillId: string,
+  minimum: SkillProficiency | null = null
+): boolean =>
+  entries.some(
+    entry =>
+      entry.skillId === skillId &&
+      (minimum === null ||
+        (entry.proficiency !== null &&
+          SKILL_PROFICIENCIES.indexOf(entry.proficiency) >= SKILL_PROFICIENCIES.indexOf(minimum)))
+  );
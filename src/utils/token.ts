@@ -0,0 +1,16 @@
+import { jwtDecode, JwtPayload } from 'jwt-decode';
+
+/** Expiry of a JWT in epoch milliseconds, or null when the token is opaque or has no `exp`. */
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const { exp } = jwtDecode<JwtPayload>(token);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string, now = Date.now()): boolean => {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && expiresAt <= now;
+};
@@ -0,0 +1,110 @@
+import { validatePhoneNumber } from './phone';
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const PASSWORD_MIN_LENGTH = 6;
+
+/** Strength rules shared by signup and password reset; returns an error message or undefined. */
+export const validatePasswordStrength = (password: string): string | undefined => {
+  if (!password.trim()) {
+    return 'Password is required';
+  }
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+    return 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+  }
+  return undefined;
+};
+
+export const validatePasswordConfirmation = (password: string, confirmPassword: string): string | undefined => {
+  if (!confirmPassword.trim()) {
+    return 'Please confirm your password';
+  }
+  if (password !== confirmPassword) {
+    return 'Passwords do not match';
+  }
+  return undefined;
+};
+
+/** Letters from any script (with their accents), spaces, hyphens and apostrophes, as a character class */
+export const NAME_CHARACTERS = "\\p{L}\\p{M}\\s\\-'’";
+
+export const NAME_PATTERN = new RegExp(`^[${NAME_CHARACTERS}]+$`, 'u');
+
+export const validateFullName = (name: string): string | undefined => {
+  if (!name.trim()) {
+    return 'Full name is required';
+  }
+  if (!NAME_PATTERN.test(name.trim()) || name.trim().length < 2) {
+    return 'Full name must contain only letters, spaces, hyphens, and apostrophes';
+  }
+  return undefined;
+};
+
+export const validatePhone = (phone: string): string | undefined => {
+  if (!phone.trim()) {
+    return 'Phone number is required';
+  }
+  return validatePhoneNumber(phone);
+};
+
+// Field checks for useForm. Each passes empty values except `required`, so they combine with it.
+
+/** Checks one field, given every value in the form; returns an error message or undefined. */
+export type Validator<Value, Values> = (value: Value, values: Values) => string | undefined;
+
+/** A check that has to ask elsewhere, e.g. the server; `signal` aborts once the value changes again. */
+export type AsyncValidator<Value, Values> = (
+  value: Value,
+  values: Values,
+  signal: AbortSignal
+) => Promise<string | undefined>;
+
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === false ||
+  (typeof value === 'string' && !value.trim()) ||
+  (Array.isArray(value) && value.length === 0);
+
+const filledText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const required =
+  (message: string) =>
+  (value: unknown): string | undefined =>
+    isBlank(value) ? message : undefined;
+
+export const validEmail =
+  (message = 'Please enter a valid email address') =>
+  (value: unknown): string | undefined => {
+    const text = filledText(value);
+    return text !== null && !EMAIL_PATTERN.test(text) ? message : undefined;
+  };
+
+export const minLength =
+  (length: number, message: string) =>
+  (value: unknown): string | undefined => {
+    const text = filledText(value);
+    return text !== null && text.length < length ? message : undefined;
+  };
+
+export const matchesPattern =
+  (pattern: RegExp, message: string) =>
+  (value: unknown): string | undefined => {
+    const text = filledText(value);
+    return text !== null && !pattern.test(text) ? message : undefined;
+  };
+
+/** e.g. a password confirmation, which must equal the password field. */
+export const matchesField =
+  <Values>(field: keyof Values, message: string) =>
+  (value: unknown, values: Values): string | undefined =>
+    !isBlank(value) && value !== values[field] ? message : undefined;
+
+export const strongPassword =
+  () =>
+  (value: unknown): string | undefined =>
+    typeof value === 'string' && value ? validatePasswordStrength(value) : undefined;
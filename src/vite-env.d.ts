@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_OAUTH_GOOGLE_CLIENT_ID?: string;
+  readonly VITE_OAUTH_GOOGLE_ISSUER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}